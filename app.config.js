@@ -2,6 +2,7 @@ export default {
   expo: {
     name: "CarWorkshopMobile",
     slug: "CarWorkshopMobile",
+    scheme: "carworkshopmobile",
     version: "1.0.0",
     orientation: "portrait",
     icon: "./assets/icon.png",
@@ -15,6 +16,7 @@ export default {
     ios: {
       supportsTablet: true,
       bundleIdentifier: "com.carworkshopmobile",
+      usesAppleSignIn: true,
       config: {
         googleMapsApiKey: process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY
       }
@@ -34,7 +36,18 @@ export default {
     },
     web: {
       favicon: "./assets/favicon.png"
-    }
+    },
+    extra: {
+      eas: {
+        // Needed for push tokens in builds, see `eas init`
+        projectId: process.env.EXPO_PUBLIC_EAS_PROJECT_ID
+      }
+    },
+    plugins: [
+      "expo-notifications",
+      "expo-apple-authentication",
+      "expo-web-browser"
+    ]
   }
 };
 
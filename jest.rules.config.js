@@ -0,0 +1,9 @@
+/**
+ * Security rules tests, run against the emulators by `npm run test:rules`
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/rules-tests'],
+  // The emulators answer slower than the unit tests expect
+  testTimeout: 15000,
+};
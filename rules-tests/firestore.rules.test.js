@@ -0,0 +1,295 @@
+const { assertFails, assertSucceeds } = require('@firebase/rules-unit-testing');
+const {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} = require('firebase/firestore');
+const { createTestEnvironment, signedInAs } = require('./testEnvironment');
+
+let testEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+/**
+ * Write documents as an admin, bypassing the rules
+ */
+const seed = async documents => {
+  await testEnv.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    for (const [docPath, data] of Object.entries(documents)) {
+      await setDoc(doc(db, docPath), data);
+    }
+  });
+};
+
+describe('users', () => {
+  beforeEach(async () => {
+    await seed({ 'users/alice': { username: 'alice', email: 'alice@example.com' } });
+  });
+
+  it('lets the owner read and change their profile', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertSucceeds(getDoc(doc(db, 'users/alice')));
+    await assertSucceeds(updateDoc(doc(db, 'users/alice'), { firstName: 'Alice' }));
+  });
+
+  it('keeps profiles private from other users', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(getDoc(doc(db, 'users/alice')));
+    await assertFails(updateDoc(doc(db, 'users/alice'), { firstName: 'Bob' }));
+    await assertFails(getDocs(collection(db, 'users')));
+  });
+
+  it('lets owners set up their profile before verifying their email', async () => {
+    const db = signedInAs(testEnv, 'bob', { emailVerified: false }).firestore();
+    await assertSucceeds(setDoc(doc(db, 'users/bob'), { username: 'bob', email: 'bob@example.com' }));
+    await assertSucceeds(getDoc(doc(db, 'users/bob')));
+  });
+
+  it('keeps profiles private from signed-out visitors', async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(db, 'users/alice')));
+    await assertFails(getDocs(query(collection(db, 'users'), where('username', '==', 'alice'))));
+  });
+});
+
+describe('usernames', () => {
+  beforeEach(async () => {
+    await seed({ 'usernames/alice': { uid: 'alice', email: 'alice@example.com' } });
+  });
+
+  it('lets anyone look up a single username', async () => {
+    await assertSucceeds(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'usernames/alice')));
+    await assertSucceeds(getDoc(doc(signedInAs(testEnv, 'bob').firestore(), 'usernames/alice')));
+  });
+
+  it('cannot be listed or searched', async () => {
+    for (const db of [testEnv.unauthenticatedContext().firestore(), signedInAs(testEnv, 'alice').firestore()]) {
+      await assertFails(getDocs(collection(db, 'usernames')));
+      await assertFails(getDocs(query(collection(db, 'usernames'), where('email', '==', 'alice@example.com'))));
+    }
+  });
+
+  it('lets users claim a free username with their own uid and email', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertSucceeds(setDoc(doc(db, 'usernames/bob'), { uid: 'bob', email: 'bob@example.com' }));
+  });
+
+  it('lets users claim a username before verifying their email', async () => {
+    const db = signedInAs(testEnv, 'bob', { emailVerified: false }).firestore();
+    await assertSucceeds(setDoc(doc(db, 'usernames/bob'), { uid: 'bob', email: 'bob@example.com' }));
+  });
+
+  it('does not let users claim a username for someone else', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(setDoc(doc(db, 'usernames/bobby'), { uid: 'carol', email: 'bob@example.com' }));
+    await assertFails(setDoc(doc(db, 'usernames/bobby'), { uid: 'bob', email: 'carol@example.com' }));
+    await assertFails(setDoc(doc(db, 'usernames/alice'), { uid: 'bob', email: 'bob@example.com' }));
+  });
+
+  it('only lets the owner release a username', async () => {
+    await assertFails(deleteDoc(doc(signedInAs(testEnv, 'bob').firestore(), 'usernames/alice')));
+    await assertSucceeds(deleteDoc(doc(signedInAs(testEnv, 'alice').firestore(), 'usernames/alice')));
+  });
+});
+
+describe('cars', () => {
+  beforeEach(async () => {
+    await seed({ 'cars/alices-car': { ownerId: 'alice', make: 'VW', model: 'Golf' } });
+  });
+
+  it('lets the owner read, change and delete their car', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertSucceeds(getDoc(doc(db, 'cars/alices-car')));
+    await assertSucceeds(getDocs(query(collection(db, 'cars'), where('ownerId', '==', 'alice'))));
+    await assertSucceeds(updateDoc(doc(db, 'cars/alices-car'), { mileage: 1000 }));
+    await assertSucceeds(deleteDoc(doc(db, 'cars/alices-car')));
+  });
+
+  it('only lets users add cars they own', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertSucceeds(setDoc(doc(db, 'cars/bobs-car'), { ownerId: 'bob', make: 'BMW', model: 'i3' }));
+    await assertFails(setDoc(doc(db, 'cars/fake-car'), { ownerId: 'alice', make: 'BMW', model: 'i3' }));
+  });
+
+  it('keeps cars private from other users', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(getDoc(doc(db, 'cars/alices-car')));
+    await assertFails(getDocs(query(collection(db, 'cars'), where('ownerId', '==', 'alice'))));
+    await assertFails(updateDoc(doc(db, 'cars/alices-car'), { mileage: 1000 }));
+    await assertFails(deleteDoc(doc(db, 'cars/alices-car')));
+  });
+});
+
+describe('maintenance', () => {
+  beforeEach(async () => {
+    await seed({
+      'cars/alices-car': { ownerId: 'alice' },
+      'maintenance/oil-change': { carId: 'alices-car', description: 'Oil change' },
+    });
+  });
+
+  it('lets the owner of the car manage its records', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertSucceeds(getDoc(doc(db, 'maintenance/oil-change')));
+    await assertSucceeds(getDocs(query(collection(db, 'maintenance'), where('carId', '==', 'alices-car'))));
+    await assertSucceeds(setDoc(doc(db, 'maintenance/tyres'), { carId: 'alices-car', description: 'Tyres' }));
+    await assertSucceeds(updateDoc(doc(db, 'maintenance/oil-change'), { cost: 80 }));
+    await assertSucceeds(deleteDoc(doc(db, 'maintenance/oil-change')));
+  });
+
+  it('keeps records private from other users', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(getDoc(doc(db, 'maintenance/oil-change')));
+    await assertFails(getDocs(query(collection(db, 'maintenance'), where('carId', '==', 'alices-car'))));
+    await assertFails(setDoc(doc(db, 'maintenance/tyres'), { carId: 'alices-car', description: 'Tyres' }));
+    await assertFails(updateDoc(doc(db, 'maintenance/oil-change'), { cost: 0 }));
+    await assertFails(deleteDoc(doc(db, 'maintenance/oil-change')));
+  });
+
+  it('does not accept records for a car that does not exist', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertFails(setDoc(doc(db, 'maintenance/tyres'), { carId: 'deleted-car', description: 'Tyres' }));
+  });
+});
+
+// Odometer readings and fuel entries are owned through their car like maintenance records
+describe.each([
+  ['odometerReadings', { mileage: 42000 }],
+  ['fuelEntries', { liters: 40, mileage: 42000 }],
+])('%s', (collectionName, fields) => {
+  beforeEach(async () => {
+    await seed({
+      'cars/alices-car': { ownerId: 'alice' },
+      [`${collectionName}/first`]: { carId: 'alices-car', ...fields },
+    });
+  });
+
+  it('lets the owner of the car manage them', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertSucceeds(getDoc(doc(db, `${collectionName}/first`)));
+    await assertSucceeds(getDocs(query(collection(db, collectionName), where('carId', '==', 'alices-car'))));
+    await assertSucceeds(setDoc(doc(db, `${collectionName}/second`), { carId: 'alices-car', ...fields }));
+    await assertSucceeds(updateDoc(doc(db, `${collectionName}/first`), { mileage: 42500 }));
+    await assertSucceeds(deleteDoc(doc(db, `${collectionName}/first`)));
+  });
+
+  it('keeps them private from other users', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(getDoc(doc(db, `${collectionName}/first`)));
+    await assertFails(getDocs(query(collection(db, collectionName), where('carId', '==', 'alices-car'))));
+    await assertFails(setDoc(doc(db, `${collectionName}/second`), { carId: 'alices-car', ...fields }));
+    await assertFails(updateDoc(doc(db, `${collectionName}/first`), { mileage: 0 }));
+    await assertFails(deleteDoc(doc(db, `${collectionName}/first`)));
+  });
+
+  it('does not accept them for a car that does not exist', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertFails(setDoc(doc(db, `${collectionName}/second`), { carId: 'deleted-car', ...fields }));
+  });
+});
+
+describe('reminders', () => {
+  beforeEach(async () => {
+    await seed({
+      'cars/alices-car': { ownerId: 'alice' },
+      'reminders/inspection': { userId: 'alice', carId: 'alices-car', title: 'Inspection' },
+    });
+  });
+
+  it('lets users manage their own reminders', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertSucceeds(getDoc(doc(db, 'reminders/inspection')));
+    await assertSucceeds(getDocs(query(collection(db, 'reminders'), where('userId', '==', 'alice'))));
+    await assertSucceeds(setDoc(doc(db, 'reminders/tyres'), { userId: 'alice', title: 'Tyres' }));
+    await assertSucceeds(updateDoc(doc(db, 'reminders/inspection'), { status: 'completed' }));
+    await assertSucceeds(deleteDoc(doc(db, 'reminders/inspection')));
+  });
+
+  it('keeps reminders private from other users', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(getDoc(doc(db, 'reminders/inspection')));
+    await assertFails(getDocs(query(collection(db, 'reminders'), where('userId', '==', 'alice'))));
+    await assertFails(setDoc(doc(db, 'reminders/tyres'), { userId: 'alice', title: 'Tyres' }));
+    await assertFails(updateDoc(doc(db, 'reminders/inspection'), { status: 'dismissed' }));
+    await assertFails(deleteDoc(doc(db, 'reminders/inspection')));
+  });
+});
+
+describe('notifications', () => {
+  beforeEach(async () => {
+    await seed({ 'notifications/due': { userId: 'alice', title: 'Inspection due', read: false } });
+  });
+
+  it('lets users manage their own notifications', async () => {
+    const db = signedInAs(testEnv, 'alice').firestore();
+    await assertSucceeds(getDocs(query(collection(db, 'notifications'), where('userId', '==', 'alice'))));
+    await assertSucceeds(setDoc(doc(db, 'notifications/new'), { userId: 'alice', title: 'Oil change due' }));
+    await assertSucceeds(updateDoc(doc(db, 'notifications/due'), { read: true }));
+    await assertSucceeds(deleteDoc(doc(db, 'notifications/due')));
+  });
+
+  it('keeps notifications private from other users', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(getDoc(doc(db, 'notifications/due')));
+    await assertFails(getDocs(query(collection(db, 'notifications'), where('userId', '==', 'alice'))));
+    await assertFails(updateDoc(doc(db, 'notifications/due'), { read: true }));
+    await assertFails(deleteDoc(doc(db, 'notifications/due')));
+  });
+
+  it('does not let users send notifications to someone else', async () => {
+    const db = signedInAs(testEnv, 'bob').firestore();
+    await assertFails(setDoc(doc(db, 'notifications/spam'), { userId: 'alice', title: 'Click here' }));
+  });
+});
+
+describe('accounts with an unverified email', () => {
+  beforeEach(async () => {
+    await seed({
+      'cars/alices-car': { ownerId: 'alice' },
+      'maintenance/oil-change': { carId: 'alices-car', description: 'Oil change' },
+      'odometerReadings/reading': { carId: 'alices-car', reading: 1000, source: 'manual' },
+      'fuelEntries/fill-up': { carId: 'alices-car', odometer: 1000, quantity: 40 },
+      'reminders/inspection': { userId: 'alice', carId: 'alices-car', title: 'Inspection' },
+      'notifications/due': { userId: 'alice', title: 'Inspection due' },
+    });
+  });
+
+  it('cannot read their data', async () => {
+    const db = signedInAs(testEnv, 'alice', { emailVerified: false }).firestore();
+    for (const docPath of [
+      'cars/alices-car',
+      'maintenance/oil-change',
+      'odometerReadings/reading',
+      'fuelEntries/fill-up',
+      'reminders/inspection',
+      'notifications/due',
+    ]) {
+      await assertFails(getDoc(doc(db, docPath)));
+    }
+  });
+
+  it('cannot add data', async () => {
+    const db = signedInAs(testEnv, 'alice', { emailVerified: false }).firestore();
+    await assertFails(setDoc(doc(db, 'cars/new-car'), { ownerId: 'alice' }));
+    await assertFails(setDoc(doc(db, 'maintenance/tyres'), { carId: 'alices-car', description: 'Tyres' }));
+    await assertFails(setDoc(doc(db, 'reminders/tyres'), { userId: 'alice', title: 'Tyres' }));
+    await assertFails(setDoc(doc(db, 'notifications/new'), { userId: 'alice', title: 'Oil change due' }));
+  });
+});
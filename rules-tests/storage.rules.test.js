@@ -0,0 +1,118 @@
+const { assertFails, assertSucceeds } = require('@firebase/rules-unit-testing');
+const { deleteDoc, doc, setDoc } = require('firebase/firestore');
+const { deleteObject, getBytes, listAll, ref, uploadBytes } = require('firebase/storage');
+const { createTestEnvironment, signedInAs } = require('./testEnvironment');
+
+const IMAGE = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+const imageMetadata = ownerId => ({ contentType: 'image/jpeg', customMetadata: { ownerId } });
+
+let testEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await setDoc(doc(context.firestore(), 'cars/alices-car'), { ownerId: 'alice' });
+  });
+});
+
+/**
+ * Write a file as an admin, bypassing the rules
+ */
+const seedFile = async (filePath, metadata) => {
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await uploadBytes(ref(context.storage(), filePath), IMAGE, metadata);
+  });
+};
+
+const deleteCarDocument = async () => {
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await deleteDoc(doc(context.firestore(), 'cars/alices-car'));
+  });
+};
+
+describe.each(['cars', 'maintenance'])('%s photos', folder => {
+  const photoPath = `${folder}/alices-car/photo.jpg`;
+
+  beforeEach(async () => {
+    await seedFile(photoPath, imageMetadata('alice'));
+  });
+
+  it('lets the owner of the car upload, read and delete photos', async () => {
+    const storage = signedInAs(testEnv, 'alice').storage();
+    await assertSucceeds(uploadBytes(ref(storage, `${folder}/alices-car/new.jpg`), IMAGE, imageMetadata('alice')));
+    await assertSucceeds(getBytes(ref(storage, photoPath)));
+    await assertSucceeds(deleteObject(ref(storage, photoPath)));
+  });
+
+  it('lets the owner of the car list its photos', async () => {
+    const storage = signedInAs(testEnv, 'alice').storage();
+    const folderContents = await assertSucceeds(listAll(ref(storage, `${folder}/alices-car`)));
+    expect(folderContents.items.map(item => item.fullPath)).toEqual([photoPath]);
+  });
+
+  it('only accepts images that name the uploader as owner', async () => {
+    const storage = signedInAs(testEnv, 'alice').storage();
+    const newPhoto = ref(storage, `${folder}/alices-car/new.jpg`);
+    await assertFails(uploadBytes(newPhoto, IMAGE, { contentType: 'image/jpeg' }));
+    await assertFails(uploadBytes(newPhoto, IMAGE, imageMetadata('bob')));
+    await assertFails(uploadBytes(newPhoto, IMAGE, { contentType: 'text/plain', customMetadata: { ownerId: 'alice' } }));
+  });
+
+  it('keeps photos private from other users', async () => {
+    const storage = signedInAs(testEnv, 'bob').storage();
+    await assertFails(getBytes(ref(storage, photoPath)));
+    await assertFails(listAll(ref(storage, `${folder}/alices-car`)));
+    await assertFails(deleteObject(ref(storage, photoPath)));
+    await assertFails(uploadBytes(ref(storage, `${folder}/alices-car/new.jpg`), IMAGE, imageMetadata('bob')));
+  });
+
+  it('is closed to the owner until their email is verified', async () => {
+    const storage = signedInAs(testEnv, 'alice', { emailVerified: false }).storage();
+    await assertFails(getBytes(ref(storage, photoPath)));
+    await assertFails(uploadBytes(ref(storage, `${folder}/alices-car/new.jpg`), IMAGE, imageMetadata('alice')));
+  });
+
+  it('keeps photos private from signed-out visitors', async () => {
+    const storage = testEnv.unauthenticatedContext().storage();
+    await assertFails(getBytes(ref(storage, photoPath)));
+    await assertFails(deleteObject(ref(storage, photoPath)));
+  });
+
+  describe('once the car is deleted', () => {
+    beforeEach(async () => {
+      await deleteCarDocument();
+    });
+
+    it('lets the uploader still read and delete the photos', async () => {
+      const storage = signedInAs(testEnv, 'alice').storage();
+      await assertSucceeds(getBytes(ref(storage, photoPath)));
+      await assertSucceeds(deleteObject(ref(storage, photoPath)));
+    });
+
+    it('keeps the photos private from other users', async () => {
+      const storage = signedInAs(testEnv, 'bob').storage();
+      await assertFails(getBytes(ref(storage, photoPath)));
+      await assertFails(deleteObject(ref(storage, photoPath)));
+    });
+
+    it('does not accept new photos for the car', async () => {
+      const storage = signedInAs(testEnv, 'alice').storage();
+      await assertFails(uploadBytes(ref(storage, `${folder}/alices-car/new.jpg`), IMAGE, imageMetadata('alice')));
+    });
+  });
+});
+
+it('denies access outside the photo folders', async () => {
+  const storage = signedInAs(testEnv, 'alice').storage();
+  await assertFails(uploadBytes(ref(storage, 'alice/notes.jpg'), IMAGE, imageMetadata('alice')));
+});
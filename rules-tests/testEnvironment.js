@@ -0,0 +1,25 @@
+const fs = require('fs');
+const path = require('path');
+const { initializeTestEnvironment } = require('@firebase/rules-unit-testing');
+
+const readRules = file => fs.readFileSync(path.join(__dirname, '..', file), 'utf8');
+
+/**
+ * A test environment with the Firestore and Storage rules of the app. The
+ * emulator hosts are picked up from `firebase emulators:exec`.
+ */
+const createTestEnvironment = () =>
+  initializeTestEnvironment({
+    projectId: 'demo-car-workshop',
+    firestore: { rules: readRules('firestore.rules') },
+    storage: { rules: readRules('storage.rules') },
+  });
+
+/**
+ * Sign in as a user of the app, with a verified email unless
+ * `emailVerified: false` is passed
+ */
+const signedInAs = (testEnv, uid, { emailVerified = true } = {}) =>
+  testEnv.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: emailVerified });
+
+module.exports = { createTestEnvironment, signedInAs };
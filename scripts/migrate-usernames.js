@@ -0,0 +1,91 @@
+/**
+ * Reserve the usernames of existing accounts and flag duplicates.
+ *
+ * Usernames used to be written to users/{uid} without a uniqueness check, so
+ * several accounts can share one. This script creates the usernames/{name}
+ * documents the app now claims at registration and reads the email from for
+ * username login, since profiles are private. When a username is shared, the
+ * oldest account keeps it and the others get `usernameConflict: true`, which
+ * makes the app ask them to choose a new one. Usernames that are not valid
+ * document ids are flagged as well.
+ *
+ * Usage:
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run migrate-usernames            # report only
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run migrate-usernames -- --apply
+ */
+const { initializeApp, applicationDefault } = require('firebase-admin/app');
+const { getFirestore, FieldValue } = require('firebase-admin/firestore');
+
+// Keep in sync with src/utils/username.ts
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,28}[a-z0-9]$/;
+
+const shouldApply = process.argv.includes('--apply');
+
+const app = initializeApp({ credential: applicationDefault() });
+const db = getFirestore(app);
+
+const createdAtMillis = doc => doc.get('createdAt')?.toMillis?.() ?? Number.MAX_SAFE_INTEGER;
+
+const main = async () => {
+  const [usersSnapshot, claimsSnapshot] = await Promise.all([
+    db.collection('users').select('username', 'email', 'createdAt').get(),
+    db.collection('usernames').get(),
+  ]);
+  const claims = new Map(claimsSnapshot.docs.map(doc => [doc.id, doc]));
+
+  const usersByUsername = new Map();
+  const invalid = [];
+  for (const doc of usersSnapshot.docs) {
+    const username = (doc.get('username') || '').trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(username)) {
+      invalid.push(doc);
+      continue;
+    }
+    if (!usersByUsername.has(username)) usersByUsername.set(username, []);
+    usersByUsername.get(username).push(doc);
+  }
+
+  const toClaim = [];
+  const toFlag = [...invalid];
+  for (const [username, docs] of usersByUsername) {
+    // An existing claim wins, otherwise the oldest account keeps the username
+    const claim = claims.get(username);
+    const owner = docs.find(doc => doc.id === claim?.get('uid'))
+      || [...docs].sort((a, b) => createdAtMillis(a) - createdAtMillis(b))[0];
+    const email = (owner.get('email') || '').toLowerCase();
+
+    // Claims made before the email was stored on them are completed as well
+    if (!claim || claim.get('email') !== email) toClaim.push({ username, uid: owner.id, email });
+    toFlag.push(...docs.filter(doc => doc.id !== owner.id));
+
+    if (docs.length > 1) {
+      console.log(`@${username}: kept by ${owner.id}, flagged ${docs.length - 1} other account(s)`);
+    }
+  }
+
+  console.log(`${usersSnapshot.size} users, ${toClaim.length} usernames to reserve`);
+  console.log(`${toFlag.length} accounts to flag (${invalid.length} with an invalid username)`);
+
+  if (!shouldApply) {
+    console.log('\nNothing was changed. Run again with --apply to migrate.');
+    return;
+  }
+
+  const writer = db.bulkWriter();
+  toClaim.forEach(({ username, uid, email }) =>
+    writer.set(
+      db.collection('usernames').doc(username),
+      { uid, email, createdAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    )
+  );
+  toFlag.forEach(doc => writer.update(doc.ref, { usernameConflict: true }));
+  await writer.close();
+
+  console.log(`\nReserved ${toClaim.length} usernames and flagged ${toFlag.length} accounts`);
+};
+
+main().catch(error => {
+  console.error('Failed to migrate usernames:', error.message || error);
+  process.exit(1);
+});
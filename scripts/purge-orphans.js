@@ -0,0 +1,87 @@
+/**
+ * Find and delete data that belongs to cars which no longer exist.
+ *
+ * Cars used to be deleted without their maintenance records, odometer readings,
+ * fuel entries, reminders and photos. The security rules check ownership of
+ * those through the car document, so once it is gone the app can neither read
+ * nor delete them. This script runs with admin credentials instead.
+ *
+ * Usage:
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run purge-orphans            # report only
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run purge-orphans -- --delete
+ *
+ * The storage bucket is read from EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET.
+ */
+const { initializeApp, applicationDefault } = require('firebase-admin/app');
+const { getFirestore } = require('firebase-admin/firestore');
+const { getStorage } = require('firebase-admin/storage');
+
+const CAR_COLLECTIONS = ['maintenance', 'odometerReadings', 'fuelEntries', 'reminders'];
+const STORAGE_FOLDERS = ['cars', 'maintenance'];
+
+const shouldDelete = process.argv.includes('--delete');
+
+const app = initializeApp({
+  credential: applicationDefault(),
+  storageBucket: process.env.EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET,
+});
+const db = getFirestore(app);
+const bucket = getStorage(app).bucket();
+
+const findOrphanedDocuments = async (collectionName, carIds) => {
+  const snapshot = await db.collection(collectionName).select('carId').get();
+  // Reminders without a car are general reminders, not orphans
+  return snapshot.docs.filter(doc => {
+    const carId = doc.get('carId');
+    return carId && !carIds.has(carId);
+  });
+};
+
+const findOrphanedFiles = async (folder, carIds) => {
+  const [files] = await bucket.getFiles({ prefix: `${folder}/` });
+  return files.filter(file => !carIds.has(file.name.split('/')[1]));
+};
+
+const main = async () => {
+  const carsSnapshot = await db.collection('cars').select().get();
+  const carIds = new Set(carsSnapshot.docs.map(doc => doc.id));
+  console.log(`${carIds.size} cars found`);
+
+  const orphanedDocuments = [];
+  for (const collectionName of CAR_COLLECTIONS) {
+    const docs = await findOrphanedDocuments(collectionName, carIds);
+    console.log(`${collectionName}: ${docs.length} orphaned documents`);
+    orphanedDocuments.push(...docs);
+  }
+
+  const orphanedFiles = [];
+  if (bucket.name) {
+    for (const folder of STORAGE_FOLDERS) {
+      const files = await findOrphanedFiles(folder, carIds);
+      console.log(`storage ${folder}/: ${files.length} orphaned files`);
+      orphanedFiles.push(...files);
+    }
+  } else {
+    console.log('EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET is not set, skipping storage');
+  }
+
+  if (!shouldDelete) {
+    console.log('\nNothing was deleted. Run again with --delete to purge the orphans.');
+    return;
+  }
+
+  const writer = db.bulkWriter();
+  orphanedDocuments.forEach(doc => writer.delete(doc.ref));
+  await writer.close();
+
+  for (const file of orphanedFiles) {
+    await file.delete({ ignoreNotFound: true });
+  }
+
+  console.log(`\nDeleted ${orphanedDocuments.length} documents and ${orphanedFiles.length} files`);
+};
+
+main().catch(error => {
+  console.error('Failed to purge orphans:', error.message || error);
+  process.exit(1);
+});
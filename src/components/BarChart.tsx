@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, useTheme } from 'react-native-paper';
+
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+  compareValue?: number; // Drawn as a second, muted bar next to the value
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  height?: number;
+  formatValue?: (value: number) => string;
+  color?: string;
+  compareColor?: string;
+  legend?: [string, string];
+}
+
+const BAR_WIDTH = 14;
+
+export const BarChart: React.FC<BarChartProps> = ({
+  items,
+  height = 160,
+  formatValue = (value) => String(value),
+  color,
+  compareColor,
+  legend,
+}) => {
+  const theme = useTheme();
+  const barColor = color || theme.colors.primary;
+  const mutedColor = compareColor || theme.colors.outline;
+  const hasComparison = items.some(item => item.compareValue !== undefined);
+  const maxValue = Math.max(0, ...items.flatMap(item => [item.value, item.compareValue || 0]));
+
+  const barHeight = (value: number) => (maxValue > 0 ? Math.max((value / maxValue) * height, value > 0 ? 2 : 0) : 0);
+
+  return (
+    <View>
+      <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+        {formatValue(maxValue)}
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.chart}>
+          {items.map((item) => (
+            <View key={item.key} style={styles.column}>
+              <View style={[styles.bars, { height }]}>
+                {hasComparison && (
+                  <View style={[styles.bar, { height: barHeight(item.compareValue || 0), backgroundColor: mutedColor }]} />
+                )}
+                <View style={[styles.bar, { height: barHeight(item.value), backgroundColor: barColor }]} />
+              </View>
+              <Text variant="labelSmall" style={[styles.label, { color: theme.colors.onSurfaceVariant }]}>
+                {item.label}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+      {legend && hasComparison && (
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: barColor }]} />
+            <Text variant="labelSmall">{legend[0]}</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: mutedColor }]} />
+            <Text variant="labelSmall">{legend[1]}</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingTop: 4,
+  },
+  column: {
+    alignItems: 'center',
+    marginHorizontal: 4,
+    minWidth: 36,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  bar: {
+    width: BAR_WIDTH,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  label: {
+    marginTop: 4,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+});
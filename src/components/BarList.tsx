@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+export interface BarListItem {
+  key: string;
+  label: string;
+  value: number;
+  icon?: string;
+  color?: string;
+}
+
+interface BarListProps {
+  items: BarListItem[];
+  formatValue?: (value: number) => string;
+}
+
+/**
+ * Horizontal bars scaled to the largest value, e.g. for spend breakdowns
+ */
+export const BarList: React.FC<BarListProps> = ({ items, formatValue = (value) => String(value) }) => {
+  const theme = useTheme();
+  const maxValue = Math.max(0, ...items.map(item => item.value));
+
+  return (
+    <View>
+      {items.map((item) => (
+        <View key={item.key} style={styles.row}>
+          <View style={styles.labelRow}>
+            {item.icon && (
+              <MaterialCommunityIcons
+                name={item.icon as keyof typeof MaterialCommunityIcons.glyphMap}
+                size={16}
+                color={theme.colors.onSurfaceVariant}
+                style={styles.icon}
+              />
+            )}
+            <Text variant="bodyMedium" style={[styles.label, { color: theme.colors.onSurface }]} numberOfLines={1}>
+              {item.label}
+            </Text>
+            <Text variant="bodyMedium" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+              {formatValue(item.value)}
+            </Text>
+          </View>
+          <View style={[styles.track, { backgroundColor: theme.colors.surfaceVariant }]}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  width: `${maxValue > 0 ? (item.value / maxValue) * 100 : 0}%`,
+                  backgroundColor: item.color || theme.colors.primary,
+                },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  icon: {
+    marginRight: 6,
+  },
+  label: {
+    flex: 1,
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+  },
+});
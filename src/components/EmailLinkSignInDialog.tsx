@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Button, Dialog, HelperText, Portal, Text, TextInput } from 'react-native-paper';
+import { useAuth } from '../context/AuthContext';
+import { AuthService } from '../services/auth';
+
+/**
+ * Finishes signing in when the app is opened from an emailed sign-in link.
+ * Firebase needs the address the link was sent to, which is prefilled when
+ * the link was requested on this device.
+ */
+export const EmailLinkSignInDialog: React.FC = () => {
+  const { pendingEmailLink, completeEmailLinkSignIn, dismissEmailLink } = useAuth();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setError('');
+    if (!pendingEmailLink) return;
+
+    AuthService.getPendingSignInEmail().then(storedEmail => setEmail(storedEmail || ''));
+  }, [pendingEmailLink]);
+
+  const handleConfirm = async () => {
+    if (!email.trim()) {
+      setError('Please enter your email');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      // Linking providers isn't needed here: a link for an existing account signs in to it
+      await completeEmailLinkSignIn(email);
+    } catch (error: any) {
+      setError(error.message || 'Failed to sign in');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={!!pendingEmailLink} onDismiss={loading ? undefined : dismissEmailLink}>
+        <Dialog.Icon icon="email-check" />
+        <Dialog.Title>Finish Signing In</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.message}>
+            Confirm the email address the sign-in link was sent to.
+          </Text>
+          <TextInput
+            label="Email"
+            value={email}
+            onChangeText={setEmail}
+            mode="outlined"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoComplete="email"
+            disabled={loading}
+            error={!!error}
+            onSubmitEditing={handleConfirm}
+            left={<TextInput.Icon icon="email" />}
+          />
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={dismissEmailLink} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onPress={handleConfirm} loading={loading} disabled={loading}>
+            Sign In
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  message: {
+    marginBottom: 12,
+  },
+});
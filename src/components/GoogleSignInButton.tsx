@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { Platform, StyleProp, StyleSheet, ViewStyle } from 'react-native';
+import { Button } from 'react-native-paper';
+import * as Google from 'expo-auth-session/providers/google';
+import * as WebBrowser from 'expo-web-browser';
+
+// Closes the browser popup when the Google redirect comes back to the app
+WebBrowser.maybeCompleteAuthSession();
+
+const GOOGLE_CLIENT_IDS = {
+  iosClientId: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+  androidClientId: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+  webClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
+};
+
+/**
+ * The Google auth request hook throws when the client id of the platform is
+ * missing, so only render GoogleSignInButton when this is true
+ */
+export const isGoogleSignInConfigured = !!Platform.select({
+  ios: GOOGLE_CLIENT_IDS.iosClientId,
+  android: GOOGLE_CLIENT_IDS.androidClientId,
+  default: GOOGLE_CLIENT_IDS.webClientId,
+});
+
+interface GoogleSignInButtonProps {
+  label: string;
+  disabled?: boolean;
+  style?: StyleProp<ViewStyle>;
+  onIdToken: (idToken: string) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Opens the Google account picker and hands back the ID token for Firebase
+ */
+export const GoogleSignInButton: React.FC<GoogleSignInButtonProps> = ({
+  label,
+  disabled = false,
+  style,
+  onIdToken,
+  onError,
+}) => {
+  const [request, response, promptAsync] = Google.useIdTokenAuthRequest(GOOGLE_CLIENT_IDS);
+
+  useEffect(() => {
+    if (response?.type === 'success' && response.params.id_token) {
+      onIdToken(response.params.id_token);
+    } else if (response?.type === 'error') {
+      onError(response.error?.message || 'Failed to sign in with Google');
+    }
+  }, [response]);
+
+  return (
+    <Button
+      mode="outlined"
+      icon="google"
+      onPress={() => promptAsync()}
+      disabled={disabled || !request}
+      style={style}
+      contentStyle={styles.content}
+    >
+      {label}
+    </Button>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Text, useTheme } from 'react-native-paper';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+
+export interface LineChartPoint {
+  x: number;
+  y: number;
+}
+
+interface LineChartProps {
+  points: LineChartPoint[];
+  height?: number;
+  color?: string;
+  formatX?: (value: number) => string;
+  formatY?: (value: number) => string;
+}
+
+const PADDING = 8;
+
+export const LineChart: React.FC<LineChartProps> = ({
+  points,
+  height = 160,
+  color,
+  formatX = (value) => String(value),
+  formatY = (value) => String(value),
+}) => {
+  const theme = useTheme();
+  const [width, setWidth] = useState(0);
+  const lineColor = color || theme.colors.primary;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (points.length === 0) return null;
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  // A single point (or a flat line) is drawn in the middle of the chart
+  const scaleX = (x: number) =>
+    maxX === minX ? width / 2 : PADDING + ((x - minX) / (maxX - minX)) * (width - PADDING * 2);
+  const scaleY = (y: number) =>
+    maxY === minY ? height / 2 : height - PADDING - ((y - minY) / (maxY - minY)) * (height - PADDING * 2);
+
+  const polylinePoints = points.map(point => `${scaleX(point.x)},${scaleY(point.y)}`).join(' ');
+
+  return (
+    <View>
+      <View style={styles.yLabels}>
+        <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {formatY(maxY)}
+        </Text>
+      </View>
+      <View onLayout={handleLayout} style={{ height }}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            <Line
+              x1={PADDING}
+              y1={height - PADDING}
+              x2={width - PADDING}
+              y2={height - PADDING}
+              stroke={theme.colors.outlineVariant}
+              strokeWidth={1}
+            />
+            <Polyline points={polylinePoints} fill="none" stroke={lineColor} strokeWidth={2} />
+            {points.map((point, index) => (
+              <Circle key={index} cx={scaleX(point.x)} cy={scaleY(point.y)} r={3} fill={lineColor} />
+            ))}
+          </Svg>
+        )}
+      </View>
+      <View style={styles.yLabels}>
+        <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {formatY(minY)}
+        </Text>
+      </View>
+      <View style={styles.xLabels}>
+        <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {formatX(minX)}
+        </Text>
+        <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {formatX(maxX)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  yLabels: {
+    alignItems: 'flex-start',
+  },
+  xLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,219 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, IconButton, Surface, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import {
+  LineItemDraft,
+  createLineItemDraft,
+  fromLineItemDrafts,
+  getLineItemTotal,
+  getLineItemTotals,
+} from '../utils/lineItems';
+
+interface LineItemsEditorProps {
+  drafts: LineItemDraft[];
+  onChange: (drafts: LineItemDraft[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Parts and labour lines of a maintenance record with their running totals
+ */
+export const LineItemsEditor: React.FC<LineItemsEditorProps> = ({ drafts, onChange, disabled = false }) => {
+  const theme = useTheme();
+  const totals = getLineItemTotals(fromLineItemDrafts(drafts));
+
+  const updateDraft = (id: string, updates: Partial<LineItemDraft>) => {
+    onChange(drafts.map(draft => (draft.id === id ? { ...draft, ...updates } : draft)));
+  };
+
+  const lineTotal = (draft: LineItemDraft) => {
+    const [item] = fromLineItemDrafts([draft]);
+    return item ? getLineItemTotal(item) : 0;
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>Parts & Labour (optional)</Text>
+
+      {drafts.map((draft) => (
+        <Surface key={draft.id} style={styles.item} elevation={0}>
+          <View style={styles.itemHeader}>
+            <MaterialCommunityIcons
+              name={draft.type === 'part' ? 'cog' : 'account-wrench'}
+              size={20}
+              color={theme.colors.primary}
+            />
+            <Text variant="labelLarge" style={styles.itemType}>
+              {draft.type === 'part' ? 'Part' : 'Labour'}
+            </Text>
+            <Text variant="labelLarge" style={{ color: theme.colors.primary }}>
+              €{lineTotal(draft).toFixed(2)}
+            </Text>
+            <IconButton
+              icon="close"
+              size={18}
+              onPress={() => onChange(drafts.filter(existing => existing.id !== draft.id))}
+              disabled={disabled}
+            />
+          </View>
+
+          <TextInput
+            mode="outlined"
+            dense
+            label="Description"
+            value={draft.description}
+            onChangeText={(description) => updateDraft(draft.id, { description })}
+            disabled={disabled}
+            style={styles.input}
+          />
+
+          {draft.type === 'part' ? (
+            <>
+              <View style={styles.row}>
+                <TextInput
+                  mode="outlined"
+                  dense
+                  label="Part Number"
+                  value={draft.partNumber}
+                  onChangeText={(partNumber) => updateDraft(draft.id, { partNumber })}
+                  autoCapitalize="characters"
+                  disabled={disabled}
+                  style={styles.rowInput}
+                />
+                <TextInput
+                  mode="outlined"
+                  dense
+                  label="Brand"
+                  value={draft.brand}
+                  onChangeText={(brand) => updateDraft(draft.id, { brand })}
+                  disabled={disabled}
+                  style={styles.rowInput}
+                />
+              </View>
+              <View style={styles.row}>
+                <TextInput
+                  mode="outlined"
+                  dense
+                  label="Quantity"
+                  value={draft.quantity}
+                  onChangeText={(quantity) => updateDraft(draft.id, { quantity })}
+                  keyboardType="decimal-pad"
+                  disabled={disabled}
+                  style={styles.rowInput}
+                />
+                <TextInput
+                  mode="outlined"
+                  dense
+                  label="Unit Price"
+                  value={draft.unitPrice}
+                  onChangeText={(unitPrice) => updateDraft(draft.id, { unitPrice })}
+                  keyboardType="decimal-pad"
+                  left={<TextInput.Affix text="€" />}
+                  disabled={disabled}
+                  style={styles.rowInput}
+                />
+              </View>
+            </>
+          ) : (
+            <View style={styles.row}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Hours"
+                value={draft.hours}
+                onChangeText={(hours) => updateDraft(draft.id, { hours })}
+                keyboardType="decimal-pad"
+                disabled={disabled}
+                style={styles.rowInput}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="Rate per Hour"
+                value={draft.rate}
+                onChangeText={(rate) => updateDraft(draft.id, { rate })}
+                keyboardType="decimal-pad"
+                left={<TextInput.Affix text="€" />}
+                disabled={disabled}
+                style={styles.rowInput}
+              />
+            </View>
+          )}
+        </Surface>
+      ))}
+
+      <View style={styles.row}>
+        <Button
+          mode="outlined"
+          icon="cog"
+          onPress={() => onChange([...drafts, createLineItemDraft('part')])}
+          disabled={disabled}
+          style={styles.rowInput}
+        >
+          Add Part
+        </Button>
+        <Button
+          mode="outlined"
+          icon="account-wrench"
+          onPress={() => onChange([...drafts, createLineItemDraft('labour')])}
+          disabled={disabled}
+          style={styles.rowInput}
+        >
+          Add Labour
+        </Button>
+      </View>
+
+      {drafts.length > 0 && (
+        <View style={styles.totals}>
+          <Text variant="bodyMedium">Parts: €{totals.parts.toFixed(2)}</Text>
+          <Text variant="bodyMedium">Labour: €{totals.labour.toFixed(2)}</Text>
+          <Text variant="titleSmall" style={{ color: theme.colors.primary, fontWeight: 'bold' }}>
+            Total: €{totals.total.toFixed(2)}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+    color: '#333',
+  },
+  item: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemType: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  totals: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+});
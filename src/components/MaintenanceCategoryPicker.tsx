@@ -0,0 +1,55 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Chip } from 'react-native-paper';
+import { MaintenanceCategory } from '../types';
+import { MAINTENANCE_CATEGORIES } from '../utils/maintenanceCategories';
+
+interface MaintenanceCategoryPickerProps {
+  value: MaintenanceCategory | '';
+  onValueChange: (value: MaintenanceCategory) => void;
+  disabled?: boolean;
+}
+
+export const MaintenanceCategoryPicker: React.FC<MaintenanceCategoryPickerProps> = ({
+  value,
+  onValueChange,
+  disabled = false,
+}) => {
+  return (
+    <View>
+      <Text style={styles.label}>Category</Text>
+      <View style={styles.optionGrid}>
+        {MAINTENANCE_CATEGORIES.map((option) => (
+          <Chip
+            key={option.value}
+            icon={option.icon}
+            mode={value === option.value ? 'flat' : 'outlined'}
+            selected={value === option.value}
+            onPress={() => onValueChange(option.value)}
+            disabled={disabled}
+            style={styles.optionChip}
+          >
+            {option.value}
+          </Chip>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+    color: '#333',
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Chip, Button, Searchbar, TextInput, Surface, useTheme } from 'react-native-paper';
+import { MaintenanceFilters, MaintenanceSortOption } from '../types';
+import { MAINTENANCE_CATEGORIES } from '../utils/maintenanceCategories';
+import { MAINTENANCE_SORT_OPTIONS, countActiveFilters } from '../utils/maintenanceFilters';
+import { DatePicker } from './DatePicker';
+
+interface MaintenanceFilterPanelProps {
+  filters: MaintenanceFilters;
+  sortBy: MaintenanceSortOption;
+  onFiltersChange: (filters: MaintenanceFilters) => void;
+  onSortChange: (sortBy: MaintenanceSortOption) => void;
+  resultCount?: number;
+}
+
+const parseCost = (text: string): number | undefined => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) ? undefined : value;
+};
+
+/**
+ * Search bar with a collapsible panel for filtering and sorting maintenance records
+ */
+export const MaintenanceFilterPanel: React.FC<MaintenanceFilterPanelProps> = ({
+  filters,
+  sortBy,
+  onFiltersChange,
+  onSortChange,
+  resultCount,
+}) => {
+  const theme = useTheme();
+  const [expanded, setExpanded] = useState(false);
+  const [minCostText, setMinCostText] = useState(filters.minCost?.toString() ?? '');
+  const [maxCostText, setMaxCostText] = useState(filters.maxCost?.toString() ?? '');
+
+  const activeCount = countActiveFilters(filters);
+
+  // Keep the cost inputs in step when the filters are reset from outside
+  useEffect(() => {
+    if (parseCost(minCostText) !== filters.minCost) setMinCostText(filters.minCost?.toString() ?? '');
+  }, [filters.minCost]);
+
+  useEffect(() => {
+    if (parseCost(maxCostText) !== filters.maxCost) setMaxCostText(filters.maxCost?.toString() ?? '');
+  }, [filters.maxCost]);
+
+  const updateFilters = (updates: Partial<MaintenanceFilters>) => {
+    onFiltersChange({ ...filters, ...updates });
+  };
+
+  const handleClear = () => {
+    onFiltersChange({ searchText: filters.searchText });
+    onSortChange('dateDesc');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Searchbar
+        placeholder="Search description, notes, workshop..."
+        value={filters.searchText || ''}
+        onChangeText={(searchText) => updateFilters({ searchText })}
+        style={styles.searchBar}
+      />
+
+      <View style={styles.toolbar}>
+        <Button
+          mode={activeCount > 0 ? 'contained-tonal' : 'text'}
+          icon={expanded ? 'chevron-up' : 'filter-variant'}
+          onPress={() => setExpanded(!expanded)}
+          compact
+        >
+          {activeCount > 0 ? `Filters (${activeCount})` : 'Filter & Sort'}
+        </Button>
+        {resultCount !== undefined && (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            {resultCount} {resultCount === 1 ? 'result' : 'results'}
+          </Text>
+        )}
+      </View>
+
+      {expanded && (
+        <Surface style={[styles.panel, { backgroundColor: theme.colors.surface }]} elevation={1}>
+          <Text variant="labelLarge" style={styles.sectionLabel}>
+            Category
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            <Chip
+              selected={!filters.category}
+              mode={!filters.category ? 'flat' : 'outlined'}
+              onPress={() => updateFilters({ category: undefined })}
+              style={styles.chip}
+            >
+              All
+            </Chip>
+            {MAINTENANCE_CATEGORIES.map((option) => (
+              <Chip
+                key={option.value}
+                icon={option.icon}
+                selected={filters.category === option.value}
+                mode={filters.category === option.value ? 'flat' : 'outlined'}
+                onPress={() =>
+                  updateFilters({ category: filters.category === option.value ? undefined : option.value })
+                }
+                style={styles.chip}
+              >
+                {option.value}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          <Text variant="labelLarge" style={styles.sectionLabel}>
+            Date Range
+          </Text>
+          <View style={styles.row}>
+            <View style={styles.rowInput}>
+              <DatePicker
+                label="From"
+                value={filters.startDate || ''}
+                onDateChange={(startDate) =>
+                  updateFilters({
+                    startDate,
+                    endDate: filters.endDate && filters.endDate < startDate ? startDate : filters.endDate,
+                  })
+                }
+              />
+            </View>
+            <View style={styles.rowInput}>
+              <DatePicker
+                label="To"
+                value={filters.endDate || ''}
+                onDateChange={(endDate) =>
+                  updateFilters({
+                    endDate,
+                    startDate: filters.startDate && filters.startDate > endDate ? endDate : filters.startDate,
+                  })
+                }
+              />
+            </View>
+          </View>
+
+          <Text variant="labelLarge" style={styles.sectionLabel}>
+            Cost (€)
+          </Text>
+          <View style={styles.row}>
+            <TextInput
+              label="Min"
+              value={minCostText}
+              onChangeText={(text) => {
+                setMinCostText(text);
+                updateFilters({ minCost: parseCost(text) });
+              }}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              style={styles.rowInput}
+            />
+            <TextInput
+              label="Max"
+              value={maxCostText}
+              onChangeText={(text) => {
+                setMaxCostText(text);
+                updateFilters({ maxCost: parseCost(text) });
+              }}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              style={styles.rowInput}
+            />
+          </View>
+
+          <Text variant="labelLarge" style={styles.sectionLabel}>
+            Sort By
+          </Text>
+          <View style={styles.chipGrid}>
+            {MAINTENANCE_SORT_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                icon={option.icon}
+                selected={sortBy === option.value}
+                mode={sortBy === option.value ? 'flat' : 'outlined'}
+                onPress={() => onSortChange(option.value)}
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </View>
+
+          <Button mode="outlined" icon="filter-remove" onPress={handleClear} style={styles.clearButton}>
+            Clear Filters
+          </Button>
+        </Surface>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  searchBar: {
+    elevation: 2,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  panel: {
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+  },
+  sectionLabel: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    marginBottom: 16,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  clearButton: {
+    alignSelf: 'flex-start',
+  },
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView, Image, TouchableOpacity } from 'react-native';
+import { Text, Button, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { ImageUploadService } from '../services/imageUpload';
+
+interface MaintenancePhotosFieldProps {
+  imageUris: string[]; // Download URLs of saved photos or local URIs of new ones
+  onChange: (imageUris: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Receipt and invoice photos of a maintenance record. New photos stay local
+ * until the record is saved.
+ */
+export const MaintenancePhotosField: React.FC<MaintenancePhotosFieldProps> = ({
+  imageUris,
+  onChange,
+  disabled = false,
+}) => {
+  const theme = useTheme();
+
+  const addPhoto = async (source: 'camera' | 'gallery') => {
+    const uri = source === 'camera'
+      ? await ImageUploadService.takePhoto(false)
+      : await ImageUploadService.pickImage(false);
+    if (uri) {
+      onChange([...imageUris, uri]);
+    }
+  };
+
+  const handleAdd = () => {
+    ImageUploadService.showImageSourceDialog(
+      () => addPhoto('camera'),
+      () => addPhoto('gallery'),
+      'Add Receipt Photo'
+    );
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>Receipts & Photos (optional)</Text>
+      {imageUris.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoRow}>
+          {imageUris.map((uri) => (
+            <View key={uri} style={styles.photoContainer}>
+              <Image source={{ uri }} style={styles.photo} />
+              <TouchableOpacity
+                style={[styles.removeButton, { backgroundColor: theme.colors.error }]}
+                onPress={() => onChange(imageUris.filter(existing => existing !== uri))}
+                disabled={disabled}
+              >
+                <MaterialCommunityIcons name="close" size={16} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+      <Button mode="outlined" icon="camera-plus" onPress={handleAdd} disabled={disabled}>
+        Add Photo
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+    color: '#333',
+  },
+  photoRow: {
+    marginBottom: 12,
+  },
+  photoContainer: {
+    marginRight: 12,
+  },
+  photo: {
+    width: 96,
+    height: 128,
+    borderRadius: 8,
+    backgroundColor: '#e0e0e0',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
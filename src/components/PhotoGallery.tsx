@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Image, TouchableOpacity, Modal, useWindowDimensions } from 'react-native';
+import { Text, IconButton } from 'react-native-paper';
+
+interface PhotoGalleryProps {
+  imageUrls: string[];
+}
+
+/**
+ * Thumbnail grid that opens a full-screen, swipeable viewer
+ */
+export const PhotoGallery: React.FC<PhotoGalleryProps> = ({ imageUrls }) => {
+  const { width, height } = useWindowDimensions();
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  const openViewer = (index: number) => {
+    setCurrentIndex(index);
+    setViewerIndex(index);
+  };
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        {imageUrls.map((imageUrl, index) => (
+          <TouchableOpacity key={imageUrl} onPress={() => openViewer(index)}>
+            <Image source={{ uri: imageUrl }} style={styles.thumbnail} />
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Modal
+        visible={viewerIndex !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewerIndex(null)}
+      >
+        <View style={styles.viewer}>
+          <ScrollView
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            contentOffset={{ x: (viewerIndex ?? 0) * width, y: 0 }}
+            onMomentumScrollEnd={(event) =>
+              setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+            }
+          >
+            {imageUrls.map((imageUrl) => (
+              <Image
+                key={imageUrl}
+                source={{ uri: imageUrl }}
+                style={{ width, height }}
+                resizeMode="contain"
+              />
+            ))}
+          </ScrollView>
+          <View style={styles.viewerHeader}>
+            <Text variant="titleMedium" style={styles.viewerCounter}>
+              {currentIndex + 1} / {imageUrls.length}
+            </Text>
+            <IconButton icon="close" iconColor="#fff" size={28} onPress={() => setViewerIndex(null)} />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  thumbnail: {
+    width: 96,
+    height: 128,
+    borderRadius: 8,
+    backgroundColor: '#e0e0e0',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+  },
+  viewerHeader: {
+    position: 'absolute',
+    top: 40,
+    left: 16,
+    right: 8,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  viewerCounter: {
+    color: '#fff',
+  },
+});
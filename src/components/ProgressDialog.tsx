@@ -0,0 +1,41 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Dialog, Portal, ProgressBar, Text, useTheme } from 'react-native-paper';
+
+interface ProgressDialogProps {
+  visible: boolean;
+  title: string;
+  label?: string;
+  progress: number; // 0 to 1
+}
+
+/**
+ * Blocking dialog for long-running operations such as cascading deletes
+ */
+export const ProgressDialog: React.FC<ProgressDialogProps> = ({ visible, title, label, progress }) => {
+  const theme = useTheme();
+
+  return (
+    <Portal>
+      <Dialog visible={visible} dismissable={false}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          <ProgressBar progress={progress} color={theme.colors.primary} style={styles.progressBar} />
+          {label && (
+            <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+              {label}
+            </Text>
+          )}
+        </Dialog.Content>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  progressBar: {
+    marginBottom: 12,
+    height: 6,
+    borderRadius: 3,
+  },
+});
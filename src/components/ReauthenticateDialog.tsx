@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Button, Dialog, HelperText, Portal, Text, TextInput } from 'react-native-paper';
+import { useAuth } from '../context/AuthContext';
+import { AuthService } from '../services/auth';
+import { GoogleSignInButton, isGoogleSignInConfigured } from './GoogleSignInButton';
+
+interface ReauthenticateDialogProps {
+  visible: boolean;
+  message?: string;
+  confirmLabel?: string;
+  onDismiss: () => void;
+  onReauthenticated: () => void;
+}
+
+/**
+ * Asks for the password again before sensitive changes, which Firebase only
+ * allows shortly after signing in. Accounts that use Google or Apple confirm
+ * with that provider instead, and accounts without a password with a link
+ * sent to their email.
+ */
+export const ReauthenticateDialog: React.FC<ReauthenticateDialogProps> = ({
+  visible,
+  message = 'For your security, please confirm it is you to continue.',
+  confirmLabel = 'Continue',
+  onDismiss,
+  onReauthenticated,
+}) => {
+  const {
+    user,
+    reauthenticate,
+    reauthenticateWithGoogle,
+    reauthenticateWithApple,
+    sendSignInLink,
+    pendingEmailLink,
+    reauthenticateWithEmailLink,
+  } = useAuth();
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  // Email link accounts are listed under the password provider too
+  const hasEmailProvider = providers.includes('password');
+  const hasPassword = hasEmailProvider && !user?.passwordless;
+  const canUseEmailLink = hasEmailProvider && !!user?.passwordless;
+  const canUseGoogle = providers.includes('google.com') && isGoogleSignInConfigured;
+  const canUseApple = providers.includes('apple.com') && appleAvailable;
+
+  useEffect(() => {
+    if (visible) {
+      setProviders(AuthService.getSignInProviders());
+      AuthService.isAppleSignInAvailable().then(setAppleAvailable).catch(() => setAppleAvailable(false));
+    } else {
+      setPassword('');
+      setShowPassword(false);
+      setError('');
+      setLinkSentTo(null);
+    }
+  }, [visible]);
+
+  // The link opens the app again, which hands it over as the pending email link
+  useEffect(() => {
+    if (visible && linkSentTo && pendingEmailLink) {
+      confirmWithProvider(async () => {
+        await reauthenticateWithEmailLink();
+        return true;
+      });
+    }
+  }, [visible, linkSentTo, pendingEmailLink]);
+
+  const handleConfirm = async () => {
+    if (!password) {
+      setError('Please enter your password');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      await reauthenticate(password);
+      onReauthenticated();
+    } catch (error: any) {
+      setError(error.message || 'Failed to confirm your password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmWithProvider = async (confirm: () => Promise<boolean>) => {
+    try {
+      setLoading(true);
+      setError('');
+      if (await confirm()) onReauthenticated();
+    } catch (error: any) {
+      setError(error.message || 'Failed to confirm your identity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendLink = async () => {
+    if (!user?.email) return;
+
+    try {
+      setLoading(true);
+      setError('');
+      await sendSignInLink(user.email);
+      setLinkSentTo(user.email);
+    } catch (error: any) {
+      setError(error.message || 'Failed to send the confirmation link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={loading ? undefined : onDismiss}>
+        <Dialog.Icon icon="lock" />
+        <Dialog.Title>{hasPassword ? 'Confirm Your Password' : "Confirm It's You"}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.message}>
+            {message}
+          </Text>
+          {user?.email && (
+            <Text variant="bodySmall" style={styles.message}>
+              {user.email}
+            </Text>
+          )}
+          {canUseGoogle && (
+            <GoogleSignInButton
+              label="Confirm with Google"
+              disabled={loading}
+              onIdToken={(idToken) =>
+                confirmWithProvider(async () => {
+                  await reauthenticateWithGoogle(idToken);
+                  return true;
+                })
+              }
+              onError={setError}
+              style={styles.providerButton}
+            />
+          )}
+          {canUseApple && (
+            <Button
+              mode="outlined"
+              icon="apple"
+              onPress={() => confirmWithProvider(reauthenticateWithApple)}
+              disabled={loading}
+              style={styles.providerButton}
+            >
+              Confirm with Apple
+            </Button>
+          )}
+          {canUseEmailLink && (
+            linkSentTo ? (
+              <Text variant="bodyMedium" style={styles.message}>
+                We sent a confirmation link to {linkSentTo}. Open it on this device to continue.
+              </Text>
+            ) : (
+              <Button
+                mode="outlined"
+                icon="email-fast-outline"
+                onPress={handleSendLink}
+                loading={loading}
+                disabled={loading}
+                style={styles.providerButton}
+              >
+                Email Me a Confirmation Link
+              </Button>
+            )
+          )}
+          {hasPassword && (
+            <TextInput
+              label="Password"
+              value={password}
+              onChangeText={setPassword}
+              mode="outlined"
+              secureTextEntry={!showPassword}
+              autoComplete="password"
+              autoFocus={!canUseGoogle && !canUseApple}
+              disabled={loading}
+              error={!!error}
+              onSubmitEditing={handleConfirm}
+              left={<TextInput.Icon icon="lock" />}
+              right={
+                <TextInput.Icon
+                  icon={showPassword ? 'eye-off' : 'eye'}
+                  onPress={() => setShowPassword(!showPassword)}
+                />
+              }
+            />
+          )}
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={loading}>
+            Cancel
+          </Button>
+          {hasPassword && (
+            <Button onPress={handleConfirm} loading={loading} disabled={loading}>
+              {confirmLabel}
+            </Button>
+          )}
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  message: {
+    marginBottom: 12,
+  },
+  providerButton: {
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Chip, HelperText, useTheme } from 'react-native-paper';
+import { RecurrenceUnit } from '../types';
+
+interface RecurrencePickerProps {
+  unit: RecurrenceUnit | '';
+  interval: string;
+  onUnitChange: (unit: RecurrenceUnit | '') => void;
+  onIntervalChange: (interval: string) => void;
+  error?: string;
+  disabled?: boolean;
+  allowMileage?: boolean;
+}
+
+const RECURRENCE_OPTIONS: { value: RecurrenceUnit | ''; label: string; icon: string }[] = [
+  { value: '', label: 'Never', icon: 'close' },
+  { value: 'days', label: 'Days', icon: 'calendar-today' },
+  { value: 'weeks', label: 'Weeks', icon: 'calendar-week' },
+  { value: 'months', label: 'Months', icon: 'calendar-month' },
+  { value: 'years', label: 'Years', icon: 'calendar-range' },
+  { value: 'km', label: 'Kilometers', icon: 'speedometer' },
+];
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  unit,
+  interval,
+  onUnitChange,
+  onIntervalChange,
+  error,
+  disabled = false,
+  allowMileage = true,
+}) => {
+  const theme = useTheme();
+
+  const options = RECURRENCE_OPTIONS.filter(option => allowMileage || option.value !== 'km');
+
+  return (
+    <View>
+      <Text style={styles.label}>Repeat</Text>
+      <View style={styles.optionGrid}>
+        {options.map((option) => (
+          <Chip
+            key={option.value || 'none'}
+            icon={option.icon}
+            mode={unit === option.value ? 'flat' : 'outlined'}
+            selected={unit === option.value}
+            onPress={() => onUnitChange(option.value)}
+            disabled={disabled}
+            style={styles.optionChip}
+          >
+            {option.label}
+          </Chip>
+        ))}
+      </View>
+
+      {unit !== '' && (
+        <>
+          <TextInput
+            mode="outlined"
+            value={interval}
+            onChangeText={onIntervalChange}
+            placeholder={unit === 'km' ? '15000' : '1'}
+            keyboardType="numeric"
+            error={!!error}
+            disabled={disabled}
+            left={<TextInput.Affix text="Every" />}
+            right={<TextInput.Affix text={unit} />}
+          />
+          {error ? (
+            <HelperText type="error">{error}</HelperText>
+          ) : (
+            <HelperText type="info" style={{ color: theme.colors.onSurfaceVariant }}>
+              {unit === 'km'
+                ? "Completing this reminder creates the next one based on the car's current mileage"
+                : 'Completing this reminder creates the next occurrence automatically'}
+            </HelperText>
+          )}
+        </>
+      )}
+      {!allowMileage && (
+        <HelperText type="info">Select a car to repeat by kilometers</HelperText>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: 8,
+    fontWeight: '500',
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  optionChip: {
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Dialog, Divider, HelperText, Portal, Text, TextInput, useTheme } from 'react-native-paper';
+import { AuthCredential } from 'firebase/auth';
+import { useAuth } from '../context/AuthContext';
+import { AuthService, FederatedSignInResult } from '../services/auth';
+import { GoogleSignInButton, isGoogleSignInConfigured } from './GoogleSignInButton';
+
+interface SocialSignInButtonsProps {
+  disabled?: boolean;
+  onError: (message: string) => void;
+}
+
+interface PendingLink {
+  email: string;
+  credential: AuthCredential;
+}
+
+/**
+ * Google, Apple and email link sign-in, shared by the login and register screens
+ */
+export const SocialSignInButtons: React.FC<SocialSignInButtonsProps> = ({ disabled = false, onError }) => {
+  const theme = useTheme();
+  const { signInWithGoogle, signInWithApple, sendSignInLink, linkAccount } = useAuth();
+
+  const [busy, setBusy] = useState(false);
+  const [appleAvailable, setAppleAvailable] = useState(false);
+
+  const [emailDialogVisible, setEmailDialogVisible] = useState(false);
+  const [linkEmail, setLinkEmail] = useState('');
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+  const [password, setPassword] = useState('');
+  const [dialogError, setDialogError] = useState('');
+
+  useEffect(() => {
+    AuthService.isAppleSignInAvailable().then(setAppleAvailable).catch(() => setAppleAvailable(false));
+  }, []);
+
+  const handleResult = (result: FederatedSignInResult) => {
+    if (result.status === 'linkRequired') {
+      setPendingLink({ email: result.email, credential: result.credential });
+    }
+    // Navigation handled by AuthContext once signed in
+  };
+
+  const runSignIn = async (signIn: () => Promise<FederatedSignInResult>) => {
+    setBusy(true);
+    try {
+      handleResult(await signIn());
+    } catch (error: any) {
+      onError(error.message || 'Failed to sign in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const closeEmailDialog = () => {
+    setEmailDialogVisible(false);
+    setLinkEmail('');
+    setLinkSentTo(null);
+    setDialogError('');
+  };
+
+  const handleSendLink = async () => {
+    const email = linkEmail.trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setDialogError('Please enter a valid email address');
+      return;
+    }
+
+    setBusy(true);
+    setDialogError('');
+    try {
+      await sendSignInLink(email);
+      setLinkSentTo(email);
+    } catch (error: any) {
+      setDialogError(error.message || 'Failed to send the sign-in link');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const closeLinkDialog = () => {
+    setPendingLink(null);
+    setPassword('');
+    setDialogError('');
+  };
+
+  const handleLinkAccount = async () => {
+    if (!pendingLink) return;
+    if (!password) {
+      setDialogError('Please enter your password');
+      return;
+    }
+
+    setBusy(true);
+    setDialogError('');
+    try {
+      await linkAccount(pendingLink.email, password, pendingLink.credential);
+      closeLinkDialog();
+    } catch (error: any) {
+      setDialogError(error.message || 'Failed to link your account');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isDisabled = disabled || busy;
+
+  return (
+    <View>
+      <View style={styles.dividerRow}>
+        <Divider style={styles.divider} />
+        <Text variant="bodySmall" style={[styles.dividerText, { color: theme.colors.onSurfaceVariant }]}>
+          or
+        </Text>
+        <Divider style={styles.divider} />
+      </View>
+
+      {isGoogleSignInConfigured && (
+        <GoogleSignInButton
+          label="Continue with Google"
+          disabled={isDisabled}
+          onIdToken={(idToken) => runSignIn(() => signInWithGoogle(idToken))}
+          onError={onError}
+          style={styles.button}
+        />
+      )}
+
+      {appleAvailable && (
+        <Button
+          mode="outlined"
+          icon="apple"
+          onPress={() => runSignIn(signInWithApple)}
+          disabled={isDisabled}
+          style={styles.button}
+          contentStyle={styles.buttonContent}
+        >
+          Continue with Apple
+        </Button>
+      )}
+
+      <Button
+        mode="text"
+        icon="email-fast-outline"
+        onPress={() => setEmailDialogVisible(true)}
+        disabled={isDisabled}
+        style={styles.button}
+      >
+        Email me a sign-in link
+      </Button>
+
+      <Portal>
+        <Dialog visible={emailDialogVisible} onDismiss={busy ? undefined : closeEmailDialog}>
+          <Dialog.Title>Sign In Without a Password</Dialog.Title>
+          <Dialog.Content>
+            {linkSentTo ? (
+              <Text variant="bodyMedium">
+                We sent a sign-in link to {linkSentTo}. Open it on this device to sign in.
+              </Text>
+            ) : (
+              <>
+                <Text variant="bodyMedium" style={styles.dialogText}>
+                  Enter your email and we'll send you a link that signs you in. A new account is created if
+                  you don't have one yet.
+                </Text>
+                <TextInput
+                  label="Email"
+                  value={linkEmail}
+                  onChangeText={setLinkEmail}
+                  mode="outlined"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoComplete="email"
+                  disabled={busy}
+                  error={!!dialogError}
+                  left={<TextInput.Icon icon="email" />}
+                />
+                <HelperText type="error" visible={!!dialogError}>
+                  {dialogError}
+                </HelperText>
+              </>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            {linkSentTo ? (
+              <Button onPress={closeEmailDialog}>Done</Button>
+            ) : (
+              <>
+                <Button onPress={closeEmailDialog} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button onPress={handleSendLink} loading={busy} disabled={busy}>
+                  Send Link
+                </Button>
+              </>
+            )}
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!pendingLink} onDismiss={busy ? undefined : closeLinkDialog}>
+          <Dialog.Icon icon="link-variant" />
+          <Dialog.Title>Link Your Account</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogText}>
+              {pendingLink?.email} already has an account. Enter its password to link this sign-in method,
+              then you can use either to sign in.
+            </Text>
+            <TextInput
+              label="Password"
+              value={password}
+              onChangeText={setPassword}
+              mode="outlined"
+              secureTextEntry
+              autoComplete="password"
+              disabled={busy}
+              error={!!dialogError}
+              onSubmitEditing={handleLinkAccount}
+              left={<TextInput.Icon icon="lock" />}
+            />
+            <HelperText type="error" visible={!!dialogError}>
+              {dialogError}
+            </HelperText>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeLinkDialog} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onPress={handleLinkAccount} loading={busy} disabled={busy}>
+              Link Account
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  dividerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  divider: {
+    flex: 1,
+  },
+  dividerText: {
+    marginHorizontal: 12,
+  },
+  button: {
+    marginBottom: 12,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  dialogText: {
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, useTheme, Button, ActivityIndicator } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { OfflineSyncService, SyncStatus } from '../services/offlineSync';
+import { DatabaseService } from '../services/database';
+
+interface SyncStatusIndicatorProps {
+  style?: object;
+}
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ style }) => {
+  const theme = useTheme();
+  const [status, setStatus] = useState<SyncStatus>(OfflineSyncService.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = OfflineSyncService.subscribe(setStatus);
+    OfflineSyncService.refreshStatus();
+    return unsubscribe;
+  }, []);
+
+  const { isOnline, isSyncing, pendingCount, conflicts } = status;
+
+  if (isOnline && !isSyncing && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  const handleShowConflicts = () => {
+    const rejected = conflicts.filter(conflict => conflict.error).length;
+    const outdated = conflicts.length - rejected;
+    const lines: string[] = [];
+    if (outdated > 0) {
+      lines.push(
+        `${outdated} offline car edit${outdated > 1 ? 's were' : ' was'} not applied because the car was changed on another device in the meantime. Please review the car details and make the change again if needed.`
+      );
+    }
+    if (rejected > 0) {
+      lines.push(
+        `${rejected} offline change${rejected > 1 ? 's were' : ' was'} rejected, most likely because the car was deleted on another device.`
+      );
+    }
+
+    Alert.alert('Sync Conflicts', lines.join('\n\n'), [
+      { text: 'OK', onPress: () => OfflineSyncService.clearConflicts() },
+    ]);
+  };
+
+  let icon: keyof typeof MaterialCommunityIcons.glyphMap = 'cloud-sync';
+  let message = '';
+  if (!isOnline) {
+    icon = 'cloud-off-outline';
+    message = pendingCount > 0
+      ? `Offline - ${pendingCount} change${pendingCount > 1 ? 's' : ''} waiting to sync`
+      : 'Offline - showing saved data';
+  } else if (isSyncing) {
+    message = 'Syncing changes...';
+  } else if (pendingCount > 0) {
+    icon = 'cloud-upload-outline';
+    message = `${pendingCount} change${pendingCount > 1 ? 's' : ''} waiting to sync`;
+  } else {
+    icon = 'cloud-alert';
+    message = `${conflicts.length} change${conflicts.length > 1 ? 's' : ''} could not be synced`;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.secondaryContainer }, style]}>
+      {isSyncing ? (
+        <ActivityIndicator size="small" color={theme.colors.onSecondaryContainer} />
+      ) : (
+        <MaterialCommunityIcons name={icon} size={20} color={theme.colors.onSecondaryContainer} />
+      )}
+      <Text variant="bodyMedium" style={[styles.message, { color: theme.colors.onSecondaryContainer }]}>
+        {message}
+      </Text>
+      {isOnline && !isSyncing && pendingCount > 0 && (
+        <Button compact onPress={() => DatabaseService.syncPendingWrites()}>
+          Retry
+        </Button>
+      )}
+      {conflicts.length > 0 && (
+        <Button compact onPress={handleShowConflicts}>
+          Details
+        </Button>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  message: {
+    flex: 1,
+    marginLeft: 8,
+  },
+});
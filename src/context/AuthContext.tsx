@@ -1,12 +1,21 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
+import { onAuthStateChanged, AuthCredential, User as FirebaseUser } from 'firebase/auth';
+import * as Linking from 'expo-linking';
 import { auth } from '../config/firebase';
-import { AuthService } from '../services/auth';
+import { AuthService, FederatedSignInResult } from '../services/auth';
+import {
+  AccountDeletionService,
+  AccountDeletionProgress,
+  AccountDeletionResult,
+} from '../services/accountDeletion';
 import { User } from '../types';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  emailVerified: boolean;
+  sendVerificationEmail: () => Promise<void>;
+  refreshEmailVerified: () => Promise<boolean>;
   signIn: (email: string, password: string) => Promise<User>;
   signUp: (
     email: string,
@@ -19,12 +28,26 @@ interface AuthContextType {
       dateOfBirth?: string;
     }
   ) => Promise<User>;
+  signInWithGoogle: (idToken: string) => Promise<FederatedSignInResult>;
+  signInWithApple: () => Promise<FederatedSignInResult>;
+  sendSignInLink: (email: string) => Promise<void>;
+  // A sign-in link the app was opened with, waiting for the email it was sent to
+  pendingEmailLink: string | null;
+  completeEmailLinkSignIn: (email: string) => Promise<FederatedSignInResult>;
+  dismissEmailLink: () => void;
+  linkAccount: (email: string, password: string, credential: AuthCredential) => Promise<User>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   updateProfile: (updates: Partial<User>) => Promise<void>;
   updateEmail: (newEmail: string) => Promise<void>;
+  changeUsername: (newUsername: string) => Promise<void>;
   updatePassword: (newPassword: string) => Promise<void>;
-  deleteAccount: () => Promise<void>;
+  reauthenticate: (password: string) => Promise<void>;
+  reauthenticateWithGoogle: (idToken: string) => Promise<void>;
+  reauthenticateWithApple: () => Promise<boolean>;
+  // Confirms the signed-in user with the pending email link
+  reauthenticateWithEmailLink: () => Promise<void>;
+  deleteAccount: (onProgress?: (progress: AccountDeletionProgress) => void) => Promise<AccountDeletionResult>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -44,9 +67,12 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [emailVerified, setEmailVerified] = useState(false);
+  const [pendingEmailLink, setPendingEmailLink] = useState<string | null>(null);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser: FirebaseUser | null) => {
+      setEmailVerified(!!firebaseUser?.emailVerified);
       if (firebaseUser) {
         try {
           const userData = await AuthService.getCurrentUser();
@@ -63,6 +89,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      if (url && AuthService.isSignInLink(url)) {
+        setPendingEmailLink(url);
+      }
+    };
+
+    Linking.getInitialURL().then(handleUrl).catch(() => undefined);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
   const signIn = async (email: string, password: string): Promise<User> => {
     const userData = await AuthService.signIn(email, password);
     setUser(userData);
@@ -85,6 +123,42 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return newUser;
   };
 
+  const applySignInResult = (result: FederatedSignInResult): FederatedSignInResult => {
+    if (result.status === 'signedIn') {
+      setUser(result.user);
+    }
+    return result;
+  };
+
+  const signInWithGoogle = async (idToken: string): Promise<FederatedSignInResult> => {
+    return applySignInResult(await AuthService.signInWithGoogle(idToken));
+  };
+
+  const signInWithApple = async (): Promise<FederatedSignInResult> => {
+    return applySignInResult(await AuthService.signInWithApple());
+  };
+
+  const sendSignInLink = async (email: string): Promise<void> => {
+    await AuthService.sendSignInLink(email);
+  };
+
+  const completeEmailLinkSignIn = async (email: string): Promise<FederatedSignInResult> => {
+    if (!pendingEmailLink) throw new Error('No sign-in link to complete');
+    const result = await AuthService.completeEmailLinkSignIn(email, pendingEmailLink);
+    setPendingEmailLink(null);
+    return applySignInResult(result);
+  };
+
+  const dismissEmailLink = () => {
+    setPendingEmailLink(null);
+  };
+
+  const linkAccount = async (email: string, password: string, credential: AuthCredential): Promise<User> => {
+    const linkedUser = await AuthService.linkAccount(email, password, credential);
+    setUser(linkedUser);
+    return linkedUser;
+  };
+
   const signOut = async (): Promise<void> => {
     await AuthService.signOut();
     setUser(null);
@@ -102,29 +176,87 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const updateEmail = async (newEmail: string): Promise<void> => {
     if (!user) throw new Error('No authenticated user');
+    // Nothing changes until the link sent to the new address is opened
     await AuthService.updateUserEmail(newEmail);
-    setUser({ ...user, email: newEmail });
+  };
+
+  const sendVerificationEmail = async (): Promise<void> => {
+    await AuthService.sendVerificationEmail();
+  };
+
+  const refreshEmailVerified = async (): Promise<boolean> => {
+    const verified = await AuthService.reloadEmailVerified();
+    setEmailVerified(verified);
+    return verified;
+  };
+
+  const changeUsername = async (newUsername: string): Promise<void> => {
+    if (!user) throw new Error('No authenticated user');
+    const username = await AuthService.changeUsername(user.id, newUsername);
+    setUser({ ...user, username, usernameConflict: undefined });
   };
 
   const updatePassword = async (newPassword: string): Promise<void> => {
     await AuthService.updateUserPassword(newPassword);
+    if (user?.passwordless) {
+      setUser({ ...user, passwordless: undefined });
+    }
   };
 
-  const deleteAccount = async (): Promise<void> => {
-    await AuthService.deleteAccount();
-    setUser(null);
+  const reauthenticate = async (password: string): Promise<void> => {
+    await AuthService.reauthenticate(password);
+  };
+
+  const reauthenticateWithGoogle = async (idToken: string): Promise<void> => {
+    await AuthService.reauthenticateWithGoogle(idToken);
+  };
+
+  const reauthenticateWithApple = async (): Promise<boolean> => {
+    return AuthService.reauthenticateWithApple();
+  };
+
+  const reauthenticateWithEmailLink = async (): Promise<void> => {
+    if (!pendingEmailLink) throw new Error('No sign-in link to complete');
+    await AuthService.reauthenticateWithEmailLink(pendingEmailLink);
+    setPendingEmailLink(null);
+  };
+
+  const deleteAccount = async (
+    onProgress?: (progress: AccountDeletionProgress) => void
+  ): Promise<AccountDeletionResult> => {
+    if (!user) throw new Error('No authenticated user');
+    const result = await AccountDeletionService.deleteAccount(user, onProgress);
+    if (result.accountDeleted) {
+      setUser(null);
+    }
+    return result;
   };
 
   const value: AuthContextType = {
     user,
     loading,
+    emailVerified,
+    sendVerificationEmail,
+    refreshEmailVerified,
     signIn,
     signUp,
+    signInWithGoogle,
+    signInWithApple,
+    sendSignInLink,
+    pendingEmailLink,
+    completeEmailLinkSignIn,
+    dismissEmailLink,
+    linkAccount,
     signOut,
     resetPassword,
     updateProfile,
     updateEmail,
+    changeUsername,
     updatePassword,
+    reauthenticate,
+    reauthenticateWithGoogle,
+    reauthenticateWithApple,
+    reauthenticateWithEmailLink,
     deleteAccount,
   };
 
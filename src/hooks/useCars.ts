@@ -0,0 +1,22 @@
+import { useAuth } from '../context/AuthContext';
+import { DatabaseService } from '../services/database';
+import { Car } from '../types';
+import { useSharedSubscription } from './useSharedSubscription';
+
+// Stable fallback so effects depending on the list don't rerun on every render
+const NO_CARS: Car[] = [];
+
+/**
+ * Cars of the signed-in user, kept up to date with changes from any device
+ */
+export const useCars = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const { data, loading, error } = useSharedSubscription<Car[]>(
+    userId ? `cars:${userId}` : null,
+    (onData, onError) => DatabaseService.subscribeToUserCars(userId!, onData, onError)
+  );
+
+  return { cars: data ?? NO_CARS, loading, error };
+};
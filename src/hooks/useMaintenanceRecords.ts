@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { DatabaseService } from '../services/database';
+import { MaintenanceRecord } from '../types';
+import { useSharedSubscription } from './useSharedSubscription';
+
+const NO_RECORDS: MaintenanceRecord[] = [];
+
+/**
+ * Maintenance records of a car, newest first, kept up to date with changes from any device
+ */
+export const useMaintenanceRecords = (carId: string | null | undefined) => {
+  const { data, loading, error } = useSharedSubscription<MaintenanceRecord[]>(
+    carId ? `maintenance:${carId}` : null,
+    (onData, onError) => DatabaseService.subscribeToCarMaintenanceRecords(carId!, onData, onError)
+  );
+
+  return { records: data ?? NO_RECORDS, loading, error };
+};
+
+/**
+ * Maintenance records of several cars, newest first, kept up to date with changes from any device
+ */
+export const useMaintenanceRecordsForCars = (carIds: string[]) => {
+  const key = useMemo(() => [...carIds].sort().join(','), [carIds]);
+
+  const { data, loading, error } = useSharedSubscription<MaintenanceRecord[]>(
+    key ? `maintenance:cars:${key}` : null,
+    (onData, onError) => DatabaseService.subscribeToMaintenanceRecordsForCars(key.split(','), onData, onError)
+  );
+
+  return { records: data ?? NO_RECORDS, loading, error };
+};
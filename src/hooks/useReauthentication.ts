@@ -0,0 +1,51 @@
+import { useRef, useState } from 'react';
+import { AuthService } from '../services/auth';
+
+interface PendingAction {
+  retry: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Run sensitive account changes so that an auth/requires-recent-login failure
+ * opens the re-authentication dialog and retries the change once confirmed.
+ * Spread `dialogProps` onto a ReauthenticateDialog rendered by the screen.
+ */
+export const useReauthentication = () => {
+  const [visible, setVisible] = useState(false);
+  const pendingAction = useRef<PendingAction | null>(null);
+
+  const withReauthentication = async <T>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error) {
+      if (!AuthService.isRecentLoginError(error)) throw error;
+
+      return new Promise<T>((resolve, reject) => {
+        pendingAction.current = {
+          retry: () => action().then(resolve, reject),
+          // Cancelling leaves the change undone, so the caller still gets the original error
+          cancel: () => reject(error),
+        };
+        setVisible(true);
+      });
+    }
+  };
+
+  const onReauthenticated = () => {
+    setVisible(false);
+    pendingAction.current?.retry();
+    pendingAction.current = null;
+  };
+
+  const onDismiss = () => {
+    setVisible(false);
+    pendingAction.current?.cancel();
+    pendingAction.current = null;
+  };
+
+  return {
+    withReauthentication,
+    dialogProps: { visible, onDismiss, onReauthenticated },
+  };
+};
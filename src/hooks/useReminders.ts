@@ -0,0 +1,21 @@
+import { useAuth } from '../context/AuthContext';
+import { DatabaseService } from '../services/database';
+import { Reminder } from '../types';
+import { useSharedSubscription } from './useSharedSubscription';
+
+const NO_REMINDERS: Reminder[] = [];
+
+/**
+ * Reminders of the signed-in user, soonest first, kept up to date with changes from any device
+ */
+export const useReminders = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const { data, loading, error } = useSharedSubscription<Reminder[]>(
+    userId ? `reminders:${userId}` : null,
+    (onData, onError) => DatabaseService.subscribeToUserReminders(userId!, onData, onError)
+  );
+
+  return { reminders: data ?? NO_REMINDERS, loading, error };
+};
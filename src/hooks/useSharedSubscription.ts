@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+
+type Subscribe<T> = (onData: (data: T) => void, onError: (error: Error) => void) => () => void;
+
+interface SubscriptionState<T> {
+  data: T | null;
+  error: Error | null;
+}
+
+type StateListener = (state: SubscriptionState<any>) => void;
+
+interface SharedSubscription {
+  state: SubscriptionState<any>;
+  listeners: Set<StateListener>;
+  unsubscribe: () => void;
+}
+
+const EMPTY_STATE: SubscriptionState<any> = { data: null, error: null };
+
+// One listener per key, shared by every mounted component that uses it
+const subscriptions = new Map<string, SharedSubscription>();
+
+const attach = <T>(key: string, subscribe: Subscribe<T>, listener: StateListener): (() => void) => {
+  let subscription = subscriptions.get(key);
+
+  if (!subscription) {
+    const created: SharedSubscription = { state: EMPTY_STATE, listeners: new Set(), unsubscribe: () => {} };
+    const update = (state: SubscriptionState<T>) => {
+      created.state = state;
+      created.listeners.forEach(notify => notify(state));
+    };
+
+    subscriptions.set(key, created);
+    created.unsubscribe = subscribe(
+      data => update({ data, error: null }),
+      error => update({ data: created.state.data, error })
+    );
+    subscription = created;
+  }
+
+  const shared = subscription;
+  shared.listeners.add(listener);
+  listener(shared.state);
+
+  return () => {
+    shared.listeners.delete(listener);
+    if (shared.listeners.size === 0) {
+      shared.unsubscribe();
+      subscriptions.delete(key);
+    }
+  };
+};
+
+/**
+ * Subscribe to a live data source identified by `key`. Components using the
+ * same key share one underlying listener, which is closed when the last of
+ * them unmounts. Pass a null key to stay unsubscribed, e.g. while signed out.
+ */
+export const useSharedSubscription = <T>(key: string | null, subscribe: Subscribe<T>) => {
+  const [state, setState] = useState<SubscriptionState<T>>(
+    () => (key && subscriptions.get(key)?.state) || EMPTY_STATE
+  );
+
+  useEffect(() => {
+    if (!key) {
+      setState(EMPTY_STATE);
+      return;
+    }
+    return attach(key, subscribe, setState);
+  }, [key]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: !!key && state.data === null && state.error === null,
+  };
+};
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { AuthService } from '../services/auth';
+import { validateUsername } from '../utils/username';
+
+export type UsernameAvailability = 'idle' | 'invalid' | 'checking' | 'available' | 'taken' | 'error';
+
+const CHECK_DELAY_MS = 400;
+
+/**
+ * Check a username while it is being typed, once the input has been idle for a moment
+ */
+export const useUsernameAvailability = (username: string) => {
+  const [status, setStatus] = useState<UsernameAvailability>('idle');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!username.trim()) {
+      setStatus('idle');
+      setMessage('');
+      return;
+    }
+
+    const problem = validateUsername(username);
+    if (problem) {
+      setStatus('invalid');
+      setMessage(problem);
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('checking');
+    setMessage('Checking availability...');
+
+    const timer = setTimeout(async () => {
+      try {
+        const available = await AuthService.isUsernameAvailable(username);
+        if (cancelled) return;
+        setStatus(available ? 'available' : 'taken');
+        setMessage(available ? 'Username is available' : 'This username is already taken');
+      } catch (error) {
+        if (cancelled) return;
+        // Registration checks again, so don't block the form when offline
+        setStatus('error');
+        setMessage('Could not check availability');
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [username]);
+
+  return { status, message };
+};
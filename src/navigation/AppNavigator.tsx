@@ -1,16 +1,21 @@
-import React from 'react';
-import { View } from 'react-native';
+import React, { useEffect } from 'react';
+import { AppState, View } from 'react-native';
 import { Text } from 'react-native-paper';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { useAuth } from '../context/AuthContext';
+import { EmailLinkSignInDialog } from '../components/EmailLinkSignInDialog';
 import { RootStackParamList, TabParamList } from '../types';
+import { DatabaseService } from '../services/database';
+import { NotificationSchedulerService } from '../services/notificationScheduler';
+import * as Notifications from 'expo-notifications';
 
 import WelcomeScreen from '../screens/auth/WelcomeScreen';
 import LoginScreen from '../screens/auth/LoginScreen';
 import RegisterScreen from '../screens/auth/RegisterScreen';
 import ForgotPasswordScreen from '../screens/auth/ForgotPasswordScreen';
+import VerifyEmailScreen from '../screens/auth/VerifyEmailScreen';
 
 import DashboardScreen from '../screens/main/DashboardScreen';
 import CarsScreen from '../screens/main/CarsScreen';
@@ -20,12 +25,17 @@ import ProfileScreen from '../screens/main/ProfileScreen';
 import CarDetailsScreen from '../screens/cars/CarDetailsScreen';
 import AddCarScreen from '../screens/cars/AddCarScreen';
 import EditCarScreen from '../screens/cars/EditCarScreen';
+import OdometerLogScreen from '../screens/cars/OdometerLogScreen';
 
 import { AddMaintenanceScreen } from '../screens/maintenance/AddMaintenanceScreen';
 import { EditMaintenanceScreen } from '../screens/maintenance/EditMaintenanceScreen';
 import { CarMaintenanceRecordsScreen } from '../screens/maintenance/CarMaintenanceRecordsScreen';
 import { MaintenanceDetailsScreen } from '../screens/maintenance/MaintenanceDetailsScreen';
 
+import { FuelLogScreen } from '../screens/fuel/FuelLogScreen';
+import { AddFuelEntryScreen } from '../screens/fuel/AddFuelEntryScreen';
+import { EditFuelEntryScreen } from '../screens/fuel/EditFuelEntryScreen';
+
 
 import { ManageRemindersScreen } from '../screens/reminders/ManageRemindersScreen';
 import { AddReminderScreen } from '../screens/reminders/AddReminderScreen';
@@ -34,11 +44,13 @@ import { EditReminderScreen } from '../screens/reminders/EditReminderScreen';
 import SettingsScreen from '../screens/other/SettingsScreen';
 import WorkshopFinderScreen from '../screens/other/WorkshopFinderScreen';
 import NotificationsScreen from '../screens/other/NotificationsScreen';
+import AnalyticsScreen from '../screens/other/AnalyticsScreen';
 
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from 'react-native-paper';
 
 const Stack = createStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 const Tab = createBottomTabNavigator<TabParamList>();
 
 const LoadingScreen = () => {
@@ -136,6 +148,51 @@ const AuthNavigator = () => {
 
 const AppNavigator = () => {
   const theme = useTheme();
+
+  const { user } = useAuth();
+
+  // Replay the offline writes of the signed-in user whenever the device reconnects
+  useEffect(() => DatabaseService.startOfflineSync(user?.id ?? null), [user?.id]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    NotificationSchedulerService.configure()
+      .then(() => NotificationSchedulerService.registerForPushNotifications(user.id))
+      .then(() => NotificationSchedulerService.rescheduleAll(user.id))
+      .catch(() => {
+        // Reminders still show in the app without device notifications
+      });
+
+    // Reminders added offline are scheduled under a temporary id until they sync
+    const unsubscribeReminderSynced = DatabaseService.onReminderSynced((pendingId, reminderId) => {
+      NotificationSchedulerService.moveReminder(pendingId, reminderId).catch(() => undefined);
+    });
+
+    // Add delivered reminders to the notifications inbox
+    const recordDueNotifications = () =>
+      NotificationSchedulerService.recordDueNotifications(user.id).catch(() => undefined);
+    const receivedSubscription = Notifications.addNotificationReceivedListener(recordDueNotifications);
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') recordDueNotifications();
+    });
+
+    // Open the reminder when its notification is tapped
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      recordDueNotifications();
+      const reminderId = response.notification.request.content.data?.reminderId;
+      if (typeof reminderId === 'string' && navigationRef.isReady()) {
+        navigationRef.navigate('EditReminder', { reminderId });
+      }
+    });
+
+    return () => {
+      unsubscribeReminderSynced();
+      receivedSubscription.remove();
+      appStateSubscription.remove();
+      subscription.remove();
+    };
+  }, [user?.id]);
   
   return (
     <Stack.Navigator
@@ -170,6 +227,11 @@ const AppNavigator = () => {
         component={EditCarScreen} 
         options={{ title: 'Edit Car' }}
       />
+      <Stack.Screen 
+        name="OdometerLog" 
+        component={OdometerLogScreen} 
+        options={{ title: 'Odometer Log' }}
+      />
       
       <Stack.Screen 
         name="MaintenanceList" 
@@ -192,6 +254,22 @@ const AppNavigator = () => {
         options={{ title: 'Maintenance Details' }}
       />
       
+      <Stack.Screen 
+        name="FuelLog" 
+        component={FuelLogScreen} 
+        options={{ title: 'Fuel Log' }}
+      />
+      <Stack.Screen 
+        name="AddFuelEntry" 
+        component={AddFuelEntryScreen} 
+        options={{ title: 'Add Fuel Entry' }}
+      />
+      <Stack.Screen 
+        name="EditFuelEntry" 
+        component={EditFuelEntryScreen} 
+        options={{ title: 'Edit Fuel Entry' }}
+      />
+      
       <Stack.Screen 
         name="ManageReminders" 
         component={ManageRemindersScreen} 
@@ -223,20 +301,26 @@ const AppNavigator = () => {
         component={NotificationsScreen} 
         options={{ title: 'Notifications' }}
       />
+      <Stack.Screen 
+        name="Analytics" 
+        component={AnalyticsScreen} 
+        options={{ title: 'Spending Analytics' }}
+      />
     </Stack.Navigator>
   );
 };
 
 const RootNavigator = () => {
-  const { user, loading } = useAuth();
+  const { user, loading, emailVerified } = useAuth();
 
   if (loading) {
     return <LoadingScreen />;
   }
 
   return (
-    <NavigationContainer>
-      {user ? <AppNavigator /> : <AuthNavigator />}
+    <NavigationContainer ref={navigationRef}>
+      {user ? emailVerified ? <AppNavigator /> : <VerifyEmailScreen /> : <AuthNavigator />}
+      {!user && <EmailLinkSignInDialog />}
     </NavigationContainer>
   );
 };
@@ -16,6 +16,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { RootStackParamList } from '../../types';
 import { useAuth } from '../../context/AuthContext';
+import { SocialSignInButtons } from '../../components/SocialSignInButtons';
 import * as Animatable from 'react-native-animatable';
 
 type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
@@ -198,6 +199,14 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
                 >
                   {loading ? 'Signing In...' : 'Sign In'}
                 </Button>
+
+                <SocialSignInButtons
+                  disabled={loading}
+                  onError={(message) => {
+                    setSnackbarMessage(message);
+                    setSnackbarVisible(true);
+                  }}
+                />
               </Card.Content>
             </Card>
           </Animatable.View>
@@ -15,6 +15,9 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { RootStackParamList } from '../../types';
 import { useAuth } from '../../context/AuthContext';
+import { SocialSignInButtons } from '../../components/SocialSignInButtons';
+import { useUsernameAvailability } from '../../hooks/useUsernameAvailability';
+import { validateUsername } from '../../utils/username';
 import * as Animatable from 'react-native-animatable';
 
 type RegisterScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Register'>;
@@ -44,6 +47,7 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const usernameAvailability = useUsernameAvailability(formData.username);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -56,10 +60,11 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
       newErrors.lastName = 'Last name is required';
     }
 
-    if (!formData.username.trim()) {
-      newErrors.username = 'Username is required';
-    } else if (formData.username.length < 3) {
-      newErrors.username = 'Username must be at least 3 characters';
+    const usernameProblem = validateUsername(formData.username);
+    if (usernameProblem) {
+      newErrors.username = usernameProblem;
+    } else if (usernameAvailability.status === 'taken') {
+      newErrors.username = usernameAvailability.message;
     }
 
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -206,13 +211,32 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
                   mode="outlined"
                   autoCapitalize="none"
                   left={<TextInput.Icon icon="account-circle" />}
-                  error={!!errors.username}
+                  right={
+                    usernameAvailability.status === 'available' ? (
+                      <TextInput.Icon icon="check-circle" color={theme.colors.primary} />
+                    ) : undefined
+                  }
+                  error={!!errors.username || usernameAvailability.status === 'taken'}
                   style={styles.input}
                 />
                 {errors.username ? (
                   <Text variant="bodySmall" style={[styles.errorText, { color: theme.colors.error }]}>
                     {errors.username}
                   </Text>
+                ) : usernameAvailability.status === 'taken' || usernameAvailability.status === 'available' ? (
+                  <Text
+                    variant="bodySmall"
+                    style={[
+                      styles.errorText,
+                      {
+                        color: usernameAvailability.status === 'taken'
+                          ? theme.colors.error
+                          : theme.colors.primary,
+                      },
+                    ]}
+                  >
+                    {usernameAvailability.message}
+                  </Text>
                 ) : null}
 
                 <TextInput
@@ -305,6 +329,14 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
                 >
                   {loading ? 'Creating Account...' : 'Create Account'}
                 </Button>
+
+                <SocialSignInButtons
+                  disabled={loading}
+                  onError={(message) => {
+                    setSnackbarMessage(message);
+                    setSnackbarVisible(true);
+                  }}
+                />
               </Card.Content>
             </Card>
           </Animatable.View>
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, AppState } from 'react-native';
+import { Text, Button, useTheme, Snackbar, Card } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../../context/AuthContext';
+import * as Animatable from 'react-native-animatable';
+
+/**
+ * Shown instead of the app while the signed-in user hasn't verified their email
+ */
+const VerifyEmailScreen: React.FC = () => {
+  const theme = useTheme();
+  const { user, sendVerificationEmail, refreshEmailVerified, signOut } = useAuth();
+
+  const [checking, setChecking] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [snackbarVisible, setSnackbarVisible] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message);
+    setSnackbarVisible(true);
+  };
+
+  // The link is opened in the mail app, so check again when coming back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refreshEmailVerified().catch(() => undefined);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      const verified = await refreshEmailVerified();
+      if (!verified) {
+        showMessage('Your email is not verified yet. Open the link we sent you first.');
+      }
+      // Navigation handled by AuthContext once verified
+    } catch (error: any) {
+      showMessage(error.message || 'Failed to check your email');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await sendVerificationEmail();
+      showMessage(`Verification email sent to ${user?.email}`);
+    } catch (error: any) {
+      showMessage(error.message || 'Failed to send the verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error: any) {
+      showMessage(error.message || 'Failed to sign out');
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={styles.content}>
+        <Animatable.View animation="fadeInDown" duration={800} style={styles.header}>
+          <MaterialCommunityIcons name="email-check-outline" size={64} color={theme.colors.primary} />
+          <Text variant="headlineMedium" style={[styles.title, { color: theme.colors.onSurface }]}>
+            Verify Your Email
+          </Text>
+          <Text variant="bodyMedium" style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}>
+            We sent a verification link to {user?.email}. Open it to finish setting up your account.
+          </Text>
+        </Animatable.View>
+
+        <Animatable.View animation="fadeInUp" duration={800} delay={200}>
+          <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <Card.Content style={styles.cardContent}>
+              <Button
+                mode="contained"
+                onPress={handleCheck}
+                loading={checking}
+                disabled={checking}
+                style={styles.button}
+                contentStyle={styles.buttonContent}
+              >
+                I've Verified My Email
+              </Button>
+
+              <Button
+                mode="outlined"
+                onPress={handleResend}
+                loading={sending}
+                disabled={sending}
+                style={styles.button}
+                contentStyle={styles.buttonContent}
+              >
+                Resend Email
+              </Button>
+
+              <Button mode="text" onPress={handleSignOut}>
+                Sign Out
+              </Button>
+            </Card.Content>
+          </Card>
+        </Animatable.View>
+      </View>
+
+      <Snackbar visible={snackbarVisible} onDismiss={() => setSnackbarVisible(false)} duration={4000}>
+        {snackbarMessage}
+      </Snackbar>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+  },
+  card: {
+    elevation: 4,
+  },
+  cardContent: {
+    padding: 24,
+  },
+  button: {
+    marginBottom: 16,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
+
+export default VerifyEmailScreen;
@@ -16,9 +16,26 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { RootStackParamList, Car, MaintenanceRecord } from '../../types';
+import {
+  RootStackParamList,
+  Car,
+  FuelEntry,
+  MaintenanceCategory,
+  OdometerReading,
+} from '../../types';
 import { DatabaseService } from '../../services/database';
 import { ImageUploadService } from '../../services/imageUpload';
+import { CarDeletionService, CarDeletionProgress } from '../../services/carDeletion';
+import { ProgressDialog } from '../../components/ProgressDialog';
+import { useMaintenanceRecords } from '../../hooks/useMaintenanceRecords';
+import { exportCarMaintenanceCsv, exportCarServiceHistoryPdf } from '../../utils/dataExport';
+import { getAverageKmPerDay, projectMileage, sortReadings } from '../../utils/odometer';
+import { getMaintenanceDueItems } from '../../utils/dueStatus';
+import { formatConsumption, getFuelUnit, summarizeFuelLog } from '../../utils/fuelEfficiency';
+import { LineChart } from '../../components/LineChart';
+import { BarList } from '../../components/BarList';
+import { calculateCarStatistics } from '../../services/carStatistics';
+import { getCategoryIcon } from '../../utils/maintenanceCategories';
 import * as Animatable from 'react-native-animatable';
 import { useFocusEffect } from '@react-navigation/native';
 
@@ -37,10 +54,10 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   const [loading, setLoading] = useState(true);
   const [deleteDialogVisible, setDeleteDialogVisible] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [deleteProgress, setDeleteProgress] = useState<CarDeletionProgress | null>(null);
   
   // Maintenance records
-  const [maintenanceRecords, setMaintenanceRecords] = useState<MaintenanceRecord[]>([]);
-  const [loadingMaintenance, setLoadingMaintenance] = useState(false);
+  const { records: maintenanceRecords, loading: loadingMaintenance } = useMaintenanceRecords(carId);
   const [deleteMaintenanceDialogVisible, setDeleteMaintenanceDialogVisible] = useState(false);
   const [selectedMaintenanceId, setSelectedMaintenanceId] = useState<string | null>(null);
   const [deletingMaintenance, setDeletingMaintenance] = useState(false);
@@ -49,13 +66,23 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   const [uploadingImage, setUploadingImage] = useState(false);
   const [deletingImage, setDeletingImage] = useState<string | null>(null);
 
+  // Odometer log
+  const [odometerReadings, setOdometerReadings] = useState<OdometerReading[]>([]);
+
+  // Fuel log
+  const [fuelEntries, setFuelEntries] = useState<FuelEntry[]>([]);
+
+  // Service history export
+  const [exportingHistory, setExportingHistory] = useState(false);
+
   useEffect(() => {
     loadCarDetails();
   }, [carId]);
   
   useFocusEffect(
     React.useCallback(() => {
-      loadMaintenanceRecords();
+      loadOdometerReadings();
+      loadFuelEntries();
     }, [carId])
   );
 
@@ -70,15 +97,21 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
   
-  const loadMaintenanceRecords = async () => {
+  const loadOdometerReadings = async () => {
     try {
-      setLoadingMaintenance(true);
-      const records = await DatabaseService.getCarMaintenanceRecords(carId);
-      setMaintenanceRecords(records);
+      const readings = await DatabaseService.getCarOdometerReadings(carId);
+      setOdometerReadings(sortReadings(readings));
+    } catch (error) {
+      // Silently handle error
+    }
+  };
+
+  const loadFuelEntries = async () => {
+    try {
+      const entries = await DatabaseService.getCarFuelEntries(carId);
+      setFuelEntries(entries);
     } catch (error) {
       // Silently handle error
-    } finally {
-      setLoadingMaintenance(false);
     }
   };
 
@@ -87,9 +120,12 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   const handleDelete = async () => {
+    if (!car) return;
+
     setDeleting(true);
+    setDeleteDialogVisible(false);
     try {
-      await DatabaseService.deleteCar(carId);
+      await CarDeletionService.deleteCar(car, { onProgress: setDeleteProgress });
       Alert.alert('Success', 'Car deleted successfully', [
         {
           text: 'OK',
@@ -97,10 +133,10 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
         },
       ]);
     } catch (error) {
-      Alert.alert('Error', 'Failed to delete car');
+      Alert.alert('Error', 'Failed to delete car. Please try again to remove the remaining data.');
     } finally {
       setDeleting(false);
-      setDeleteDialogVisible(false);
+      setDeleteProgress(null);
     }
   };
 
@@ -197,7 +233,6 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     try {
       await DatabaseService.deleteMaintenanceRecord(selectedMaintenanceId);
       Alert.alert('Success', 'Maintenance record deleted successfully');
-      await loadMaintenanceRecords();
     } catch (error) {
       Alert.alert('Error', 'Failed to delete maintenance record');
     } finally {
@@ -207,6 +242,34 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const runHistoryExport = async (exporter: (car: Car) => Promise<void>) => {
+    if (!car) return;
+
+    try {
+      setExportingHistory(true);
+      await exporter(car);
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Failed to export service history');
+    } finally {
+      setExportingHistory(false);
+    }
+  };
+
+  const handleExportHistory = () => {
+    Alert.alert(
+      'Export Service History',
+      'Choose a format for this car\'s maintenance history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => runHistoryExport(exportCarMaintenanceCsv) },
+        { text: 'PDF', onPress: () => runHistoryExport(exportCarServiceHistoryPdf) },
+      ]
+    );
+  };
+
+  const formatChartDate = (time: number) =>
+    new Date(time).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Not set';
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -245,6 +308,27 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   }
 
+  const kmPerDay = getAverageKmPerDay(odometerReadings);
+  const in30Days = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const projectedMileage = kmPerDay !== null ? projectMileage(odometerReadings, in30Days, kmPerDay) : null;
+  const projectedServices = getMaintenanceDueItems(car, maintenanceRecords, undefined, kmPerDay)
+    .filter(item => item.projectedDate);
+  const statistics = calculateCarStatistics(car, maintenanceRecords, odometerReadings, fuelEntries);
+  const categorySpend = Object.entries(statistics.spendByCategory)
+    .map(([category, amount]) => ({
+      key: category,
+      label: category,
+      value: amount || 0,
+      icon: getCategoryIcon(category as MaintenanceCategory),
+    }))
+    .sort((a, b) => b.value - a.value);
+  const fuelUnit = getFuelUnit(car);
+  const fuelSummary = summarizeFuelLog(fuelEntries, fuelUnit);
+  const mileagePoints = odometerReadings.map(reading => {
+    const [year, month, day] = reading.readingDate.split('-').map(Number);
+    return { x: new Date(year, month - 1, day).getTime(), y: reading.reading };
+  });
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
@@ -470,6 +554,140 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           </Card>
         </Animatable.View>
 
+        {/* Odometer */}
+        <Animatable.View animation="fadeInUp" duration={800} delay={350}>
+          <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <Card.Content>
+              <View style={styles.sectionHeader}>
+                <Text variant="titleLarge" style={[styles.sectionTitle, { color: theme.colors.onSurface, marginBottom: 0 }]}>
+                  Odometer
+                </Text>
+                <Button
+                  mode="contained"
+                  icon="speedometer"
+                  onPress={() => navigation.navigate('OdometerLog', { carId })}
+                  compact
+                >
+                  Log
+                </Button>
+              </View>
+
+              {mileagePoints.length >= 2 ? (
+                <LineChart
+                  points={mileagePoints}
+                  formatX={formatChartDate}
+                  formatY={(value) => `${Math.round(value).toLocaleString()} km`}
+                />
+              ) : (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Log odometer readings over time to see your mileage history.
+                </Text>
+              )}
+
+              {kmPerDay !== null && (
+                <>
+                  <Divider style={styles.divider} />
+                  <View style={styles.detailRow}>
+                    <MaterialCommunityIcons name="chart-line" size={24} color={theme.colors.onSurfaceVariant} />
+                    <View style={styles.detailContent}>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        Average Distance
+                      </Text>
+                      <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                        {Math.round(kmPerDay).toLocaleString()} km/day
+                        {projectedMileage !== null && ` · ~${projectedMileage.toLocaleString()} km in 30 days`}
+                      </Text>
+                    </View>
+                  </View>
+                </>
+              )}
+
+              {projectedServices.map(item => (
+                <View key={item.id}>
+                  <Divider style={styles.divider} />
+                  <View style={styles.detailRow}>
+                    <MaterialCommunityIcons name="calendar-clock" size={24} color={theme.colors.onSurfaceVariant} />
+                    <View style={styles.detailContent}>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {item.title} at {item.dueMileage?.toLocaleString()} km
+                      </Text>
+                      <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                        Expected around {formatDate(item.projectedDate)}
+                      </Text>
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        </Animatable.View>
+
+        {/* Fuel */}
+        <Animatable.View animation="fadeInUp" duration={800} delay={375}>
+          <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <Card.Content>
+              <View style={styles.sectionHeader}>
+                <Text variant="titleLarge" style={[styles.sectionTitle, { color: theme.colors.onSurface, marginBottom: 0 }]}>
+                  {fuelUnit === 'kWh' ? 'Charging' : 'Fuel'}
+                </Text>
+                <View style={styles.sectionHeaderActions}>
+                  <IconButton
+                    icon="format-list-bulleted"
+                    size={20}
+                    onPress={() => navigation.navigate('FuelLog', { carId })}
+                  />
+                  <Button
+                    mode="contained"
+                    icon="plus"
+                    onPress={() => navigation.navigate('AddFuelEntry', { carId })}
+                    compact
+                  >
+                    Add
+                  </Button>
+                </View>
+              </View>
+
+              {fuelEntries.length === 0 ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Log your {fuelUnit === 'kWh' ? 'charges' : 'fuel-ups'} to track consumption and costs.
+                </Text>
+              ) : (
+                <>
+                  <View style={styles.detailRow}>
+                    <MaterialCommunityIcons
+                      name={fuelUnit === 'kWh' ? 'ev-station' : 'gas-station'}
+                      size={24}
+                      color={theme.colors.onSurfaceVariant}
+                    />
+                    <View style={styles.detailContent}>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        Average Consumption
+                      </Text>
+                      <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                        {formatConsumption(fuelSummary.averageConsumption, fuelUnit)}
+                        {fuelSummary.recentConsumption !== null &&
+                          ` (recent ${formatConsumption(fuelSummary.recentConsumption, fuelUnit)})`}
+                      </Text>
+                    </View>
+                  </View>
+                  <Divider style={styles.divider} />
+                  <View style={styles.detailRow}>
+                    <MaterialCommunityIcons name="cash" size={24} color={theme.colors.onSurfaceVariant} />
+                    <View style={styles.detailContent}>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        Total Spent ({fuelSummary.fillCount} {fuelUnit === 'kWh' ? 'charges' : 'fill-ups'})
+                      </Text>
+                      <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                        €{fuelSummary.totalCost.toFixed(2)}
+                      </Text>
+                    </View>
+                  </View>
+                </>
+              )}
+            </Card.Content>
+          </Card>
+        </Animatable.View>
+
         {/* Maintenance History */}
         {(car.firstMaintenance || car.firstOilChangeDate || car.oilChangeInterval) && (
           <Animatable.View animation="fadeInUp" duration={800} delay={400}>
@@ -548,6 +766,94 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           </Animatable.View>
         )}
         
+        {/* Statistics */}
+        {statistics.maintenanceCount > 0 && (
+          <Animatable.View animation="fadeInUp" duration={800} delay={450}>
+            <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <Card.Content>
+                <Text variant="titleLarge" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                  Statistics
+                </Text>
+
+                <View style={styles.statsGrid}>
+                  <View style={styles.statItem}>
+                    <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                      €{statistics.totalMaintenanceCost.toFixed(2)}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Total Spent
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                      {statistics.costPerKm !== undefined ? `€${statistics.costPerKm.toFixed(3)}` : '-'}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Cost per km
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                      {statistics.costPerYear !== undefined ? `€${statistics.costPerYear.toFixed(0)}` : '-'}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Cost per year
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                      {statistics.maintenanceCount}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Services ({statistics.oilChangeCount} oil)
+                    </Text>
+                  </View>
+                </View>
+
+                {statistics.averageMileageBetweenServices > 0 && (
+                  <>
+                    <Divider style={styles.divider} />
+                    <View style={styles.detailRow}>
+                      <MaterialCommunityIcons name="map-marker-distance" size={24} color={theme.colors.onSurfaceVariant} />
+                      <View style={styles.detailContent}>
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                          Average Distance Between Services
+                        </Text>
+                        <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                          {statistics.averageMileageBetweenServices.toLocaleString()} km
+                        </Text>
+                      </View>
+                    </View>
+                  </>
+                )}
+
+                <Divider style={styles.divider} />
+                <View style={styles.detailRow}>
+                  <MaterialCommunityIcons name="calendar-check" size={24} color={theme.colors.onSurfaceVariant} />
+                  <View style={styles.detailContent}>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Last Service · Next Due
+                    </Text>
+                    <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                      {formatDate(statistics.lastServiceDate)} · {formatDate(statistics.nextServiceDue)}
+                    </Text>
+                  </View>
+                </View>
+
+                {categorySpend.length > 0 && (
+                  <>
+                    <Divider style={styles.divider} />
+                    <Text variant="titleMedium" style={[styles.statsSubtitle, { color: theme.colors.onSurface }]}>
+                      Spend by Category
+                    </Text>
+                    <BarList items={categorySpend} formatValue={(value) => `€${value.toFixed(2)}`} />
+                  </>
+                )}
+              </Card.Content>
+            </Card>
+          </Animatable.View>
+        )}
+
         {/* Maintenance Records Section */}
         <Animatable.View animation="fadeInUp" duration={800} delay={500}>
           <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
@@ -556,14 +862,22 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
                 <Text variant="titleLarge" style={[styles.sectionTitle, { color: theme.colors.onSurface, marginBottom: 0 }]}>
                   Maintenance Records
                 </Text>
-                <Button
-                  mode="contained"
-                  icon="plus"
-                  onPress={handleAddMaintenance}
-                  compact
-                >
-                  Add
-                </Button>
+                <View style={styles.sectionHeaderActions}>
+                  <IconButton
+                    icon="export-variant"
+                    size={20}
+                    onPress={handleExportHistory}
+                    disabled={exportingHistory || maintenanceRecords.length === 0}
+                  />
+                  <Button
+                    mode="contained"
+                    icon="plus"
+                    onPress={handleAddMaintenance}
+                    compact
+                  >
+                    Add
+                  </Button>
+                </View>
               </View>
 
               {loadingMaintenance ? (
@@ -660,8 +974,8 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           <Dialog.Title>Delete Car?</Dialog.Title>
           <Dialog.Content>
             <Text variant="bodyMedium">
-              Are you sure you want to delete this car? This action cannot be undone and will also delete all
-              associated maintenance records and oil change history.
+              Are you sure you want to delete this car? This action cannot be undone and will also delete its
+              maintenance records, odometer and fuel logs, reminders and photos.
             </Text>
           </Dialog.Content>
           <Dialog.Actions>
@@ -678,6 +992,13 @@ const CarDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           </Dialog.Actions>
         </Dialog>
         
+        <ProgressDialog
+          visible={deleteProgress !== null}
+          title="Deleting Car"
+          label={deleteProgress?.label}
+          progress={deleteProgress ? deleteProgress.completedSteps / deleteProgress.totalSteps : 0}
+        />
+        
         {/* Delete Maintenance Confirmation Dialog */}
         <Dialog visible={deleteMaintenanceDialogVisible} onDismiss={() => setDeleteMaintenanceDialogVisible(false)}>
           <Dialog.Icon icon="alert" color={theme.colors.error} />
@@ -793,6 +1114,26 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  statItem: {
+    width: '50%',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statValue: {
+    fontWeight: 'bold',
+  },
+  statsSubtitle: {
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  sectionHeaderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   imageScroll: {
     marginTop: 8,
   },
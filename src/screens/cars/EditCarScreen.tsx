@@ -17,6 +17,7 @@ import { RouteProp } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { RootStackParamList, Car } from '../../types';
 import { DatabaseService } from '../../services/database';
+import { describeOdometerConflict, findOdometerConflict } from '../../utils/odometer';
 import * as Animatable from 'react-native-animatable';
 import { DatePicker } from '../../components/DatePicker';
 import { CarTypeSelector } from '../../components/CarTypeSelector';
@@ -48,6 +49,7 @@ const EditCarScreen: React.FC<Props> = ({ navigation, route }) => {
     oilChangeInterval: '',
   });
 
+  const [originalMileage, setOriginalMileage] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [snackbarVisible, setSnackbarVisible] = useState(false);
@@ -77,6 +79,7 @@ const EditCarScreen: React.FC<Props> = ({ navigation, route }) => {
           mileageAtFirstOilChange: car.mileageAtFirstOilChange?.toString() || '',
           oilChangeInterval: car.oilChangeInterval?.toString() || '',
         });
+        setOriginalMileage(car.mileage ?? null);
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to load car data');
@@ -133,6 +136,36 @@ const EditCarScreen: React.FC<Props> = ({ navigation, route }) => {
   const handleUpdateCar = async () => {
     if (!validateForm()) return;
 
+    const mileage = Number(formData.mileage);
+    if (mileage === originalMileage) {
+      await saveCar();
+      return;
+    }
+
+    try {
+      const readings = await DatabaseService.getCarOdometerReadings(carId);
+      const today = new Date().toISOString().split('T')[0];
+      const conflict = findOdometerConflict(readings, today, mileage);
+
+      if (conflict) {
+        Alert.alert(
+          'Check Mileage',
+          `${describeOdometerConflict(conflict)} Save the new mileage anyway?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Save Anyway', onPress: () => saveCar() },
+          ]
+        );
+        return;
+      }
+    } catch (error) {
+      // Without the odometer log the mileage cannot be checked
+    }
+
+    await saveCar();
+  };
+
+  const saveCar = async () => {
     setSaving(true);
     try {
       const updates = {
@@ -151,6 +184,19 @@ const EditCarScreen: React.FC<Props> = ({ navigation, route }) => {
       };
 
       await DatabaseService.updateCar(carId, updates);
+
+      if (updates.mileage !== originalMileage) {
+        try {
+          await DatabaseService.addOdometerReading({
+            carId,
+            readingDate: new Date().toISOString().split('T')[0],
+            reading: updates.mileage,
+            source: 'manual',
+          });
+        } catch (error) {
+          // The car is updated even if the reading could not be logged
+        }
+      }
       
       Alert.alert(
         'Success',
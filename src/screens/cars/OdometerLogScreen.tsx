@@ -0,0 +1,370 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  useTheme,
+  Card,
+  HelperText,
+  IconButton,
+  Divider,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RootStackParamList, Car, OdometerReading, OdometerSource } from '../../types';
+import { DatabaseService } from '../../services/database';
+import { DatePicker } from '../../components/DatePicker';
+import { LineChart } from '../../components/LineChart';
+import {
+  describeOdometerConflict,
+  findOdometerConflict,
+  getAverageKmPerDay,
+  sortReadings,
+} from '../../utils/odometer';
+
+type OdometerLogScreenNavigationProp = StackNavigationProp<RootStackParamList, 'OdometerLog'>;
+type OdometerLogScreenRouteProp = RouteProp<RootStackParamList, 'OdometerLog'>;
+
+interface Props {
+  navigation: OdometerLogScreenNavigationProp;
+  route: OdometerLogScreenRouteProp;
+}
+
+const SOURCE_DETAILS: Record<OdometerSource, { label: string; icon: keyof typeof MaterialCommunityIcons.glyphMap }> = {
+  manual: { label: 'Manual entry', icon: 'pencil' },
+  maintenance: { label: 'Maintenance record', icon: 'wrench' },
+  fuel: { label: 'Fuel entry', icon: 'gas-station' },
+};
+
+const formatShortDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-GB', { month: 'short', year: '2-digit' });
+
+const toChartTime = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const OdometerLogScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { carId } = route.params;
+  const theme = useTheme();
+
+  const [car, setCar] = useState<Car | null>(null);
+  const [readings, setReadings] = useState<OdometerReading[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [readingDate, setReadingDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reading, setReading] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [carId])
+  );
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [carData, readingData] = await Promise.all([
+        DatabaseService.getCar(carId),
+        DatabaseService.getCarOdometerReadings(carId),
+      ]);
+      setCar(carData);
+      setReadings(sortReadings(readingData).reverse());
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load odometer log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const readingConflict = reading && !isNaN(Number(reading))
+    ? findOdometerConflict(readings, readingDate, Number(reading))
+    : null;
+
+  const handleAddReading = async () => {
+    if (!reading.trim() || isNaN(Number(reading)) || Number(reading) < 0) {
+      setError('Please enter a valid odometer reading');
+      return;
+    }
+    setError('');
+
+    if (readingConflict) {
+      Alert.alert(
+        'Check Mileage',
+        `${describeOdometerConflict(readingConflict)} Save the reading anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', onPress: () => saveReading() },
+        ]
+      );
+      return;
+    }
+
+    await saveReading();
+  };
+
+  const saveReading = async () => {
+    try {
+      setSaving(true);
+      await DatabaseService.addOdometerReading({
+        carId,
+        readingDate,
+        reading: Number(reading),
+        source: 'manual',
+        notes: notes.trim() || undefined,
+      });
+      setReading('');
+      setNotes('');
+      await loadData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add odometer reading');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteReading = (item: OdometerReading) => {
+    Alert.alert(
+      'Delete Reading',
+      `Delete the ${item.reading.toLocaleString()} km reading?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await DatabaseService.deleteOdometerReading(item.id);
+              await loadData();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete odometer reading');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading && !car) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const kmPerDay = getAverageKmPerDay(readings);
+  const chartPoints = sortReadings(readings).map(item => ({
+    x: toChartTime(item.readingDate),
+    y: item.reading,
+  }));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {car && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  {car.make} {car.model}
+                </Text>
+                <View style={styles.statsRow}>
+                  <View style={styles.statItem}>
+                    <Text variant="headlineSmall" style={[styles.statValue, { color: theme.colors.primary }]}>
+                      {car.mileage.toLocaleString()}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Current km
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text variant="headlineSmall" style={[styles.statValue, { color: theme.colors.primary }]}>
+                      {kmPerDay !== null ? Math.round(kmPerDay).toLocaleString() : '-'}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Avg km/day
+                    </Text>
+                  </View>
+                </View>
+
+                {chartPoints.length >= 2 && (
+                  <View style={styles.chart}>
+                    <LineChart
+                      points={chartPoints}
+                      formatX={formatShortDate}
+                      formatY={(value) => `${Math.round(value).toLocaleString()} km`}
+                    />
+                  </View>
+                )}
+              </Card.Content>
+            </Card>
+          )}
+
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Log Reading
+              </Text>
+
+              <DatePicker
+                label="Date"
+                value={readingDate}
+                onDateChange={setReadingDate}
+                maximumDate={new Date()}
+              />
+
+              <TextInput
+                mode="outlined"
+                label="Odometer (km)"
+                value={reading}
+                onChangeText={setReading}
+                keyboardType="numeric"
+                error={!!error}
+                style={styles.input}
+              />
+              {error ? (
+                <HelperText type="error">{error}</HelperText>
+              ) : readingConflict ? (
+                <HelperText type="info" style={{ color: theme.colors.error }}>
+                  {describeOdometerConflict(readingConflict)}
+                </HelperText>
+              ) : null}
+
+              <TextInput
+                mode="outlined"
+                label="Notes (optional)"
+                value={notes}
+                onChangeText={setNotes}
+                style={styles.input}
+              />
+
+              <Button
+                mode="contained"
+                icon="plus"
+                onPress={handleAddReading}
+                loading={saving}
+                disabled={saving}
+                style={styles.addButton}
+              >
+                Add Reading
+              </Button>
+            </Card.Content>
+          </Card>
+
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                History
+              </Text>
+
+              {readings.length === 0 ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  No odometer readings yet. Readings are also added from maintenance records.
+                </Text>
+              ) : (
+                readings.map((item, index) => (
+                  <View key={item.id}>
+                    {index > 0 && <Divider />}
+                    <View style={styles.readingRow}>
+                      <MaterialCommunityIcons
+                        name={SOURCE_DETAILS[item.source]?.icon || 'speedometer'}
+                        size={20}
+                        color={theme.colors.onSurfaceVariant}
+                      />
+                      <View style={styles.readingInfo}>
+                        <Text variant="bodyLarge" style={{ fontWeight: 'bold' }}>
+                          {item.reading.toLocaleString()} km
+                        </Text>
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                          {new Date(toChartTime(item.readingDate)).toLocaleDateString('en-GB')} ·{' '}
+                          {SOURCE_DETAILS[item.source]?.label || item.source}
+                        </Text>
+                        {item.notes && (
+                          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, fontStyle: 'italic' }}>
+                            {item.notes}
+                          </Text>
+                        )}
+                      </View>
+                      {item.source === 'manual' && (
+                        <IconButton
+                          icon="delete"
+                          iconColor={theme.colors.error}
+                          size={20}
+                          onPress={() => handleDeleteReading(item)}
+                        />
+                      )}
+                    </View>
+                  </View>
+                ))
+              )}
+            </Card.Content>
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontWeight: 'bold',
+  },
+  chart: {
+    marginTop: 16,
+  },
+  input: {
+    marginTop: 12,
+  },
+  addButton: {
+    marginTop: 16,
+  },
+  readingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  readingInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+});
+
+export default OdometerLogScreen;
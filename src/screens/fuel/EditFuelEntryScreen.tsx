@@ -0,0 +1,471 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  useTheme,
+  Surface,
+  HelperText,
+  Card,
+  Switch,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { RootStackParamList, Car, FuelEntry, OdometerReading } from '../../types';
+import { DatabaseService } from '../../services/database';
+import { DatePicker } from '../../components/DatePicker';
+import { describeOdometerConflict, findOdometerConflict } from '../../utils/odometer';
+import { getFuelUnit } from '../../utils/fuelEfficiency';
+
+type EditFuelEntryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'EditFuelEntry'>;
+type EditFuelEntryScreenRouteProp = RouteProp<RootStackParamList, 'EditFuelEntry'>;
+
+interface Props {
+  navigation: EditFuelEntryScreenNavigationProp;
+  route: EditFuelEntryScreenRouteProp;
+}
+
+export const EditFuelEntryScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { fuelEntryId } = route.params;
+  const theme = useTheme();
+
+  const [entry, setEntry] = useState<FuelEntry | null>(null);
+  const [car, setCar] = useState<Car | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingCar, setLoadingCar] = useState(true);
+
+  const [fillDate, setFillDate] = useState('');
+  const [odometer, setOdometer] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [pricePerUnit, setPricePerUnit] = useState('');
+  const [totalCost, setTotalCost] = useState('');
+  const [fullTank, setFullTank] = useState(true);
+  const [station, setStation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [odometerReadings, setOdometerReadings] = useState<OdometerReading[]>([]);
+
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+  useEffect(() => {
+    loadEntryData();
+  }, [fuelEntryId]);
+
+  const loadEntryData = async () => {
+    try {
+      setLoadingCar(true);
+      const entryData = await DatabaseService.getFuelEntry(fuelEntryId);
+
+      if (!entryData) {
+        Alert.alert('Error', 'Fuel entry not found', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
+
+      setEntry(entryData);
+      setFillDate(entryData.fillDate);
+      setOdometer(entryData.odometer.toString());
+      setQuantity(entryData.quantity.toString());
+      setPricePerUnit(entryData.pricePerUnit?.toString() || '');
+      setTotalCost(entryData.totalCost.toString());
+      setFullTank(entryData.fullTank);
+      setStation(entryData.station || '');
+      setNotes(entryData.notes || '');
+
+      const carData = await DatabaseService.getCar(entryData.carId);
+      setCar(carData);
+
+      DatabaseService.getCarOdometerReadings(entryData.carId)
+        .then(setOdometerReadings)
+        .catch(() => setOdometerReadings([]));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load fuel entry');
+    } finally {
+      setLoadingCar(false);
+    }
+  };
+
+  // Keep the unit the entry was recorded in
+  const unit = entry?.unit || (car ? getFuelUnit(car) : 'L');
+  const isElectric = unit === 'kWh';
+
+  // Fill in the total from quantity and unit price, the receipt total can still be typed over
+  const updateQuantity = (value: string) => {
+    setQuantity(value);
+    if (value && pricePerUnit && !isNaN(Number(value)) && !isNaN(Number(pricePerUnit))) {
+      setTotalCost((Number(value) * Number(pricePerUnit)).toFixed(2));
+    }
+  };
+
+  const updatePricePerUnit = (value: string) => {
+    setPricePerUnit(value);
+    if (value && quantity && !isNaN(Number(value)) && !isNaN(Number(quantity))) {
+      setTotalCost((Number(quantity) * Number(value)).toFixed(2));
+    }
+  };
+
+  const odometerConflict = odometer && !isNaN(Number(odometer)) && fillDate
+    ? findOdometerConflict(odometerReadings, fillDate, Number(odometer), fuelEntryId)
+    : null;
+
+  const validateForm = (): boolean => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (!fillDate) {
+      newErrors.fillDate = 'Date is required';
+    }
+
+    if (!odometer || isNaN(Number(odometer)) || Number(odometer) < 0) {
+      newErrors.odometer = 'Please enter a valid odometer reading';
+    }
+
+    if (!quantity || isNaN(Number(quantity)) || Number(quantity) <= 0) {
+      newErrors.quantity = isElectric ? 'Please enter the energy charged' : 'Please enter the litres filled';
+    }
+
+    if (pricePerUnit && (isNaN(Number(pricePerUnit)) || Number(pricePerUnit) < 0)) {
+      newErrors.pricePerUnit = 'Please enter a valid price';
+    }
+
+    if (!totalCost || isNaN(Number(totalCost)) || Number(totalCost) < 0) {
+      newErrors.totalCost = 'Please enter a valid total cost';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      Alert.alert('Validation Error', 'Please fix the errors before submitting');
+      return;
+    }
+
+    if (odometerConflict) {
+      Alert.alert(
+        'Check Mileage',
+        `${describeOdometerConflict(odometerConflict)} Save the entry anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', onPress: () => saveEntry() },
+        ]
+      );
+      return;
+    }
+
+    await saveEntry();
+  };
+
+  const saveEntry = async () => {
+    try {
+      setLoading(true);
+
+      await DatabaseService.updateFuelEntry(fuelEntryId, {
+        fillDate,
+        odometer: Number(odometer),
+        quantity: Number(quantity),
+        pricePerUnit: pricePerUnit ? Number(pricePerUnit) : undefined,
+        totalCost: Number(totalCost),
+        fullTank,
+        station: station.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      Alert.alert('Success', 'Fuel entry updated successfully', [
+        {
+          text: 'OK',
+          onPress: () => navigation.goBack(),
+        },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update fuel entry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Fuel Entry',
+      'Are you sure you want to delete this fuel entry? This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setLoading(true);
+              await DatabaseService.deleteFuelEntry(fuelEntryId);
+              navigation.goBack();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete fuel entry');
+              setLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loadingCar) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centerContent}>
+          <Text>Loading fuel entry...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!entry || !car) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centerContent}>
+          <Text>Fuel entry not found</Text>
+          <Button onPress={() => navigation.goBack()} style={styles.marginTop}>
+            Go Back
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+      <ScrollView style={styles.scrollView}>
+        <Card style={styles.carInfoCard}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.carInfoTitle}>
+              {isElectric ? 'Editing Charge For:' : 'Editing Fuel-Up For:'}
+            </Text>
+            <Text variant="headlineSmall" style={styles.carName}>
+              {car.make} {car.model} ({car.year})
+            </Text>
+            <Text variant="bodyMedium" style={styles.carDetail}>
+              Current Mileage: {car.mileage.toLocaleString()} km
+            </Text>
+          </Card.Content>
+        </Card>
+
+        <Surface style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <DatePicker
+              label="Date *"
+              value={fillDate}
+              onDateChange={setFillDate}
+              error={!!errors.fillDate}
+              disabled={loading}
+              maximumDate={new Date()}
+            />
+            {errors.fillDate && <HelperText type="error">{errors.fillDate}</HelperText>}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Odometer *</Text>
+            <TextInput
+              mode="outlined"
+              value={odometer}
+              onChangeText={setOdometer}
+              placeholder="Enter odometer reading in km"
+              keyboardType="numeric"
+              error={!!errors.odometer}
+              disabled={loading}
+              right={<TextInput.Affix text="km" />}
+            />
+            {errors.odometer && <HelperText type="error">{errors.odometer}</HelperText>}
+            {!errors.odometer && odometerConflict && (
+              <HelperText type="info" style={{ color: theme.colors.error }}>
+                {describeOdometerConflict(odometerConflict)}
+              </HelperText>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{isElectric ? 'Energy Charged *' : 'Litres Filled *'}</Text>
+            <TextInput
+              mode="outlined"
+              value={quantity}
+              onChangeText={updateQuantity}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              error={!!errors.quantity}
+              disabled={loading}
+              right={<TextInput.Affix text={unit} />}
+            />
+            {errors.quantity && <HelperText type="error">{errors.quantity}</HelperText>}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Price per {unit} (optional)</Text>
+            <TextInput
+              mode="outlined"
+              value={pricePerUnit}
+              onChangeText={updatePricePerUnit}
+              placeholder="0.000"
+              keyboardType="decimal-pad"
+              left={<TextInput.Affix text="€" />}
+              error={!!errors.pricePerUnit}
+              disabled={loading}
+            />
+            {errors.pricePerUnit && <HelperText type="error">{errors.pricePerUnit}</HelperText>}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Total Cost *</Text>
+            <TextInput
+              mode="outlined"
+              value={totalCost}
+              onChangeText={setTotalCost}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              left={<TextInput.Affix text="€" />}
+              error={!!errors.totalCost}
+              disabled={loading}
+            />
+            {errors.totalCost && <HelperText type="error">{errors.totalCost}</HelperText>}
+          </View>
+
+          <View style={[styles.inputGroup, styles.switchRow]}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.label}>{isElectric ? 'Charged to Full' : 'Full Tank'}</Text>
+              <Text variant="bodySmall" style={styles.carDetail}>
+                Consumption is calculated between full {isElectric ? 'charges' : 'fills'}
+              </Text>
+            </View>
+            <Switch value={fullTank} onValueChange={setFullTank} disabled={loading} />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{isElectric ? 'Charging Station' : 'Station'} (optional)</Text>
+            <TextInput
+              mode="outlined"
+              value={station}
+              onChangeText={setStation}
+              placeholder="e.g., Shell Main Street"
+              disabled={loading}
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Notes (optional)</Text>
+            <TextInput
+              mode="outlined"
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Additional notes or comments"
+              multiline
+              numberOfLines={3}
+              disabled={loading}
+            />
+          </View>
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={() => navigation.goBack()}
+              style={styles.button}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              style={styles.button}
+              loading={loading}
+              disabled={loading}
+            >
+              Save Changes
+            </Button>
+          </View>
+
+          <Button
+            mode="text"
+            icon="delete"
+            onPress={handleDelete}
+            textColor={theme.colors.error}
+            disabled={loading}
+            style={styles.marginTop}
+          >
+            Delete Entry
+          </Button>
+        </Surface>
+      </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  carInfoCard: {
+    margin: 16,
+    elevation: 2,
+  },
+  carInfoTitle: {
+    marginBottom: 8,
+    color: '#666',
+  },
+  carName: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  carDetail: {
+    color: '#666',
+    marginBottom: 4,
+  },
+  formContainer: {
+    margin: 16,
+    padding: 16,
+    borderRadius: 8,
+    elevation: 2,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+    color: '#333',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+  },
+  marginTop: {
+    marginTop: 16,
+  },
+});
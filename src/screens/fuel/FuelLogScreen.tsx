@@ -0,0 +1,304 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
+import { Text, useTheme, Card, Chip, FAB, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RootStackParamList, Car, FuelEntry } from '../../types';
+import { DatabaseService } from '../../services/database';
+import { LineChart } from '../../components/LineChart';
+import {
+  calculateFillConsumptions,
+  formatConsumption,
+  getFuelUnit,
+  summarizeFuelLog,
+} from '../../utils/fuelEfficiency';
+import * as Animatable from 'react-native-animatable';
+
+type FuelLogScreenNavigationProp = StackNavigationProp<RootStackParamList, 'FuelLog'>;
+type FuelLogScreenRouteProp = RouteProp<RootStackParamList, 'FuelLog'>;
+
+interface Props {
+  navigation: FuelLogScreenNavigationProp;
+  route: FuelLogScreenRouteProp;
+}
+
+const toTime = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+export const FuelLogScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { carId } = route.params;
+  const theme = useTheme();
+
+  const [car, setCar] = useState<Car | null>(null);
+  const [entries, setEntries] = useState<FuelEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [carId])
+  );
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [carData, entryData] = await Promise.all([
+        DatabaseService.getCar(carId),
+        DatabaseService.getCarFuelEntries(carId),
+      ]);
+      setCar(carData);
+      setEntries(entryData);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load fuel log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  if (loading && !car) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!car) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.centerContent}>
+          <Text>Car not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const unit = getFuelUnit(car);
+  const isElectric = unit === 'kWh';
+  const summary = summarizeFuelLog(entries, unit);
+  const consumptions = calculateFillConsumptions(entries);
+  const consumptionById = new Map(consumptions.map(item => [item.entryId, item]));
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+  const chartPoints = consumptions.map(item => ({
+    x: toTime(entriesById.get(item.entryId)?.fillDate || ''),
+    y: item.consumption,
+  }));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Animatable.View animation="fadeInDown" duration={600}>
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                {car.make} {car.model} {isElectric ? 'Charging' : 'Fuel'} Summary
+              </Text>
+              <View style={styles.statsGrid}>
+                <View style={styles.statItem}>
+                  <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                    {formatConsumption(summary.averageConsumption, unit)}
+                  </Text>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Average
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                    {formatConsumption(summary.recentConsumption, unit)}
+                  </Text>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Recent
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                    €{summary.totalCost.toFixed(2)}
+                  </Text>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Total Spent
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text variant="titleLarge" style={[styles.statValue, { color: theme.colors.primary }]}>
+                    {summary.costPerKm !== null ? `€${summary.costPerKm.toFixed(2)}` : '-'}
+                  </Text>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Cost per km
+                  </Text>
+                </View>
+              </View>
+
+              {chartPoints.length >= 2 && (
+                <View style={styles.chart}>
+                  <LineChart
+                    points={chartPoints}
+                    formatX={(time) => new Date(time).toLocaleDateString('en-GB', { month: 'short', year: '2-digit' })}
+                    formatY={(value) => `${value.toFixed(1)} ${unit}/100 km`}
+                  />
+                </View>
+              )}
+            </Card.Content>
+          </Card>
+        </Animatable.View>
+
+        {entries.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialCommunityIcons
+              name={isElectric ? 'ev-station' : 'gas-station'}
+              size={64}
+              color={theme.colors.onSurfaceVariant}
+            />
+            <Text variant="titleMedium" style={[styles.emptyTitle, { color: theme.colors.onSurface }]}>
+              {isElectric ? 'No charges logged yet' : 'No fuel-ups logged yet'}
+            </Text>
+            <Text variant="bodyMedium" style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}>
+              Log every {isElectric ? 'charge' : 'fill-up'} to track consumption. Fill up completely to get a
+              measurement.
+            </Text>
+          </View>
+        ) : (
+          entries.map((entry, index) => {
+            const consumption = consumptionById.get(entry.id);
+            return (
+              <Animatable.View key={entry.id} animation="fadeInUp" duration={600} delay={index * 50}>
+                <Card
+                  style={styles.card}
+                  onPress={() => navigation.navigate('EditFuelEntry', { fuelEntryId: entry.id })}
+                >
+                  <Card.Content>
+                    <View style={styles.entryHeader}>
+                      <Text variant="titleMedium" style={styles.entryTitle}>
+                        {entry.quantity.toFixed(2)} {entry.unit}
+                      </Text>
+                      <Text variant="titleMedium" style={{ color: theme.colors.primary, fontWeight: 'bold' }}>
+                        €{entry.totalCost.toFixed(2)}
+                      </Text>
+                    </View>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      {new Date(toTime(entry.fillDate)).toLocaleDateString('en-GB')} ·{' '}
+                      {entry.odometer.toLocaleString()} km
+                      {entry.station ? ` · ${entry.station}` : ''}
+                    </Text>
+                    <View style={styles.chipRow}>
+                      {!entry.fullTank && (
+                        <Chip compact icon="gauge-low" style={styles.chip}>
+                          Partial
+                        </Chip>
+                      )}
+                      {consumption && (
+                        <Chip compact icon="chart-line" style={styles.chip}>
+                          {formatConsumption(consumption.consumption, entry.unit)}
+                        </Chip>
+                      )}
+                      {entry.pricePerUnit !== undefined && (
+                        <Chip compact icon="tag-outline" style={styles.chip}>
+                          €{entry.pricePerUnit.toFixed(3)}/{entry.unit}
+                        </Chip>
+                      )}
+                    </View>
+                  </Card.Content>
+                </Card>
+              </Animatable.View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <FAB
+        icon="plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => navigation.navigate('AddFuelEntry', { carId })}
+        label={isElectric ? 'Add Charge' : 'Add Fuel-Up'}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  statItem: {
+    width: '50%',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statValue: {
+    fontWeight: 'bold',
+  },
+  chart: {
+    marginTop: 8,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  entryTitle: {
+    fontWeight: 'bold',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    alignSelf: 'flex-start',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyTitle: {
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+  },
+});
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl, Image, Alert } from 'react-native';
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Image, Alert } from 'react-native';
 import {
   Surface,
   Text,
@@ -13,10 +13,10 @@ import {
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { useFocusEffect } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { useAuth } from '../../context/AuthContext';
-import { DatabaseService } from '../../services/database';
+import { useCars } from '../../hooks/useCars';
+import { CarDeletionService, CarDeletionProgress } from '../../services/carDeletion';
+import { ProgressDialog } from '../../components/ProgressDialog';
 import { Car, RootStackParamList } from '../../types';
 import * as Animatable from 'react-native-animatable';
 
@@ -28,54 +28,20 @@ interface Props {
 
 const CarsScreen: React.FC<Props> = ({ navigation }) => {
   const theme = useTheme();
-  const { user } = useAuth();
-  const [cars, setCars] = useState<Car[]>([]);
-  const [filteredCars, setFilteredCars] = useState<Car[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  const { cars, loading } = useCars();
   const [searchQuery, setSearchQuery] = useState('');
+  const [deleteProgress, setDeleteProgress] = useState<CarDeletionProgress | null>(null);
 
-  const loadCars = async () => {
-    if (!user) return;
-
-    try {
-      const userCars = await DatabaseService.getUserCars(user.id);
-      setCars(userCars);
-      setFilteredCars(userCars);
-    } catch (error) {
-      // Silently handle error
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  useFocusEffect(
-    useCallback(() => {
-      loadCars();
-    }, [user])
-  );
-
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadCars();
-  };
-
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    if (query.trim() === '') {
-      setFilteredCars(cars);
-    } else {
-      const filtered = cars.filter(
+  const query = searchQuery.trim().toLowerCase();
+  const filteredCars = query === ''
+    ? cars
+    : cars.filter(
         (car) =>
-          car.make.toLowerCase().includes(query.toLowerCase()) ||
-          car.model.toLowerCase().includes(query.toLowerCase()) ||
+          car.make.toLowerCase().includes(query) ||
+          car.model.toLowerCase().includes(query) ||
           car.year.toString().includes(query) ||
-          car.licensePlate?.toLowerCase().includes(query.toLowerCase())
+          car.licensePlate?.toLowerCase().includes(query)
       );
-      setFilteredCars(filtered);
-    }
-  };
 
   const handleAddCar = () => {
     navigation.navigate('AddCar');
@@ -114,7 +80,7 @@ const CarsScreen: React.FC<Props> = ({ navigation }) => {
   const handleDeleteCar = (car: Car) => {
     Alert.alert(
       'Delete Car',
-      `Are you sure you want to delete ${car.make} ${car.model}? This action cannot be undone.`,
+      `Are you sure you want to delete ${car.make} ${car.model}? Its maintenance records, odometer and fuel logs, reminders and photos will be deleted as well. This action cannot be undone.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -122,10 +88,11 @@ const CarsScreen: React.FC<Props> = ({ navigation }) => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await DatabaseService.deleteCar(car.id);
-              loadCars(); // Reload the list
+              await CarDeletionService.deleteCar(car, { onProgress: setDeleteProgress });
             } catch (error) {
-              Alert.alert('Error', 'Failed to delete car');
+              Alert.alert('Error', 'Failed to delete car. Please try again to remove the remaining data.');
+            } finally {
+              setDeleteProgress(null);
             }
           },
         },
@@ -250,7 +217,7 @@ const CarsScreen: React.FC<Props> = ({ navigation }) => {
         <Animatable.View animation="fadeInDown" duration={800} style={styles.searchContainer}>
           <Searchbar
             placeholder="Search cars..."
-            onChangeText={handleSearch}
+            onChangeText={setSearchQuery}
             value={searchQuery}
             style={styles.searchbar}
           />
@@ -263,9 +230,6 @@ const CarsScreen: React.FC<Props> = ({ navigation }) => {
         <>
           <ScrollView
             contentContainerStyle={styles.scrollContent}
-            refreshControl={
-              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-            }
             showsVerticalScrollIndicator={false}
           >
             <Animatable.View animation="fadeInDown" duration={800}>
@@ -297,6 +261,13 @@ const CarsScreen: React.FC<Props> = ({ navigation }) => {
           />
         </>
       )}
+
+      <ProgressDialog
+        visible={deleteProgress !== null}
+        title="Deleting Car"
+        label={deleteProgress?.label}
+        progress={deleteProgress ? deleteProgress.completedSteps / deleteProgress.totalSteps : 0}
+      />
     </SafeAreaView>
   );
 };
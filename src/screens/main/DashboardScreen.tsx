@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import React, { useMemo } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
 import {
   Surface,
   Text,
@@ -16,8 +16,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useAuth } from '../../context/AuthContext';
-import { DatabaseService } from '../../services/database';
+import { calculateDashboardStats } from '../../services/carStatistics';
+import { useCars } from '../../hooks/useCars';
+import { useMaintenanceRecordsForCars } from '../../hooks/useMaintenanceRecords';
 import { RootStackParamList } from '../../types';
+import { SyncStatusIndicator } from '../../components/SyncStatusIndicator';
 import * as Animatable from 'react-native-animatable';
 
 type DashboardScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MainTabs'>;
@@ -26,48 +29,16 @@ interface Props {
   navigation: DashboardScreenNavigationProp;
 }
 
-interface DashboardStats {
-  totalCars: number;
-  totalMaintenanceRecords: number;
-  totalMaintenanceCost: number;
-  upcomingMaintenance: number;
-}
-
 const DashboardScreen: React.FC<Props> = ({ navigation }) => {
   const theme = useTheme();
   const { user } = useAuth();
-  
-  const [stats, setStats] = useState<DashboardStats>({
-    totalCars: 0,
-    totalMaintenanceRecords: 0,
-    totalMaintenanceCost: 0,
-    upcomingMaintenance: 0,
-  });
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-
-  const loadDashboardData = async () => {
-    if (!user) return;
-    
-    try {
-      const dashboardStats = await DatabaseService.getDashboardStats(user.id);
-      setStats(dashboardStats);
-    } catch (error) {
-      // Silently handle error
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadDashboardData();
-  }, [user]);
+  const { cars, loading: carsLoading } = useCars();
+  const carIds = useMemo(() => cars.map(car => car.id), [cars]);
+  const { records, loading: recordsLoading } = useMaintenanceRecordsForCars(carIds);
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadDashboardData();
-    setRefreshing(false);
-  };
+  // Both lists are live, so the statistics follow changes to cars and records from any device
+  const stats = useMemo(() => calculateDashboardStats(cars, records), [cars, records]);
+  const loading = carsLoading || recordsLoading;
 
   const handleAddCar = () => {
     navigation.navigate('AddCar');
@@ -113,9 +84,6 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <ScrollView 
         contentContainerStyle={styles.scrollContent}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
         showsVerticalScrollIndicator={false}
       >
         {/* Header */}
@@ -146,6 +114,8 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         </Animatable.View>
 
+        <SyncStatusIndicator />
+
         {/* Quick Stats */}
         <Animatable.View animation="fadeInUp" duration={800} delay={200}>
           <Card style={[styles.statsCard, { backgroundColor: theme.colors.surface }]}>
@@ -216,6 +186,14 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                   </View>
                 </View>
               </View>
+
+              <Chip 
+                icon="chart-bar" 
+                onPress={() => navigation.navigate('Analytics')}
+                style={styles.viewCalendarChip}
+              >
+                View Spending Analytics
+              </Chip>
             </Card.Content>
           </Card>
         </Animatable.View>
@@ -236,17 +214,26 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                     color={theme.colors.secondary} 
                   />
                   <Text variant="bodyLarge" style={[styles.alertText, { color: theme.colors.onSurface }]}>
-                    You have {stats.upcomingMaintenance} upcoming maintenance{stats.upcomingMaintenance > 1 ? 's' : ''}
+                    You have {stats.upcomingMaintenance} maintenance item{stats.upcomingMaintenance > 1 ? 's' : ''} due by date or mileage
                   </Text>
                 </View>
                 
-                <Chip 
-                  icon="calendar" 
-                  onPress={() => navigation.navigate('Calendar')}
-                  style={styles.viewCalendarChip}
-                >
-                  View Calendar
-                </Chip>
+                <View style={styles.maintenanceChips}>
+                  <Chip 
+                    icon="bell-alert" 
+                    onPress={() => navigation.navigate('Notifications')}
+                    style={styles.viewCalendarChip}
+                  >
+                    View Due Items
+                  </Chip>
+                  <Chip 
+                    icon="calendar" 
+                    onPress={() => navigation.navigate('Calendar')}
+                    style={styles.viewCalendarChip}
+                  >
+                    View Calendar
+                  </Chip>
+                </View>
               </Card.Content>
             </Card>
           </Animatable.View>
@@ -402,6 +389,11 @@ const styles = StyleSheet.create({
   viewCalendarChip: {
     alignSelf: 'flex-start',
   },
+  maintenanceChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   quickActions: {
     flexDirection: 'row',
     justifyContent: 'space-around',
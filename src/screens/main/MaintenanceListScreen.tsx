@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity } from 'react-native';
 import {
   Surface,
@@ -9,6 +9,7 @@ import {
   IconButton,
   Searchbar,
   ActivityIndicator,
+  SegmentedButtons,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -16,7 +17,9 @@ import { useFocusEffect } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useAuth } from '../../context/AuthContext';
 import { DatabaseService } from '../../services/database';
-import { Car, RootStackParamList } from '../../types';
+import { Car, MaintenanceFilters, MaintenanceRecord, MaintenanceSortOption, RootStackParamList } from '../../types';
+import { MaintenanceFilterPanel } from '../../components/MaintenanceFilterPanel';
+import { getCategoryIcon, getRecordCategory } from '../../utils/maintenanceCategories';
 import * as Animatable from 'react-native-animatable';
 
 type MaintenanceListScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MainTabs'>;
@@ -37,6 +40,15 @@ export const MaintenanceListScreen: React.FC<Props> = ({ navigation }) => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [view, setView] = useState<'cars' | 'records'>('cars');
+  const [records, setRecords] = useState<MaintenanceRecord[]>([]);
+  const [filters, setFilters] = useState<MaintenanceFilters>({});
+  const [sortBy, setSortBy] = useState<MaintenanceSortOption>('dateDesc');
+
+  // Reloads triggered by focus or pull-to-refresh use the latest filters
+  const querySettings = useRef({ filters, sortBy });
+  querySettings.current = { filters, sortBy };
+  const isFirstQuery = useRef(true);
 
   useFocusEffect(
     useCallback(() => {
@@ -44,6 +56,27 @@ export const MaintenanceListScreen: React.FC<Props> = ({ navigation }) => {
     }, [user])
   );
 
+  useEffect(() => {
+    if (isFirstQuery.current) {
+      isFirstQuery.current = false;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      loadRecords(cars).catch(() => setRecords([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [filters, sortBy]);
+
+  const loadRecords = async (carsData: Car[]) => {
+    const results = await DatabaseService.queryMaintenanceRecords(
+      carsData.map(car => car.id),
+      querySettings.current.filters,
+      querySettings.current.sortBy
+    );
+    setRecords(results);
+  };
+
   const loadCars = async () => {
     if (!user) return;
 
@@ -53,16 +86,14 @@ export const MaintenanceListScreen: React.FC<Props> = ({ navigation }) => {
       const carsData = await DatabaseService.getUserCars(user.id);
 
       const carsWithCounts = await Promise.all(
-        carsData.map(async (car) => {
-          const records = await DatabaseService.getCarMaintenanceRecords(car.id);
-          return {
-            ...car,
-            recordCount: records.length,
-          };
-        })
+        carsData.map(async (car) => ({
+          ...car,
+          recordCount: await DatabaseService.getCarMaintenanceRecordCount(car.id),
+        }))
       );
 
       setCars(carsWithCounts);
+      await loadRecords(carsData);
     } catch (error) {
       // Silently handle error
     } finally {
@@ -80,6 +111,17 @@ export const MaintenanceListScreen: React.FC<Props> = ({ navigation }) => {
     navigation.navigate('MaintenanceList', { carId });
   };
 
+  const carsById = new Map(cars.map(car => [car.id, car]));
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
   const filteredCars = cars.filter((car) => {
     const searchLower = searchQuery.toLowerCase();
     return (
@@ -116,107 +158,182 @@ export const MaintenanceListScreen: React.FC<Props> = ({ navigation }) => {
             Maintenance Records
           </Text>
           <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, marginTop: 4 }}>
-            Select a car to view its maintenance history
+            {view === 'cars'
+              ? 'Select a car to view its maintenance history'
+              : 'Search and filter the records of all your cars'}
           </Text>
         </Animatable.View>
 
-        {/* Search Bar */}
-        <Animatable.View animation="fadeIn" duration={800} delay={200}>
-          <Searchbar
-            placeholder="Search by make, model, type, license plate..."
-            onChangeText={setSearchQuery}
-            value={searchQuery}
-            style={styles.searchBar}
-          />
-        </Animatable.View>
+        <SegmentedButtons
+          value={view}
+          onValueChange={(value) => setView(value as 'cars' | 'records')}
+          buttons={[
+            { value: 'cars', label: 'By Car', icon: 'car' },
+            { value: 'records', label: 'All Records', icon: 'format-list-bulleted' },
+          ]}
+          style={styles.viewToggle}
+        />
 
-        {/* Cars List */}
-        {filteredCars.length === 0 ? (
-          <Animatable.View animation="fadeIn" duration={800} delay={400}>
-            <Card style={styles.emptyCard}>
-              <Card.Content style={styles.emptyContent}>
-                <MaterialCommunityIcons name="car-off" size={64} color={theme.colors.onSurfaceVariant} />
-                <Text variant="titleLarge" style={[styles.emptyTitle, { color: theme.colors.onSurface }]}>
-                  {searchQuery ? 'No Matching Cars' : 'No Cars Found'}
-                </Text>
-                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
-                  {searchQuery
-                    ? 'Try adjusting your search terms'
-                    : 'Add a car to start tracking maintenance records'}
-                </Text>
-              </Card.Content>
-            </Card>
-          </Animatable.View>
-        ) : (
-          filteredCars.map((car, index) => (
-            <Animatable.View
-              key={car.id}
-              animation="fadeInUp"
-              duration={600}
-              delay={400 + index * 100}
-            >
-              <TouchableOpacity onPress={() => handleCarPress(car.id)}>
-                <Card style={styles.carCard}>
-                  <Card.Content>
-                    <View style={styles.carHeader}>
-                      <View style={styles.carIcon}>
-                        <MaterialCommunityIcons name="car" size={40} color={theme.colors.primary} />
-                      </View>
-                      <View style={styles.carInfo}>
-                        <Text variant="titleLarge" style={[styles.carName, { color: theme.colors.onSurface }]}>
-                          {car.make} {car.model}
-                        </Text>
-                        <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-                          {car.year}
-                        </Text>
-                        <View style={styles.carDetails}>
-                          <Chip 
-                            icon="card-text" 
-                            style={styles.chip}
-                            textStyle={styles.chipText}
-                          >
-                            {car.licensePlate}
-                          </Chip>
-                          <Chip 
-                            icon="shape" 
-                            style={styles.chip}
-                            textStyle={styles.chipText}
-                          >
-                            {car.subType}
-                          </Chip>
-                        </View>
-                      </View>
-                      <View style={styles.carStats}>
-                        <View style={styles.recordBadge}>
-                          <MaterialCommunityIcons name="wrench" size={20} color={theme.colors.primary} />
-                          <Text variant="titleMedium" style={[styles.recordCount, { color: theme.colors.primary }]}>
-                            {car.recordCount || 0}
+        {view === 'records' ? (
+          <>
+            <MaintenanceFilterPanel
+              filters={filters}
+              sortBy={sortBy}
+              onFiltersChange={setFilters}
+              onSortChange={setSortBy}
+              resultCount={records.length}
+            />
+
+            {records.length === 0 ? (
+              <Card style={styles.emptyCard}>
+                <Card.Content style={styles.emptyContent}>
+                  <MaterialCommunityIcons name="filter-remove-outline" size={64} color={theme.colors.onSurfaceVariant} />
+                  <Text variant="titleLarge" style={[styles.emptyTitle, { color: theme.colors.onSurface }]}>
+                    No Matching Records
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
+                    Try adjusting your search or filters
+                  </Text>
+                </Card.Content>
+              </Card>
+            ) : (
+              records.map((record) => {
+                const car = carsById.get(record.carId);
+                return (
+                  <TouchableOpacity
+                    key={record.id}
+                    onPress={() => navigation.navigate('MaintenanceDetails', { maintenanceId: record.id })}
+                  >
+                    <Card style={styles.recordCard}>
+                      <Card.Content style={styles.recordContent}>
+                        <MaterialCommunityIcons
+                          name={getCategoryIcon(getRecordCategory(record)) as keyof typeof MaterialCommunityIcons.glyphMap}
+                          size={28}
+                          color={theme.colors.primary}
+                        />
+                        <View style={styles.recordInfo}>
+                          <Text variant="titleMedium" style={{ color: theme.colors.onSurface }} numberOfLines={1}>
+                            {record.description}
+                          </Text>
+                          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                            {formatDate(record.maintenanceDate)}
+                            {car ? ` • ${car.make} ${car.model}` : ''}
+                            {record.performedBy ? ` • ${record.performedBy}` : ''}
                           </Text>
                         </View>
-                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
-                          {car.recordCount === 1 ? 'Record' : 'Records'}
-                        </Text>
-                      </View>
-                    </View>
+                        {record.cost !== undefined && (
+                          <Text variant="titleSmall" style={{ color: theme.colors.primary, fontWeight: 'bold' }}>
+                            €{record.cost.toFixed(2)}
+                          </Text>
+                        )}
+                      </Card.Content>
+                    </Card>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </>
+        ) : (
+          <>
+            {/* Search Bar */}
+            <Animatable.View animation="fadeIn" duration={800} delay={200}>
+              <Searchbar
+                placeholder="Search by make, model, type, license plate..."
+                onChangeText={setSearchQuery}
+                value={searchQuery}
+                style={styles.searchBar}
+              />
+            </Animatable.View>
 
-                    <View style={styles.carFooter}>
-                      <View style={styles.mileageInfo}>
-                        <MaterialCommunityIcons name="speedometer" size={16} color={theme.colors.onSurfaceVariant} />
-                        <Text variant="bodySmall" style={[styles.mileageText, { color: theme.colors.onSurfaceVariant }]}>
-                          {car.mileage.toLocaleString()} km
-                        </Text>
-                      </View>
-                      <IconButton
-                        icon="chevron-right"
-                        size={24}
-                        iconColor={theme.colors.onSurfaceVariant}
-                      />
-                    </View>
+            {/* Cars List */}
+            {filteredCars.length === 0 ? (
+              <Animatable.View animation="fadeIn" duration={800} delay={400}>
+                <Card style={styles.emptyCard}>
+                  <Card.Content style={styles.emptyContent}>
+                    <MaterialCommunityIcons name="car-off" size={64} color={theme.colors.onSurfaceVariant} />
+                    <Text variant="titleLarge" style={[styles.emptyTitle, { color: theme.colors.onSurface }]}>
+                      {searchQuery ? 'No Matching Cars' : 'No Cars Found'}
+                    </Text>
+                    <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
+                      {searchQuery
+                        ? 'Try adjusting your search terms'
+                        : 'Add a car to start tracking maintenance records'}
+                    </Text>
                   </Card.Content>
                 </Card>
-              </TouchableOpacity>
-            </Animatable.View>
-          ))
+              </Animatable.View>
+            ) : (
+              filteredCars.map((car, index) => (
+                <Animatable.View
+                  key={car.id}
+                  animation="fadeInUp"
+                  duration={600}
+                  delay={400 + index * 100}
+                >
+                  <TouchableOpacity onPress={() => handleCarPress(car.id)}>
+                    <Card style={styles.carCard}>
+                      <Card.Content>
+                        <View style={styles.carHeader}>
+                          <View style={styles.carIcon}>
+                            <MaterialCommunityIcons name="car" size={40} color={theme.colors.primary} />
+                          </View>
+                          <View style={styles.carInfo}>
+                            <Text variant="titleLarge" style={[styles.carName, { color: theme.colors.onSurface }]}>
+                              {car.make} {car.model}
+                            </Text>
+                            <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                              {car.year}
+                            </Text>
+                            <View style={styles.carDetails}>
+                              <Chip 
+                                icon="card-text" 
+                                style={styles.chip}
+                                textStyle={styles.chipText}
+                              >
+                                {car.licensePlate}
+                              </Chip>
+                              <Chip 
+                                icon="shape" 
+                                style={styles.chip}
+                                textStyle={styles.chipText}
+                              >
+                                {car.subType}
+                              </Chip>
+                            </View>
+                          </View>
+                          <View style={styles.carStats}>
+                            <View style={styles.recordBadge}>
+                              <MaterialCommunityIcons name="wrench" size={20} color={theme.colors.primary} />
+                              <Text variant="titleMedium" style={[styles.recordCount, { color: theme.colors.primary }]}>
+                                {car.recordCount || 0}
+                              </Text>
+                            </View>
+                            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
+                              {car.recordCount === 1 ? 'Record' : 'Records'}
+                            </Text>
+                          </View>
+                        </View>
+
+                        <View style={styles.carFooter}>
+                          <View style={styles.mileageInfo}>
+                            <MaterialCommunityIcons name="speedometer" size={16} color={theme.colors.onSurfaceVariant} />
+                            <Text variant="bodySmall" style={[styles.mileageText, { color: theme.colors.onSurfaceVariant }]}>
+                              {car.mileage.toLocaleString()} km
+                            </Text>
+                          </View>
+                          <IconButton
+                            icon="chevron-right"
+                            size={24}
+                            iconColor={theme.colors.onSurfaceVariant}
+                          />
+                        </View>
+                      </Card.Content>
+                    </Card>
+                  </TouchableOpacity>
+                </Animatable.View>
+              ))
+            )}
+          </>
         )}
       </ScrollView>
     </SafeAreaView>
@@ -245,6 +362,21 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     elevation: 2,
   },
+  viewToggle: {
+    marginBottom: 16,
+  },
+  recordCard: {
+    marginBottom: 8,
+    elevation: 2,
+  },
+  recordContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  recordInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
   emptyCard: {
     marginTop: 32,
     elevation: 2,
@@ -12,19 +12,46 @@ import {
   Portal,
   Card,
   Switch,
+  IconButton,
+  TextInput,
+  HelperText,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useAuth } from '../../context/AuthContext';
 import { useThemeContext } from '../../context/ThemeContext';
+import { useUsernameAvailability } from '../../hooks/useUsernameAvailability';
+import { useReauthentication } from '../../hooks/useReauthentication';
+import { ReauthenticateDialog } from '../../components/ReauthenticateDialog';
+import { AuthService } from '../../services/auth';
+import { normalizeUsername } from '../../utils/username';
 import * as Animatable from 'react-native-animatable';
 
 const ProfileScreen: React.FC = () => {
   const theme = useTheme();
-  const { user, signOut } = useAuth();
+  const { user, signOut, changeUsername, updateEmail, updatePassword } = useAuth();
   const { isDarkMode, toggleTheme } = useThemeContext();
   const [logoutDialogVisible, setLogoutDialogVisible] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [usernameDialogVisible, setUsernameDialogVisible] = useState(false);
+  const [newUsername, setNewUsername] = useState('');
+  const [savingUsername, setSavingUsername] = useState(false);
+  const usernameAvailability = useUsernameAvailability(newUsername);
+  const [emailDialogVisible, setEmailDialogVisible] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [passwordDialogVisible, setPasswordDialogVisible] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const { withReauthentication, dialogProps: reauthenticateDialogProps } = useReauthentication();
+
+  // Accounts that only use Google or Apple have no password to change
+  const hasPassword = AuthService.getSignInProviders().includes('password');
+
+  const usernameUnchanged = normalizeUsername(newUsername) === user?.username;
 
   const handleLogout = async () => {
     setLoading(true);
@@ -41,6 +68,90 @@ const ProfileScreen: React.FC = () => {
   const showLogoutDialog = () => setLogoutDialogVisible(true);
   const hideLogoutDialog = () => setLogoutDialogVisible(false);
 
+  const showUsernameDialog = () => {
+    setNewUsername(user?.username || '');
+    setUsernameDialogVisible(true);
+  };
+  const hideUsernameDialog = () => setUsernameDialogVisible(false);
+
+  const handleChangeUsername = async () => {
+    setSavingUsername(true);
+    try {
+      await changeUsername(newUsername);
+      setUsernameDialogVisible(false);
+      Alert.alert('Success', 'Your username has been changed');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to change username. Please try again.');
+    } finally {
+      setSavingUsername(false);
+    }
+  };
+
+  const showEmailDialog = () => {
+    setNewEmail(user?.email || '');
+    setEmailError('');
+    setEmailDialogVisible(true);
+  };
+  const hideEmailDialog = () => setEmailDialogVisible(false);
+
+  const handleChangeEmail = async () => {
+    const email = newEmail.trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setEmailError('Please enter a valid email address');
+      return;
+    }
+    if (email.toLowerCase() === user?.email) {
+      setEmailError('This is your current email');
+      return;
+    }
+
+    setSavingEmail(true);
+    setEmailError('');
+    try {
+      await withReauthentication(() => updateEmail(email));
+      setEmailDialogVisible(false);
+      Alert.alert(
+        'Confirm Your New Email',
+        `We sent a confirmation link to ${email}. Your email changes once you open it, after that sign in with the new address.`
+      );
+    } catch (error: any) {
+      setEmailError(error.message || 'Failed to change email. Please try again.');
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const showPasswordDialog = () => {
+    setNewPassword('');
+    setConfirmPassword('');
+    setPasswordError('');
+    setPasswordDialogVisible(true);
+  };
+  const hidePasswordDialog = () => setPasswordDialogVisible(false);
+
+  const handleChangePassword = async () => {
+    if (newPassword.length < 6) {
+      setPasswordError('Password must be at least 6 characters');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+
+    setSavingPassword(true);
+    setPasswordError('');
+    try {
+      await withReauthentication(() => updatePassword(newPassword));
+      setPasswordDialogVisible(false);
+      Alert.alert('Success', 'Your password has been changed');
+    } catch (error: any) {
+      setPasswordError(error.message || 'Failed to change password. Please try again.');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -71,6 +182,24 @@ const ProfileScreen: React.FC = () => {
           </Card>
         </Animatable.View>
 
+        {/* Duplicate username found by the username migration */}
+        {user?.usernameConflict && (
+          <Card style={[styles.card, { backgroundColor: theme.colors.errorContainer }]}>
+            <Card.Content>
+              <Text variant="titleSmall" style={{ color: theme.colors.onErrorContainer, fontWeight: 'bold' }}>
+                Choose a New Username
+              </Text>
+              <Text variant="bodyMedium" style={[styles.conflictText, { color: theme.colors.onErrorContainer }]}>
+                Another account already uses @{user.username}, so you can't sign in with it. Pick a new
+                username or keep signing in with your email.
+              </Text>
+              <Button mode="contained" onPress={showUsernameDialog} style={styles.conflictButton}>
+                Change Username
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
         {/* Account Information */}
         <Animatable.View animation="fadeInUp" duration={800} delay={200}>
           <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
@@ -97,10 +226,21 @@ const ProfileScreen: React.FC = () => {
               />
               <Divider />
 
+              <List.Item
+                title="Username"
+                description={user?.username ? `@${user.username}` : 'Not set'}
+                left={props => <List.Icon {...props} icon="account-circle" />}
+                right={() => <IconButton icon="pencil" size={20} onPress={showUsernameDialog} />}
+                titleStyle={{ color: theme.colors.onSurface }}
+                descriptionStyle={{ color: theme.colors.onSurfaceVariant }}
+              />
+              <Divider />
+
               <List.Item
                 title="Email"
                 description={user?.email || 'Not set'}
                 left={props => <List.Icon {...props} icon="email" />}
+                right={() => <IconButton icon="pencil" size={20} onPress={showEmailDialog} />}
                 titleStyle={{ color: theme.colors.onSurface }}
                 descriptionStyle={{ color: theme.colors.onSurfaceVariant }}
               />
@@ -143,6 +283,29 @@ const ProfileScreen: React.FC = () => {
           </Card>
         </Animatable.View>
 
+        {/* Security */}
+        {hasPassword && (
+          <Animatable.View animation="fadeInUp" duration={800} delay={300}>
+            <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <Card.Content>
+                <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                  Security
+                </Text>
+
+                <List.Item
+                  title="Change Password"
+                  description="Update the password you sign in with"
+                  left={props => <List.Icon {...props} icon="lock-reset" />}
+                  right={props => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={showPasswordDialog}
+                  titleStyle={{ color: theme.colors.onSurface }}
+                  descriptionStyle={{ color: theme.colors.onSurfaceVariant }}
+                />
+              </Card.Content>
+            </Card>
+          </Animatable.View>
+        )}
+
         {/* App Settings */}
         <Animatable.View animation="fadeInUp" duration={800} delay={400}>
           <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
@@ -208,7 +371,126 @@ const ProfileScreen: React.FC = () => {
             </Button>
           </Dialog.Actions>
         </Dialog>
+
+        {/* Change Username Dialog */}
+        <Dialog visible={usernameDialogVisible} onDismiss={hideUsernameDialog}>
+          <Dialog.Icon icon="account-edit" />
+          <Dialog.Title>Change Username</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Username"
+              value={newUsername}
+              onChangeText={setNewUsername}
+              mode="outlined"
+              autoCapitalize="none"
+              autoCorrect={false}
+              disabled={savingUsername}
+              error={usernameAvailability.status === 'taken' || usernameAvailability.status === 'invalid'}
+              left={<TextInput.Icon icon="account-circle" />}
+            />
+            <HelperText
+              type={usernameAvailability.status === 'available' || usernameUnchanged ? 'info' : 'error'}
+              visible={!!usernameAvailability.message}
+            >
+              {usernameUnchanged ? 'This is your current username' : usernameAvailability.message}
+            </HelperText>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={hideUsernameDialog} disabled={savingUsername}>
+              Cancel
+            </Button>
+            <Button
+              onPress={handleChangeUsername}
+              loading={savingUsername}
+              disabled={
+                savingUsername ||
+                usernameUnchanged ||
+                (usernameAvailability.status !== 'available' && usernameAvailability.status !== 'error')
+              }
+            >
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        {/* Change Email Dialog */}
+        <Dialog visible={emailDialogVisible} onDismiss={savingEmail ? undefined : hideEmailDialog}>
+          <Dialog.Icon icon="email-edit" />
+          <Dialog.Title>Change Email</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="New Email"
+              value={newEmail}
+              onChangeText={setNewEmail}
+              mode="outlined"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+              disabled={savingEmail}
+              error={!!emailError}
+              left={<TextInput.Icon icon="email" />}
+            />
+            <HelperText type={emailError ? 'error' : 'info'} visible>
+              {emailError || "You'll need to verify the new address before continuing"}
+            </HelperText>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={hideEmailDialog} disabled={savingEmail}>
+              Cancel
+            </Button>
+            <Button onPress={handleChangeEmail} loading={savingEmail} disabled={savingEmail}>
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        {/* Change Password Dialog */}
+        <Dialog visible={passwordDialogVisible} onDismiss={savingPassword ? undefined : hidePasswordDialog}>
+          <Dialog.Icon icon="lock-reset" />
+          <Dialog.Title>Change Password</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="New Password"
+              value={newPassword}
+              onChangeText={setNewPassword}
+              mode="outlined"
+              secureTextEntry
+              autoComplete="password-new"
+              disabled={savingPassword}
+              error={!!passwordError}
+              left={<TextInput.Icon icon="lock" />}
+              style={styles.dialogInput}
+            />
+            <TextInput
+              label="Confirm New Password"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              mode="outlined"
+              secureTextEntry
+              autoComplete="password-new"
+              disabled={savingPassword}
+              error={!!passwordError}
+              left={<TextInput.Icon icon="lock-check" />}
+            />
+            <HelperText type="error" visible={!!passwordError}>
+              {passwordError}
+            </HelperText>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={hidePasswordDialog} disabled={savingPassword}>
+              Cancel
+            </Button>
+            <Button onPress={handleChangePassword} loading={savingPassword} disabled={savingPassword}>
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
       </Portal>
+
+      <ReauthenticateDialog
+        {...reauthenticateDialogProps}
+        message="For your security, please confirm it is you before changing your sign-in details."
+      />
     </SafeAreaView>
   );
 };
@@ -242,10 +524,20 @@ const styles = StyleSheet.create({
   username: {
     marginTop: 4,
   },
+  conflictText: {
+    marginTop: 4,
+  },
+  conflictButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
   card: {
     marginBottom: 16,
     elevation: 4,
   },
+  dialogInput: {
+    marginBottom: 8,
+  },
   sectionTitle: {
     fontWeight: 'bold',
     marginBottom: 8,
@@ -13,10 +13,17 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
-import { RootStackParamList, Car } from '../../types';
+import { RootStackParamList, OdometerReading, MaintenanceCategory, Car } from '../../types';
 import { DatabaseService } from '../../services/database';
+import { describeOdometerConflict, findOdometerConflict } from '../../utils/odometer';
 import { useAuth } from '../../context/AuthContext';
+import { LineItemDraft, fromLineItemDrafts, getLineItemTotals, validateLineItemDrafts } from '../../utils/lineItems';
 import { DatePicker } from '../../components/DatePicker';
+import { MaintenanceCategoryPicker } from '../../components/MaintenanceCategoryPicker';
+import { MaintenancePhotosField } from '../../components/MaintenancePhotosField';
+import { LineItemsEditor } from '../../components/LineItemsEditor';
+import { ImageUploadService } from '../../services/imageUpload';
+import { ReceiptRecognitionService } from '../../services/receiptRecognition';
 
 type AddMaintenanceScreenNavigationProp = StackNavigationProp<RootStackParamList, 'AddMaintenance'>;
 type AddMaintenanceScreenRouteProp = RouteProp<RootStackParamList, 'AddMaintenance'>;
@@ -33,14 +40,19 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
 
   const [car, setCar] = useState<Car | null>(null);
   const [loading, setLoading] = useState(false);
+  const [scanning, setScanning] = useState(false);
   const [loadingCar, setLoadingCar] = useState(true);
 
   const [maintenanceDate, setMaintenanceDate] = useState(new Date().toISOString().split('T')[0]);
   const [mileage, setMileage] = useState('');
   const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<MaintenanceCategory | ''>('');
   const [performedBy, setPerformedBy] = useState('');
   const [cost, setCost] = useState('');
   const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([]);
+  const [odometerReadings, setOdometerReadings] = useState<OdometerReading[]>([]);
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
@@ -58,6 +70,10 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
           setMileage(carData.mileage.toString());
         }
       }
+
+      DatabaseService.getCarOdometerReadings(carId)
+        .then(setOdometerReadings)
+        .catch(() => setOdometerReadings([]));
     } catch (error) {
       Alert.alert('Error', 'Failed to load car details');
     } finally {
@@ -65,6 +81,64 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
     }
   };
 
+  const handleScanReceipt = () => {
+    ImageUploadService.showImageSourceDialog(
+      async () => scanReceipt(await ImageUploadService.takePhoto(false)),
+      async () => scanReceipt(await ImageUploadService.pickImage(false)),
+      'Scan Receipt'
+    );
+  };
+
+  const scanReceipt = async (imageUri: string | null) => {
+    if (!imageUri) return;
+
+    try {
+      setScanning(true);
+      const { fields } = await ReceiptRecognitionService.scanReceipt(imageUri);
+      const found: string[] = [];
+
+      if (fields.maintenanceDate) {
+        setMaintenanceDate(fields.maintenanceDate);
+        found.push('date');
+      }
+      if (fields.cost !== undefined) {
+        setCost(fields.cost.toFixed(2));
+        found.push('total cost');
+      }
+      if (fields.performedBy) {
+        setPerformedBy(fields.performedBy);
+        found.push('workshop');
+      }
+      if (fields.mileage !== undefined) {
+        setMileage(fields.mileage.toString());
+        found.push('mileage');
+      }
+
+      // Keep the scanned receipt with the record
+      setPhotos(prev => (prev.includes(imageUri) ? prev : [...prev, imageUri]));
+
+      if (found.length > 0) {
+        Alert.alert('Receipt Scanned', `Filled in the ${found.join(', ')}. Please check the values before saving.`);
+      } else {
+        Alert.alert('Receipt Scanned', 'No details could be read from this receipt. The photo was attached to the record.');
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to scan receipt');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  // With line items the total cost is their sum rather than typed in
+  const savedLineItems = fromLineItemDrafts(lineItems);
+  const hasLineItems = savedLineItems.length > 0;
+  const lineItemTotals = getLineItemTotals(savedLineItems);
+
+  // The odometer only counts up, so warn about a mileage lower than an earlier reading
+  const mileageConflict = mileage && !isNaN(Number(mileage)) && maintenanceDate
+    ? findOdometerConflict(odometerReadings, maintenanceDate, Number(mileage))
+    : null;
+
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {};
 
@@ -80,10 +154,15 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
       newErrors.mileage = 'Please enter a valid mileage';
     }
 
-    if (cost && (isNaN(Number(cost)) || Number(cost) < 0)) {
+    if (!hasLineItems && cost && (isNaN(Number(cost)) || Number(cost) < 0)) {
       newErrors.cost = 'Please enter a valid cost';
     }
 
+    const lineItemError = validateLineItemDrafts(lineItems);
+    if (lineItemError) {
+      newErrors.lineItems = lineItemError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -99,18 +178,40 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
       return;
     }
 
+    if (mileageConflict) {
+      Alert.alert(
+        'Check Mileage',
+        `${describeOdometerConflict(mileageConflict)} Save the record anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', onPress: () => saveRecord() },
+        ]
+      );
+      return;
+    }
+
+    await saveRecord();
+  };
+
+  const saveRecord = async () => {
+    let imageUrls: string[] = [];
+
     try {
       setLoading(true);
 
+      imageUrls = await Promise.all(photos.map(uri => ImageUploadService.uploadMaintenanceImage(carId, uri)));
+
       const maintenanceData = {
         carId,
         maintenanceDate,
         mileage: mileage ? Number(mileage) : undefined,
         description: description.trim(),
+        category: category || undefined,
         performedBy: performedBy.trim() || undefined,
-        cost: cost ? Number(cost) : undefined,
+        cost: hasLineItems ? lineItemTotals.total : cost ? Number(cost) : undefined,
+        lineItems: hasLineItems ? savedLineItems : undefined,
         notes: notes.trim() || undefined,
-        imageUrls: [],
+        imageUrls,
       };
 
       await DatabaseService.addMaintenanceRecord(maintenanceData);
@@ -122,7 +223,8 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
         },
       ]);
     } catch (error: any) {
-
+      // Don't leave the photos of a record that was never saved in storage
+      await ImageUploadService.deleteImages(imageUrls);
       Alert.alert('Error', error.message || 'Failed to add maintenance record');
     } finally {
       setLoading(false);
@@ -178,6 +280,21 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
         </Card>
 
         <Surface style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <Button
+              mode="contained-tonal"
+              icon="receipt"
+              onPress={handleScanReceipt}
+              loading={scanning}
+              disabled={loading || scanning}
+            >
+              {scanning ? 'Reading Receipt...' : 'Scan Receipt'}
+            </Button>
+            <HelperText type="info">
+              Take a photo of the invoice to fill in the date, cost, workshop and mileage
+            </HelperText>
+          </View>
+
           <View style={styles.inputGroup}>
             <DatePicker
               label="Maintenance Date *"
@@ -205,6 +322,19 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
               right={<TextInput.Affix text="km" />}
             />
             {errors.mileage && <HelperText type="error">{errors.mileage}</HelperText>}
+            {!errors.mileage && mileageConflict && (
+              <HelperText type="info" style={{ color: theme.colors.error }}>
+                {describeOdometerConflict(mileageConflict)}
+              </HelperText>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <MaintenanceCategoryPicker
+              value={category}
+              onValueChange={setCategory}
+              disabled={loading}
+            />
           </View>
 
           <View style={styles.inputGroup}>
@@ -239,15 +369,23 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
             <Text style={styles.label}>Cost/Expense (optional)</Text>
             <TextInput
               mode="outlined"
-              value={cost}
+              value={hasLineItems ? lineItemTotals.total.toFixed(2) : cost}
               onChangeText={setCost}
               placeholder="0.00"
               keyboardType="decimal-pad"
               left={<TextInput.Affix text="€" />}
               error={!!errors.cost}
-              disabled={loading}
+              disabled={loading || hasLineItems}
             />
             {errors.cost && <HelperText type="error">{errors.cost}</HelperText>}
+            {hasLineItems && (
+              <HelperText type="info">Calculated from the parts and labour below</HelperText>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <LineItemsEditor drafts={lineItems} onChange={setLineItems} disabled={loading} />
+            {errors.lineItems && <HelperText type="error">{errors.lineItems}</HelperText>}
           </View>
 
           <View style={styles.inputGroup}>
@@ -263,6 +401,10 @@ export const AddMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <MaintenancePhotosField imageUris={photos} onChange={setPhotos} disabled={loading} />
+          </View>
+
           <View style={styles.buttonContainer}>
             <Button
               mode="outlined"
@@ -1,5 +1,13 @@
-import React, { useState, useCallback } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
 import {
   Text,
   useTheme,
@@ -9,16 +17,23 @@ import {
   Dialog,
   Portal,
   FAB,
+  ActivityIndicator,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { useFocusEffect } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { RootStackParamList, Car, MaintenanceRecord } from '../../types';
-import { DatabaseService } from '../../services/database';
+import { RootStackParamList, Car, MaintenanceRecord, MaintenanceFilters, MaintenanceSortOption } from '../../types';
+import { DatabaseService, PageCursor } from '../../services/database';
+import { SyncStatusIndicator } from '../../components/SyncStatusIndicator';
+import { MaintenanceFilterPanel } from '../../components/MaintenanceFilterPanel';
+import { hasActiveFilters } from '../../utils/maintenanceFilters';
 import * as Animatable from 'react-native-animatable';
 
+// Start loading the next page this far from the bottom of the list
+const LOAD_MORE_THRESHOLD = 400;
+
 type CarMaintenanceRecordsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MaintenanceList'>;
 type CarMaintenanceRecordsScreenRouteProp = RouteProp<RootStackParamList, 'MaintenanceList'>;
 
@@ -38,6 +53,19 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
   const [deleteDialogVisible, setDeleteDialogVisible] = useState(false);
   const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [filters, setFilters] = useState<MaintenanceFilters>({});
+  const [sortBy, setSortBy] = useState<MaintenanceSortOption>('dateDesc');
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Cursor of the next page; null when everything is loaded or a page is loading
+  const pageCursor = useRef<PageCursor | null>(null);
+  // Bumped on every reload so pages requested for an older list are dropped
+  const queryToken = useRef(0);
+
+  // Reloads triggered by focus or pull-to-refresh use the latest filters
+  const querySettings = useRef({ filters, sortBy });
+  querySettings.current = { filters, sortBy };
+  const isFirstQuery = useRef(true);
 
   useFocusEffect(
     useCallback(() => {
@@ -45,6 +73,72 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
     }, [carId])
   );
 
+  useEffect(() => {
+    if (isFirstQuery.current) {
+      isFirstQuery.current = false;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      loadRecords().catch(() => Alert.alert('Error', 'Failed to filter maintenance records'));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [filters, sortBy]);
+
+  const loadRecords = async () => {
+    const { filters, sortBy } = querySettings.current;
+    const token = ++queryToken.current;
+    pageCursor.current = null;
+
+    // Filtering and the other sort orders work on the full list, only the default view is paged
+    if (hasActiveFilters(filters) || sortBy !== 'dateDesc') {
+      const records = await DatabaseService.queryMaintenanceRecords([carId], filters, sortBy);
+      if (token !== queryToken.current) return;
+      setMaintenanceRecords(records);
+      setTotalCount(records.length);
+      return;
+    }
+
+    const [page, count] = await Promise.all([
+      DatabaseService.getCarMaintenanceRecordsPage(carId),
+      DatabaseService.getCarMaintenanceRecordCount(carId),
+    ]);
+    if (token !== queryToken.current) return;
+    pageCursor.current = page.cursor;
+    setMaintenanceRecords(page.items);
+    setTotalCount(count);
+  };
+
+  const loadMoreRecords = async () => {
+    const cursor = pageCursor.current;
+    if (!cursor || refreshing) return;
+
+    const token = queryToken.current;
+    pageCursor.current = null;
+    setLoadingMore(true);
+    try {
+      const page = await DatabaseService.getCarMaintenanceRecordsPage(carId, cursor);
+      // The list was reloaded meanwhile, so this page doesn't continue it
+      if (token !== queryToken.current) return;
+      pageCursor.current = page.cursor;
+      setMaintenanceRecords(current => [...current, ...page.items]);
+    } catch (error) {
+      // Keep the cursor so scrolling down again retries the same page
+      if (token === queryToken.current) {
+        pageCursor.current = cursor;
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+      loadMoreRecords();
+    }
+  };
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -54,8 +148,7 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
       setCar(carData);
 
       // Load maintenance records
-      const records = await DatabaseService.getCarMaintenanceRecords(carId);
-      setMaintenanceRecords(records);
+      await loadRecords();
     } catch (error) {
       Alert.alert('Error', 'Failed to load maintenance records');
     } finally {
@@ -106,6 +199,8 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
     });
   };
 
+  const filtering = hasActiveFilters(filters);
+
   if (loading) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -140,7 +235,11 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
       <ScrollView
         contentContainerStyle={styles.scrollContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
+        <SyncStatusIndicator />
+
         {/* Car Info Card */}
         <Animatable.View animation="fadeInDown" duration={800}>
           <Card style={[styles.carInfoCard, { backgroundColor: theme.colors.surface }]}>
@@ -166,12 +265,37 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
             Maintenance History
           </Text>
           <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-            {maintenanceRecords.length} {maintenanceRecords.length === 1 ? 'record' : 'records'}
+            {totalCount} {totalCount === 1 ? 'record' : 'records'}
+            {filtering ? ' matching' : ''}
           </Text>
         </Animatable.View>
 
+        <MaintenanceFilterPanel
+          filters={filters}
+          sortBy={sortBy}
+          onFiltersChange={setFilters}
+          onSortChange={setSortBy}
+        />
+
         {/* Maintenance Records */}
-        {maintenanceRecords.length === 0 ? (
+        {maintenanceRecords.length === 0 && filtering ? (
+          <Animatable.View animation="fadeIn" duration={800}>
+            <Card style={styles.emptyCard}>
+              <Card.Content style={styles.emptyContent}>
+                <MaterialCommunityIcons name="filter-remove-outline" size={64} color={theme.colors.onSurfaceVariant} />
+                <Text variant="titleLarge" style={[styles.emptyTitle, { color: theme.colors.onSurface }]}>
+                  No Matching Records
+                </Text>
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
+                  Try adjusting your search or filters
+                </Text>
+                <Button mode="outlined" onPress={() => setFilters({})} style={{ marginTop: 16 }}>
+                  Clear Filters
+                </Button>
+              </Card.Content>
+            </Card>
+          </Animatable.View>
+        ) : maintenanceRecords.length === 0 ? (
           <Animatable.View animation="fadeIn" duration={800} delay={300}>
             <Card style={styles.emptyCard}>
               <Card.Content style={styles.emptyContent}>
@@ -199,7 +323,7 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
               key={record.id}
               animation="fadeInUp"
               duration={600}
-              delay={300 + index * 100}
+              delay={300 + Math.min(index, 10) * 100}
             >
               <Card style={styles.recordCard}>
                 <Card.Content>
@@ -275,6 +399,8 @@ export const CarMaintenanceRecordsScreen: React.FC<Props> = ({ navigation, route
             </Animatable.View>
           ))
         )}
+
+        {loadingMore && <ActivityIndicator style={styles.loadingMore} />}
       </ScrollView>
 
       {/* FAB for adding maintenance */}
@@ -410,6 +536,9 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: 'italic',
   },
+  loadingMore: {
+    marginVertical: 16,
+  },
   fab: {
     position: 'absolute',
     right: 16,
@@ -13,9 +13,15 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
-import { RootStackParamList, MaintenanceRecord, Car } from '../../types';
+import { RootStackParamList, OdometerReading, MaintenanceCategory, MaintenanceRecord, Car } from '../../types';
 import { DatabaseService } from '../../services/database';
+import { describeOdometerConflict, findOdometerConflict } from '../../utils/odometer';
 import { DatePicker } from '../../components/DatePicker';
+import { MaintenanceCategoryPicker } from '../../components/MaintenanceCategoryPicker';
+import { MaintenancePhotosField } from '../../components/MaintenancePhotosField';
+import { LineItemsEditor } from '../../components/LineItemsEditor';
+import { ImageUploadService } from '../../services/imageUpload';
+import { LineItemDraft, fromLineItemDrafts, getLineItemTotals, toLineItemDrafts, validateLineItemDrafts } from '../../utils/lineItems';
 
 type EditMaintenanceScreenNavigationProp = StackNavigationProp<RootStackParamList, 'EditMaintenance'>;
 type EditMaintenanceScreenRouteProp = RouteProp<RootStackParamList, 'EditMaintenance'>;
@@ -37,9 +43,13 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
   const [maintenanceDate, setMaintenanceDate] = useState('');
   const [mileage, setMileage] = useState('');
   const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<MaintenanceCategory | ''>('');
   const [performedBy, setPerformedBy] = useState('');
   const [cost, setCost] = useState('');
   const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([]);
+  const [odometerReadings, setOdometerReadings] = useState<OdometerReading[]>([]);
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
@@ -66,12 +76,19 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
         setCar(carData);
       }
 
+      DatabaseService.getCarOdometerReadings(maintenanceData.carId)
+        .then(setOdometerReadings)
+        .catch(() => setOdometerReadings([]));
+
       setMaintenanceDate(maintenanceData.maintenanceDate.split('T')[0]);
       setMileage(maintenanceData.mileage?.toString() || '');
       setDescription(maintenanceData.description);
+      setCategory(maintenanceData.category || '');
       setPerformedBy(maintenanceData.performedBy || '');
       setCost(maintenanceData.cost?.toString() || '');
       setNotes(maintenanceData.notes || '');
+      setPhotos(maintenanceData.imageUrls || []);
+      setLineItems(toLineItemDrafts(maintenanceData.lineItems));
     } catch (error) {
       Alert.alert('Error', 'Failed to load maintenance record');
     } finally {
@@ -79,6 +96,16 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
     }
   };
 
+  // With line items the total cost is their sum rather than typed in
+  const savedLineItems = fromLineItemDrafts(lineItems);
+  const hasLineItems = savedLineItems.length > 0;
+  const lineItemTotals = getLineItemTotals(savedLineItems);
+
+  // The odometer only counts up, so warn about a mileage lower than an earlier reading
+  const mileageConflict = mileage && !isNaN(Number(mileage)) && maintenanceDate
+    ? findOdometerConflict(odometerReadings, maintenanceDate, Number(mileage), maintenanceId)
+    : null;
+
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {};
 
@@ -94,10 +121,15 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
       newErrors.mileage = 'Please enter a valid mileage';
     }
 
-    if (cost && (isNaN(Number(cost)) || Number(cost) < 0)) {
+    if (!hasLineItems && cost && (isNaN(Number(cost)) || Number(cost) < 0)) {
       newErrors.cost = 'Please enter a valid cost';
     }
 
+    const lineItemError = validateLineItemDrafts(lineItems);
+    if (lineItemError) {
+      newErrors.lineItems = lineItemError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -113,19 +145,54 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
       return;
     }
 
+    if (mileageConflict) {
+      Alert.alert(
+        'Check Mileage',
+        `${describeOdometerConflict(mileageConflict)} Save the record anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', onPress: () => saveRecord() },
+        ]
+      );
+      return;
+    }
+
+    await saveRecord();
+  };
+
+  const saveRecord = async () => {
+    if (!maintenance) return;
+
+    const savedUrls = maintenance.imageUrls || [];
+    let uploadedUrls: string[] = [];
+
     try {
       setLoading(true);
 
+      // Photos already in storage are kept as they are, new ones are uploaded first
+      const newPhotos = photos.filter(uri => !savedUrls.includes(uri));
+      uploadedUrls = await Promise.all(
+        newPhotos.map(uri => ImageUploadService.uploadMaintenanceImage(maintenance.carId, uri))
+      );
+      const imageUrls = photos.map(uri => {
+        const newIndex = newPhotos.indexOf(uri);
+        return newIndex === -1 ? uri : uploadedUrls[newIndex];
+      });
+
       const updates = {
         maintenanceDate,
         mileage: mileage ? Number(mileage) : undefined,
         description: description.trim(),
+        category: category || undefined,
         performedBy: performedBy.trim() || undefined,
-        cost: cost ? Number(cost) : undefined,
+        cost: hasLineItems ? lineItemTotals.total : cost ? Number(cost) : undefined,
+        lineItems: savedLineItems,
         notes: notes.trim() || undefined,
+        imageUrls,
       };
 
       await DatabaseService.updateMaintenanceRecord(maintenanceId, updates);
+      await ImageUploadService.deleteImages(savedUrls.filter(url => !photos.includes(url)));
 
       Alert.alert('Success', 'Maintenance record updated successfully', [
         {
@@ -134,7 +201,7 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
         },
       ]);
     } catch (error: any) {
-
+      await ImageUploadService.deleteImages(uploadedUrls);
       Alert.alert('Error', error.message || 'Failed to update maintenance record');
     } finally {
       setLoading(false);
@@ -215,6 +282,19 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
               right={<TextInput.Affix text="km" />}
             />
             {errors.mileage && <HelperText type="error">{errors.mileage}</HelperText>}
+            {!errors.mileage && mileageConflict && (
+              <HelperText type="info" style={{ color: theme.colors.error }}>
+                {describeOdometerConflict(mileageConflict)}
+              </HelperText>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <MaintenanceCategoryPicker
+              value={category}
+              onValueChange={setCategory}
+              disabled={loading}
+            />
           </View>
 
           <View style={styles.inputGroup}>
@@ -249,15 +329,23 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
             <Text style={styles.label}>Cost/Expense (optional)</Text>
             <TextInput
               mode="outlined"
-              value={cost}
+              value={hasLineItems ? lineItemTotals.total.toFixed(2) : cost}
               onChangeText={setCost}
               placeholder="0.00"
               keyboardType="decimal-pad"
               left={<TextInput.Affix text="€" />}
               error={!!errors.cost}
-              disabled={loading}
+              disabled={loading || hasLineItems}
             />
             {errors.cost && <HelperText type="error">{errors.cost}</HelperText>}
+            {hasLineItems && (
+              <HelperText type="info">Calculated from the parts and labour below</HelperText>
+            )}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <LineItemsEditor drafts={lineItems} onChange={setLineItems} disabled={loading} />
+            {errors.lineItems && <HelperText type="error">{errors.lineItems}</HelperText>}
           </View>
 
           <View style={styles.inputGroup}>
@@ -273,6 +361,10 @@ export const EditMaintenanceScreen: React.FC<Props> = ({ navigation, route }) =>
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <MaintenancePhotosField imageUris={photos} onChange={setPhotos} disabled={loading} />
+          </View>
+
           <View style={styles.buttonContainer}>
             <Button
               mode="outlined"
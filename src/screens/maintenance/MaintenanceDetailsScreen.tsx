@@ -16,6 +16,8 @@ import { RouteProp } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { RootStackParamList, MaintenanceRecord, Car } from '../../types';
 import { DatabaseService } from '../../services/database';
+import { PhotoGallery } from '../../components/PhotoGallery';
+import { getLineItemTotal, getLineItemTotals } from '../../utils/lineItems';
 import * as Animatable from 'react-native-animatable';
 
 type MaintenanceDetailsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MaintenanceDetails'>;
@@ -277,6 +279,72 @@ export const MaintenanceDetailsScreen: React.FC<Props> = ({ navigation, route })
           </Card>
         </Animatable.View>
 
+        {/* Parts & Labour */}
+        {maintenance.lineItems && maintenance.lineItems.length > 0 && (
+          <Animatable.View animation="fadeInUp" duration={800} delay={325}>
+            <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <Card.Content>
+                <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                  Parts & Labour
+                </Text>
+                {maintenance.lineItems.map((item) => (
+                  <View key={item.id} style={styles.lineItem}>
+                    <MaterialCommunityIcons
+                      name={item.type === 'part' ? 'cog' : 'account-wrench'}
+                      size={20}
+                      color={theme.colors.onSurfaceVariant}
+                    />
+                    <View style={styles.detailContent}>
+                      <Text variant="bodyLarge" style={{ color: theme.colors.onSurface }}>
+                        {item.description}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {item.type === 'part'
+                          ? [
+                              item.brand,
+                              item.partNumber && `#${item.partNumber}`,
+                              `${item.quantity ?? 1} × €${(item.unitPrice ?? 0).toFixed(2)}`,
+                            ].filter(Boolean).join(' · ')
+                          : `${item.hours ?? 0} h × €${(item.rate ?? 0).toFixed(2)}/h`}
+                      </Text>
+                    </View>
+                    <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                      €{getLineItemTotal(item).toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+                <Divider style={styles.divider} />
+                <View style={styles.lineItemTotal}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Parts</Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                    €{getLineItemTotals(maintenance.lineItems).parts.toFixed(2)}
+                  </Text>
+                </View>
+                <View style={styles.lineItemTotal}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Labour</Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                    €{getLineItemTotals(maintenance.lineItems).labour.toFixed(2)}
+                  </Text>
+                </View>
+              </Card.Content>
+            </Card>
+          </Animatable.View>
+        )}
+
+        {/* Receipts & Photos */}
+        {maintenance.imageUrls && maintenance.imageUrls.length > 0 && (
+          <Animatable.View animation="fadeInUp" duration={800} delay={350}>
+            <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <Card.Content>
+                <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                  Receipts & Photos ({maintenance.imageUrls.length})
+                </Text>
+                <PhotoGallery imageUrls={maintenance.imageUrls} />
+              </Card.Content>
+            </Card>
+          </Animatable.View>
+        )}
+
         {/* Action Buttons */}
         <Animatable.View animation="fadeInUp" duration={800} delay={400} style={styles.buttonContainer}>
           <Button
@@ -375,6 +443,16 @@ const styles = StyleSheet.create({
   divider: {
     marginVertical: 8,
   },
+  lineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  lineItemTotal: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
   buttonContainer: {
     marginTop: 8,
     gap: 12,
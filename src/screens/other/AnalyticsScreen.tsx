@@ -0,0 +1,340 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, useTheme, Card, Chip, ActivityIndicator, SegmentedButtons } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../../context/AuthContext';
+import { DatabaseService } from '../../services/database';
+import { Car, MaintenanceRecord } from '../../types';
+import { BarChart } from '../../components/BarChart';
+import { BarList } from '../../components/BarList';
+import { DatePicker } from '../../components/DatePicker';
+import { getCategoryIcon } from '../../utils/maintenanceCategories';
+import {
+  DateRange,
+  DateRangePreset,
+  filterByDateRange,
+  getMonthlySpend,
+  getPresetRange,
+  getSpendByCar,
+  getSpendByCategory,
+  getYearOverYear,
+  getYearlySpend,
+} from '../../utils/spendingAnalytics';
+import * as Animatable from 'react-native-animatable';
+
+const RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'last12Months', label: 'Last 12 Months' },
+  { value: 'thisYear', label: 'This Year' },
+  { value: 'lastYear', label: 'Last Year' },
+  { value: 'allTime', label: 'All Time' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const formatDay = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-GB');
+};
+
+const formatShortCurrency = (amount: number) =>
+  amount >= 1000 ? `€${(amount / 1000).toFixed(1)}k` : `€${Math.round(amount)}`;
+
+const AnalyticsScreen: React.FC = () => {
+  const theme = useTheme();
+  const { user } = useAuth();
+
+  const [cars, setCars] = useState<Car[]>([]);
+  const [records, setRecords] = useState<MaintenanceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [preset, setPreset] = useState<DateRangePreset>('last12Months');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getPresetRange('last12Months', []));
+  const [period, setPeriod] = useState<'monthly' | 'yearly'>('monthly');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [user])
+  );
+
+  const loadData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [carData, recordData] = await Promise.all([
+        DatabaseService.getUserCars(user.id),
+        DatabaseService.getUserMaintenanceRecords(user.id),
+      ]);
+      setCars(carData);
+      setRecords(recordData);
+    } catch (error) {
+      setRecords([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  if (loading && records.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <Text style={{ marginTop: 16, color: theme.colors.onSurface }}>Loading analytics...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const range = preset === 'custom' ? customRange : getPresetRange(preset, records);
+  const rangeRecords = filterByDateRange(records, range);
+  const rangeTotal = rangeRecords.reduce((sum, record) => sum + (record.cost || 0), 0);
+
+  const spendOverTime = period === 'monthly' ? getMonthlySpend(records, range) : getYearlySpend(records, range);
+  const spendByCar = getSpendByCar(rangeRecords, cars);
+  const spendByCategory = getSpendByCategory(rangeRecords);
+
+  const comparisonYear = Number(range.to.slice(0, 4));
+  const yearOverYear = getYearOverYear(records, comparisonYear);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Date Range */}
+        <Animatable.View animation="fadeInDown" duration={600}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetRow}>
+            {RANGE_PRESETS.map(option => (
+              <Chip
+                key={option.value}
+                selected={preset === option.value}
+                mode={preset === option.value ? 'flat' : 'outlined'}
+                onPress={() => {
+                  if (option.value === 'custom' && preset !== 'custom') {
+                    setCustomRange(range);
+                  }
+                  setPreset(option.value);
+                }}
+                style={styles.presetChip}
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          {preset === 'custom' && (
+            <View style={styles.customRange}>
+              <View style={styles.rangeInput}>
+                <DatePicker
+                  label="From"
+                  value={customRange.from}
+                  onDateChange={(from) => setCustomRange(prev => ({ from, to: from > prev.to ? from : prev.to }))}
+                  maximumDate={new Date()}
+                />
+              </View>
+              <View style={styles.rangeInput}>
+                <DatePicker
+                  label="To"
+                  value={customRange.to}
+                  onDateChange={(to) => setCustomRange(prev => ({ from: to < prev.from ? to : prev.from, to }))}
+                  maximumDate={new Date()}
+                />
+              </View>
+            </View>
+          )}
+        </Animatable.View>
+
+        {/* Total */}
+        <Card style={styles.card}>
+          <Card.Content style={styles.totalContent}>
+            <MaterialCommunityIcons name="cash-multiple" size={32} color={theme.colors.primary} />
+            <View style={styles.totalText}>
+              <Text variant="headlineMedium" style={{ color: theme.colors.onSurface }}>
+                {formatCurrency(rangeTotal)}
+              </Text>
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                {rangeRecords.length} maintenance record{rangeRecords.length !== 1 ? 's' : ''} ·{' '}
+                {formatDay(range.from)} - {formatDay(range.to)}
+              </Text>
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* Spend over time */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Spend Over Time
+              </Text>
+            </View>
+            <SegmentedButtons
+              value={period}
+              onValueChange={(value) => setPeriod(value as 'monthly' | 'yearly')}
+              buttons={[
+                { value: 'monthly', label: 'Monthly' },
+                { value: 'yearly', label: 'Yearly' },
+              ]}
+              style={styles.segmented}
+            />
+            <BarChart
+              items={spendOverTime.map(bucket => ({ key: bucket.key, label: bucket.label, value: bucket.total }))}
+              formatValue={formatShortCurrency}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Year over year */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              {comparisonYear} vs {comparisonYear - 1}
+            </Text>
+            <View style={styles.comparisonRow}>
+              <Text variant="bodyLarge" style={{ color: theme.colors.onSurface }}>
+                {formatCurrency(yearOverYear.currentTotal)} vs {formatCurrency(yearOverYear.previousTotal)}
+              </Text>
+              {yearOverYear.changePercent !== null && (
+                <Chip
+                  compact
+                  icon={yearOverYear.changePercent > 0 ? 'trending-up' : 'trending-down'}
+                  textStyle={{ color: yearOverYear.changePercent > 0 ? theme.colors.error : theme.colors.primary }}
+                >
+                  {yearOverYear.changePercent > 0 ? '+' : ''}
+                  {yearOverYear.changePercent.toFixed(0)}%
+                </Chip>
+              )}
+            </View>
+            <BarChart
+              items={yearOverYear.months.map(month => ({
+                key: month.key,
+                label: month.label,
+                value: month.current,
+                compareValue: month.previous,
+              }))}
+              formatValue={formatShortCurrency}
+              legend={[String(comparisonYear), String(comparisonYear - 1)]}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* By car */}
+        {spendByCar.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Spend by Car
+              </Text>
+              <BarList
+                items={spendByCar.map(bucket => ({ key: bucket.key, label: bucket.label, value: bucket.total, icon: 'car' }))}
+                formatValue={formatCurrency}
+              />
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* By category */}
+        {spendByCategory.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Spend by Category
+              </Text>
+              <BarList
+                items={spendByCategory.map(bucket => ({
+                  key: bucket.key,
+                  label: bucket.label,
+                  value: bucket.total,
+                  icon: getCategoryIcon(bucket.key),
+                }))}
+                formatValue={formatCurrency}
+              />
+            </Card.Content>
+          </Card>
+        )}
+
+        {rangeRecords.length === 0 && (
+          <Text variant="bodyMedium" style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}>
+            No maintenance costs recorded in this period.
+          </Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  presetRow: {
+    marginBottom: 12,
+  },
+  presetChip: {
+    marginRight: 8,
+  },
+  customRange: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  rangeInput: {
+    flex: 1,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  totalContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  totalText: {
+    marginLeft: 16,
+    flex: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  segmented: {
+    marginBottom: 16,
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default AnalyticsScreen;
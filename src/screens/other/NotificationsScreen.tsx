@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, StyleSheet, ScrollView, RefreshControl, Alert } from 'react-native';
 import {
   Surface,
@@ -12,19 +12,32 @@ import {
   IconButton,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useNavigation } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useAuth } from '../../context/AuthContext';
 import { DatabaseService } from '../../services/database';
-import { Car, Reminder } from '../../types';
+import { NotificationSchedulerService } from '../../services/notificationScheduler';
+import { useCars } from '../../hooks/useCars';
+import { useReminders } from '../../hooks/useReminders';
+import { useMaintenanceRecordsForCars } from '../../hooks/useMaintenanceRecords';
+import { Car, MaintenanceRecord, OdometerReading, Reminder } from '../../types';
+import {
+  DueStatus,
+  MaintenanceDueItem,
+  compareDueStates,
+  getDueState,
+  getMaintenanceDueItems,
+} from '../../utils/dueStatus';
+import { getAverageKmPerDay } from '../../utils/odometer';
 import * as Animatable from 'react-native-animatable';
 
 interface ReminderNotification {
   id: string;
   reminder: Reminder;
   car?: Car;
-  status: 'overdue' | 'due_today' | 'due_soon' | 'upcoming';
+  status: DueStatus;
   daysUntil: number;
+  kmUntil?: number;
   message: string;
 }
 
@@ -33,25 +46,33 @@ const NotificationsScreen: React.FC = () => {
   const { user } = useAuth();
   const navigation = useNavigation<any>();
 
+  const { reminders, loading: remindersLoading } = useReminders();
+  const { cars, loading: carsLoading } = useCars();
+  const carIds = useMemo(() => cars.map(car => car.id), [cars]);
+  const { records, loading: recordsLoading } = useMaintenanceRecordsForCars(carIds);
   const [notifications, setNotifications] = useState<ReminderNotification[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [maintenanceDue, setMaintenanceDue] = useState<MaintenanceDueItem[]>([]);
   const [refreshing, setRefreshing] = useState(false);
+  // Only the latest load may set the due items, an earlier one can finish after it
+  const maintenanceDueRequest = useRef(0);
 
-  useFocusEffect(
-    useCallback(() => {
-      loadReminders();
-    }, [user])
-  );
-
-  const loadReminders = async () => {
-    if (!user) return;
+  const loading = remindersLoading || carsLoading || recordsLoading;
 
-    try {
-      setLoading(true);
+  useEffect(() => {
+    buildNotifications();
+  }, [reminders, cars]);
 
-      const reminders = await DatabaseService.getUserReminders(user.id);
-      const cars = await DatabaseService.getUserCars(user.id);
+  // Cars and their records are live; odometer readings, which only refine the
+  // projection, are fetched again with them and on pull-to-refresh
+  useEffect(() => {
+    loadMaintenanceDue(cars, records);
+    return () => {
+      maintenanceDueRequest.current++;
+    };
+  }, [cars, records]);
 
+  const buildNotifications = () => {
+    try {
       const reminderNotifications: ReminderNotification[] = [];
 
       for (const reminder of reminders) {
@@ -74,16 +95,42 @@ const NotificationsScreen: React.FC = () => {
         }
       }
 
-      reminderNotifications.sort((a, b) => a.daysUntil - b.daysUntil);
+      reminderNotifications.sort((a, b) => compareDueStates(a, b));
 
       setNotifications(reminderNotifications);
     } catch (error) {
       setNotifications([]);
-    } finally {
-      setLoading(false);
     }
   };
 
+  const loadMaintenanceDue = async (cars: Car[], records: MaintenanceRecord[]) => {
+    const request = ++maintenanceDueRequest.current;
+    try {
+      const readingsByCar = await Promise.all(
+        cars.map(car => DatabaseService.getCarOdometerReadings(car.id).catch(() => [] as OdometerReading[]))
+      );
+      if (request !== maintenanceDueRequest.current) return;
+
+      const dueItems = cars
+        .flatMap((car, index) =>
+          getMaintenanceDueItems(
+            car,
+            records.filter(record => record.carId === car.id),
+            undefined,
+            getAverageKmPerDay(readingsByCar[index])
+          )
+        )
+        .filter(item => item.state.status !== 'upcoming')
+        .sort((a, b) => compareDueStates(a.state, b.state));
+
+      setMaintenanceDue(dueItems);
+    } catch (error) {
+      if (request === maintenanceDueRequest.current) setMaintenanceDue([]);
+    }
+  };
+
+  // A reminder is due on its date or, for mileage-based reminders, when the
+  // car's odometer reaches `dueMileage` - whichever comes first
   const calculateReminderStatus = (
     reminder: Reminder,
     car?: Car
@@ -92,47 +139,30 @@ const NotificationsScreen: React.FC = () => {
       return null;
     }
 
-    const reminderDate = new Date(reminder.reminderDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    reminderDate.setHours(0, 0, 0, 0);
+    const state = getDueState(
+      { dueDate: reminder.reminderDate, dueMileage: reminder.dueMileage },
+      car?.mileage,
+      { soonDays: reminder.notifyBefore || 1 }
+    );
 
-    if (isNaN(reminderDate.getTime())) {
+    if (!state || state.daysUntil === undefined) {
       return null;
     }
 
-    const daysUntil = Math.ceil((reminderDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-
-    let status: 'overdue' | 'due_today' | 'due_soon' | 'upcoming';
-    let message: string;
-
-    if (daysUntil < 0) {
-      status = 'overdue';
-      message = `Overdue by ${Math.abs(daysUntil)} day${Math.abs(daysUntil) !== 1 ? 's' : ''}`;
-    } else if (daysUntil === 0) {
-      status = 'due_today';
-      message = 'Due today';
-    } else if (daysUntil <= (reminder.notifyBefore || 1)) {
-      status = 'due_soon';
-      message = `Due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`;
-    } else {
-      status = 'upcoming';
-      message = `Due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`;
-    }
-
     return {
       id: reminder.id,
       reminder,
       car,
-      status,
-      daysUntil,
-      message,
+      status: state.status,
+      daysUntil: state.daysUntil,
+      kmUntil: state.kmUntil,
+      message: state.message,
     };
   };
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadReminders();
+    await loadMaintenanceDue(cars, records);
     setRefreshing(false);
   };
 
@@ -162,7 +192,9 @@ const NotificationsScreen: React.FC = () => {
               await DatabaseService.updateReminder(notification.id, {
                 status: 'dismissed',
               });
-              loadReminders();
+              if (user) {
+                await NotificationSchedulerService.cancelReminder(notification.id, user.id);
+              }
             } catch (error) {
               Alert.alert('Error', 'Failed to dismiss reminder');
             }
@@ -175,17 +207,22 @@ const NotificationsScreen: React.FC = () => {
   const handleCompleteReminder = async (notification: ReminderNotification) => {
     Alert.alert(
       'Complete Reminder',
-      'Mark this reminder as completed?',
+      notification.reminder.recurrence
+        ? 'Mark this reminder as completed? The next occurrence will be scheduled automatically.'
+        : 'Mark this reminder as completed?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Complete',
           onPress: async () => {
             try {
-              await DatabaseService.updateReminder(notification.id, {
-                status: 'completed',
-              });
-              loadReminders();
+              const nextReminder = await DatabaseService.completeReminder(notification.reminder);
+              if (user) {
+                await NotificationSchedulerService.cancelReminder(notification.id, user.id);
+              }
+              if (nextReminder) {
+                await NotificationSchedulerService.scheduleReminder(nextReminder, notification.car);
+              }
             } catch (error) {
               Alert.alert('Error', 'Failed to complete reminder');
             }
@@ -265,6 +302,7 @@ const NotificationsScreen: React.FC = () => {
               </Text>
               <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
                 {notifications.length} active reminder{notifications.length !== 1 ? 's' : ''}
+                {maintenanceDue.length > 0 && ` · ${maintenanceDue.length} maintenance due`}
               </Text>
             </View>
             <Button
@@ -278,7 +316,132 @@ const NotificationsScreen: React.FC = () => {
           </View>
         </Animatable.View>
 
-        {notifications.length === 0 && (
+        {maintenanceDue.length > 0 && (
+          <Animatable.View animation="fadeInUp" duration={800} delay={100}>
+            <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+              Maintenance Due
+            </Text>
+            {maintenanceDue.map((item) => (
+              <Card
+                key={item.id}
+                style={[
+                  styles.notificationCard,
+                  {
+                    backgroundColor: theme.colors.surface,
+                    borderLeftColor: getStatusColor(item.state.status),
+                  },
+                ]}
+                onPress={() => navigation.navigate('CarDetails', { carId: item.car.id })}
+              >
+                <Card.Content>
+                  <View style={styles.notificationHeader}>
+                    <Chip
+                      icon={item.state.triggeredBy === 'mileage' ? 'speedometer' : getStatusIcon(item.state.status)}
+                      style={[
+                        styles.statusChip,
+                        { backgroundColor: getStatusColor(item.state.status) + '20' },
+                      ]}
+                      textStyle={{ color: getStatusColor(item.state.status), fontWeight: 'bold' }}
+                    >
+                      {getStatusLabel(item.state.status)}
+                    </Chip>
+                  </View>
+
+                  <Text
+                    variant="titleMedium"
+                    style={[styles.reminderTitle, { color: theme.colors.onSurface }]}
+                  >
+                    {item.title}
+                  </Text>
+
+                  <View style={styles.carInfo}>
+                    <MaterialCommunityIcons
+                      name="car"
+                      size={16}
+                      color={theme.colors.onSurfaceVariant}
+                    />
+                    <Text
+                      variant="bodySmall"
+                      style={[styles.carText, { color: theme.colors.onSurfaceVariant }]}
+                    >
+                      {item.car.make} {item.car.model} ({item.car.licensePlate}) · {item.car.mileage.toLocaleString()} km
+                    </Text>
+                  </View>
+
+                  <View style={styles.dateTimeRow}>
+                    {item.dueDate && (
+                      <View style={styles.dateTimeItem}>
+                        <MaterialCommunityIcons
+                          name="calendar"
+                          size={16}
+                          color={theme.colors.primary}
+                        />
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginLeft: 4 }}>
+                          {new Date(item.dueDate).toLocaleDateString('en-GB', {
+                            day: '2-digit',
+                            month: '2-digit',
+                            year: 'numeric',
+                          })}
+                        </Text>
+                      </View>
+                    )}
+                    {item.dueMileage !== undefined && (
+                      <View style={styles.dateTimeItem}>
+                        <MaterialCommunityIcons
+                          name="speedometer"
+                          size={16}
+                          color={theme.colors.primary}
+                        />
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginLeft: 4 }}>
+                          {item.dueMileage.toLocaleString()} km
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+
+                  <View style={[styles.messageBox, { backgroundColor: getStatusColor(item.state.status) + '10' }]}>
+                    <Text
+                      variant="bodyMedium"
+                      style={[styles.messageText, { color: getStatusColor(item.state.status) }]}
+                    >
+                      {item.state.message}
+                    </Text>
+                    {item.projectedDate && (
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginTop: 4 }}>
+                        Expected around{' '}
+                        {new Date(item.projectedDate).toLocaleDateString('en-GB', {
+                          day: '2-digit',
+                          month: '2-digit',
+                          year: 'numeric',
+                        })}{' '}
+                        at your average driving
+                      </Text>
+                    )}
+                  </View>
+
+                  <View style={styles.actions}>
+                    <Button
+                      mode="outlined"
+                      icon="wrench"
+                      onPress={() => navigation.navigate('AddMaintenance', { carId: item.car.id })}
+                      style={styles.actionButton}
+                      compact
+                    >
+                      Log Service
+                    </Button>
+                  </View>
+                </Card.Content>
+              </Card>
+            ))}
+            {notifications.length > 0 && (
+              <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                Reminders
+              </Text>
+            )}
+          </Animatable.View>
+        )}
+
+        {notifications.length === 0 && maintenanceDue.length === 0 && (
           <Animatable.View animation="fadeIn" duration={800} delay={200}>
             <Card style={[styles.emptyCard, { backgroundColor: theme.colors.surface }]}>
               <Card.Content style={styles.emptyContent}>
@@ -394,6 +557,19 @@ const NotificationsScreen: React.FC = () => {
                         </Text>
                       </View>
 
+                      {notification.reminder.dueMileage !== undefined && (
+                        <View style={styles.dateTimeItem}>
+                          <MaterialCommunityIcons
+                            name="speedometer"
+                            size={16}
+                            color={theme.colors.primary}
+                          />
+                          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginLeft: 4 }}>
+                            {notification.reminder.dueMileage.toLocaleString()} km
+                          </Text>
+                        </View>
+                      )}
+
                       {notification.reminder.reminderTime && (
                         <View style={styles.dateTimeItem}>
                           <MaterialCommunityIcons
@@ -526,6 +702,10 @@ const styles = StyleSheet.create({
   emptyButton: {
     minWidth: 200,
   },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
   notificationCard: {
     marginBottom: 16,
     elevation: 2,
@@ -1,14 +1,24 @@
 import React, { useState } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
-import { Surface, Text, useTheme, List, Button, Divider, ActivityIndicator } from 'react-native-paper';
+import { Surface, Text, useTheme, List, Button, Divider, ActivityIndicator, SegmentedButtons } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../context/AuthContext';
-import { exportAllData } from '../../utils/dataExport';
+import { exportUserData } from '../../utils/dataExport';
+import { ExportFormat } from '../../types';
+import { pickBackupFile, restoreBackup, RestoreMode, RestoreSummary } from '../../utils/dataImport';
+import { BackupFile } from '../../utils/backupSchema';
+import { ProgressDialog } from '../../components/ProgressDialog';
+import { ReauthenticateDialog } from '../../components/ReauthenticateDialog';
+import { AccountDeletionProgress } from '../../services/accountDeletion';
 
 const SettingsScreen: React.FC = () => {
   const theme = useTheme();
-  const { user } = useAuth();
+  const { user, deleteAccount } = useAuth();
   const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('JSON');
+  const [restoring, setRestoring] = useState(false);
+  const [deletionProgress, setDeletionProgress] = useState<AccountDeletionProgress | null>(null);
+  const [reauthVisible, setReauthVisible] = useState(false);
 
   const handleExportData = async () => {
     if (!user) {
@@ -16,9 +26,15 @@ const SettingsScreen: React.FC = () => {
       return;
     }
 
+    const exportDescriptions: Record<ExportFormat, string> = {
+      JSON: 'This will create a JSON backup of all your cars, maintenance records, and reminders. You can save this file and use it to restore your data if needed.',
+      CSV: 'This will create a CSV maintenance ledger for all your cars that can be opened in any spreadsheet app.',
+      PDF: 'This will create a printable PDF service-history report for all your cars.',
+    };
+
     Alert.alert(
       'Export Data',
-      'This will create a JSON backup of all your cars, maintenance records, and reminders. You can save this file and use it to restore your data if needed.',
+      exportDescriptions[exportFormat],
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -26,10 +42,10 @@ const SettingsScreen: React.FC = () => {
           onPress: async () => {
             try {
               setExporting(true);
-              await exportAllData(user.id);
+              await exportUserData(user.id, exportFormat);
               Alert.alert(
                 'Success',
-                'Your data has been exported successfully! Choose where to save the backup file.',
+                'Your data has been exported successfully! Choose where to save the exported file.',
                 [{ text: 'OK' }]
               );
             } catch (error: any) {
@@ -47,6 +63,160 @@ const SettingsScreen: React.FC = () => {
     );
   };
 
+  const formatRestoreSummary = (summary: RestoreSummary) => {
+    const line = (label: string, counts: RestoreSummary['created']) =>
+      `${label}: ${counts.cars} cars, ${counts.maintenance} records, ${counts.fuelEntries} fuel entries, ` +
+      `${counts.odometerReadings} odometer readings, ${counts.reminders} reminders`;
+
+    const lines = [
+      line('Created', summary.created),
+      line('Skipped', summary.skipped),
+      line('Already present', summary.conflicts),
+    ];
+
+    if (summary.errors.length > 0) {
+      lines.push('', `${summary.errors.length} item(s) failed to restore.`);
+    }
+
+    return lines.join('\n');
+  };
+
+  const runRestore = async (backup: BackupFile, mode: RestoreMode) => {
+    if (!user) return;
+
+    try {
+      setRestoring(true);
+      const summary = await restoreBackup(user.id, backup, mode);
+      Alert.alert('Restore Complete', formatRestoreSummary(summary), [{ text: 'OK' }]);
+    } catch (error: any) {
+      Alert.alert(
+        'Restore Failed',
+        error.message || 'Failed to restore data. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestoreData = async () => {
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to restore data');
+      return;
+    }
+
+    let backup: BackupFile | null;
+    try {
+      backup = await pickBackupFile();
+    } catch (error: any) {
+      Alert.alert('Invalid Backup', error.message || 'Failed to read the backup file.', [{ text: 'OK' }]);
+      return;
+    }
+
+    if (!backup) return;
+
+    const selectedBackup = backup;
+    Alert.alert(
+      'Restore Data',
+      `This backup contains ${selectedBackup.data.cars.length} cars, ${selectedBackup.data.maintenance.length} maintenance records, ${selectedBackup.data.fuelEntries?.length ?? 0} fuel entries, ${selectedBackup.data.odometerReadings?.length ?? 0} odometer readings and ${selectedBackup.data.reminders.length} reminders.\n\nMerge adds them to your existing data. Replace swaps your current data for the backup.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runRestore(selectedBackup, 'merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => {
+            Alert.alert(
+              'Replace All Data?',
+              'All of your current cars, maintenance records, fuel entries, odometer readings and reminders will be permanently deleted once the backup has been restored. If the restore fails, your current data is kept.',
+              [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                  text: 'Replace',
+                  style: 'destructive',
+                  onPress: () => runRestore(selectedBackup, 'replace'),
+                },
+              ]
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const runAccountDeletion = async () => {
+    try {
+      setDeletionProgress({ label: 'Preparing', progress: 0 });
+      const result = await deleteAccount(setDeletionProgress);
+
+      if (result.requiresReauthentication) {
+        setReauthVisible(true);
+      } else if (!result.accountDeleted) {
+        Alert.alert(
+          'Account Not Deleted',
+          `Some of your data could not be deleted:\n\n${result.failures.join('\n')}\n\nYour account has been kept so you can try again.`,
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error: any) {
+      Alert.alert(
+        'Deletion Failed',
+        error.message || 'Failed to delete your account. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setDeletionProgress(null);
+    }
+  };
+
+  const confirmAccountDeletion = () => {
+    Alert.alert(
+      'Are You Sure?',
+      'Your account and all of its data will be permanently deleted. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete Account', style: 'destructive', onPress: runAccountDeletion },
+      ]
+    );
+  };
+
+  const exportBeforeDeletion = async () => {
+    if (!user) return;
+
+    try {
+      setExporting(true);
+      await exportUserData(user.id, 'JSON');
+    } catch (error: any) {
+      Alert.alert(
+        'Export Failed',
+        error.message || 'Failed to export data. Please try again.',
+        [{ text: 'OK' }]
+      );
+      return;
+    } finally {
+      setExporting(false);
+    }
+
+    confirmAccountDeletion();
+  };
+
+  const handleDeleteAccount = () => {
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to delete your account');
+      return;
+    }
+
+    Alert.alert(
+      'Delete Account',
+      'This deletes your account together with all of your cars, maintenance records, odometer and fuel logs, reminders, notifications and photos.\n\nYou can export a JSON backup of your data first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Export First', onPress: exportBeforeDeletion },
+        { text: 'Delete', style: 'destructive', onPress: confirmAccountDeletion },
+      ]
+    );
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <ScrollView style={styles.scrollView}>
@@ -81,7 +251,13 @@ const SettingsScreen: React.FC = () => {
 
           <List.Item
             title="Export Data"
-            description="Backup all your data to a JSON file"
+            description={
+              exportFormat === 'JSON'
+                ? 'Backup all your data to a JSON file'
+                : exportFormat === 'CSV'
+                  ? 'Maintenance ledger as a CSV spreadsheet'
+                  : 'Printable service-history report'
+            }
             left={(props) => <List.Icon {...props} icon="database-export" />}
             right={() => (
               exporting ? (
@@ -94,6 +270,32 @@ const SettingsScreen: React.FC = () => {
             )}
           />
 
+          <SegmentedButtons
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as ExportFormat)}
+            buttons={[
+              { value: 'JSON', label: 'JSON', icon: 'code-json' },
+              { value: 'CSV', label: 'CSV', icon: 'file-delimited' },
+              { value: 'PDF', label: 'PDF', icon: 'file-pdf-box' },
+            ]}
+            style={styles.formatButtons}
+          />
+
+          <List.Item
+            title="Restore Data"
+            description="Import cars, records and reminders from a backup file"
+            left={(props) => <List.Icon {...props} icon="database-import" />}
+            right={() => (
+              restoring ? (
+                <ActivityIndicator size="small" style={{ marginRight: 16 }} />
+              ) : (
+                <Button mode="outlined" onPress={handleRestoreData} compact disabled={exporting}>
+                  Restore
+                </Button>
+              )
+            )}
+          />
+
           <View style={styles.infoBox}>
             <List.Icon icon="information" color={theme.colors.primary} />
             <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, flex: 1 }}>
@@ -103,6 +305,29 @@ const SettingsScreen: React.FC = () => {
 
           <Divider style={styles.divider} />
 
+          {/* Danger Zone Section */}
+          <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.error }]}>
+            Danger Zone
+          </Text>
+          <List.Item
+            title="Delete Account"
+            description="Permanently delete your account and all of your data"
+            left={(props) => <List.Icon {...props} icon="account-remove" color={theme.colors.error} />}
+            right={() => (
+              <Button
+                mode="outlined"
+                onPress={handleDeleteAccount}
+                compact
+                textColor={theme.colors.error}
+                disabled={exporting || restoring || !!deletionProgress}
+              >
+                Delete
+              </Button>
+            )}
+          />
+
+          <Divider style={styles.divider} />
+
           {/* App Info Section */}
           <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
             App Information
@@ -119,6 +344,24 @@ const SettingsScreen: React.FC = () => {
           />
         </Surface>
       </ScrollView>
+
+      <ProgressDialog
+        visible={!!deletionProgress}
+        title="Deleting Account"
+        label={deletionProgress?.label}
+        progress={deletionProgress?.progress ?? 0}
+      />
+
+      <ReauthenticateDialog
+        visible={reauthVisible}
+        message="For your security, please confirm it is you again before deleting your account."
+        confirmLabel="Delete Account"
+        onDismiss={() => setReauthVisible(false)}
+        onReauthenticated={() => {
+          setReauthVisible(false);
+          runAccountDeletion();
+        }}
+      />
     </SafeAreaView>
   );
 };
@@ -148,6 +391,10 @@ const styles = StyleSheet.create({
   divider: {
     marginVertical: 16,
   },
+  formatButtons: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
   infoBox: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -14,10 +14,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { RootStackParamList, ReminderType, Car } from '../../types';
+import { RootStackParamList, ReminderType, Car, RecurrenceUnit } from '../../types';
 import { DatabaseService } from '../../services/database';
+import { NotificationSchedulerService } from '../../services/notificationScheduler';
 import { useAuth } from '../../context/AuthContext';
 import { DatePicker } from '../../components/DatePicker';
+import { RecurrencePicker } from '../../components/RecurrencePicker';
 import * as Animatable from 'react-native-animatable';
 
 type AddReminderScreenNavigationProp = StackNavigationProp<RootStackParamList, 'AddReminder'>;
@@ -52,6 +54,8 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation, route }) => {
   const [reminderTime, setReminderTime] = useState('09:00');
   const [type, setType] = useState<ReminderType>('Custom');
   const [notifyBefore, setNotifyBefore] = useState('1');
+  const [recurrenceUnit, setRecurrenceUnit] = useState<RecurrenceUnit | ''>('');
+  const [recurrenceInterval, setRecurrenceInterval] = useState('1');
   
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
@@ -78,6 +82,14 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation, route }) => {
     if (notifyBefore && (isNaN(Number(notifyBefore)) || Number(notifyBefore) < 0)) {
       newErrors.notifyBefore = 'Notify before must be a valid number of days.';
     }
+    if (recurrenceUnit) {
+      const interval = Number(recurrenceInterval);
+      if (!recurrenceInterval || isNaN(interval) || interval < 1 || !Number.isInteger(interval)) {
+        newErrors.recurrence = 'Repeat interval must be a whole number of at least 1.';
+      } else if (recurrenceUnit === 'km' && !selectedCarId) {
+        newErrors.recurrence = 'Select a car to repeat by kilometers.';
+      }
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -96,6 +108,11 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation, route }) => {
     try {
       setLoading(true);
 
+      const recurrence = recurrenceUnit
+        ? { unit: recurrenceUnit, interval: Number(recurrenceInterval) }
+        : undefined;
+      const selectedCarMileage = cars.find(c => c.id === selectedCarId)?.mileage;
+
       const reminderData = {
         userId: user.id,
         carId: selectedCarId || undefined,
@@ -106,9 +123,23 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation, route }) => {
         type,
         status: 'pending' as const,
         notifyBefore: notifyBefore ? Number(notifyBefore) : undefined,
+        recurrence,
+        dueMileage: recurrence?.unit === 'km' && selectedCarMileage !== undefined
+          ? selectedCarMileage + recurrence.interval
+          : undefined,
       };
 
-      await DatabaseService.addReminder(reminderData);
+      const reminderId = await DatabaseService.addReminder(reminderData);
+
+      try {
+        const now = new Date().toISOString();
+        await NotificationSchedulerService.scheduleReminder(
+          { ...reminderData, id: reminderId, createdAt: now, updatedAt: now },
+          cars.find(c => c.id === selectedCarId)
+        );
+      } catch (error) {
+        // The reminder is saved even if the device notification could not be scheduled
+      }
 
       Alert.alert('Success', 'Reminder added successfully!', [
         { text: 'OK', onPress: () => navigation.goBack() },
@@ -281,6 +312,23 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation, route }) => {
                 <HelperText type="info">Receive notification X days before reminder date</HelperText>
               </View>
 
+              {/* Recurrence */}
+              <View style={styles.inputGroup}>
+                <RecurrencePicker
+                  unit={recurrenceUnit}
+                  interval={recurrenceInterval}
+                  onUnitChange={(unit) => {
+                    setRecurrenceUnit(unit);
+                    if (unit === 'km' && recurrenceUnit !== 'km') setRecurrenceInterval('15000');
+                    if (unit !== 'km' && recurrenceUnit === 'km') setRecurrenceInterval('1');
+                  }}
+                  onIntervalChange={setRecurrenceInterval}
+                  error={errors.recurrence}
+                  disabled={loading}
+                  allowMileage={!!selectedCarId}
+                />
+              </View>
+
               {/* Submit Button */}
               <Button
                 mode="contained"
@@ -15,10 +15,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { RootStackParamList, ReminderType, Car, Reminder } from '../../types';
+import { RootStackParamList, ReminderType, Car, Reminder, RecurrenceUnit } from '../../types';
 import { DatabaseService } from '../../services/database';
+import { NotificationSchedulerService } from '../../services/notificationScheduler';
 import { useAuth } from '../../context/AuthContext';
 import { DatePicker } from '../../components/DatePicker';
+import { RecurrencePicker } from '../../components/RecurrencePicker';
 import * as Animatable from 'react-native-animatable';
 
 type EditReminderScreenNavigationProp = StackNavigationProp<RootStackParamList, 'EditReminder'>;
@@ -54,6 +56,8 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
   const [reminderTime, setReminderTime] = useState('');
   const [type, setType] = useState<ReminderType>('Custom');
   const [notifyBefore, setNotifyBefore] = useState('');
+  const [recurrenceUnit, setRecurrenceUnit] = useState<RecurrenceUnit | ''>('');
+  const [recurrenceInterval, setRecurrenceInterval] = useState('1');
   
   const [initialLoading, setInitialLoading] = useState(true);
   const [loading, setLoading] = useState(false);
@@ -86,6 +90,8 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
       setReminderTime(reminderData.reminderTime || '');
       setType(reminderData.type);
       setNotifyBefore(reminderData.notifyBefore?.toString() || '');
+      setRecurrenceUnit(reminderData.recurrence?.unit || '');
+      setRecurrenceInterval(reminderData.recurrence?.interval.toString() || '1');
 
       // Load cars
       const userCars = await DatabaseService.getUserCars(user.id);
@@ -105,6 +111,14 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
     if (notifyBefore && (isNaN(Number(notifyBefore)) || Number(notifyBefore) < 0)) {
       newErrors.notifyBefore = 'Notify before must be a valid number of days.';
     }
+    if (recurrenceUnit) {
+      const interval = Number(recurrenceInterval);
+      if (!recurrenceInterval || isNaN(interval) || interval < 1 || !Number.isInteger(interval)) {
+        newErrors.recurrence = 'Repeat interval must be a whole number of at least 1.';
+      } else if (recurrenceUnit === 'km' && !selectedCarId) {
+        newErrors.recurrence = 'Select a car to repeat by kilometers.';
+      }
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -118,6 +132,27 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
     try {
       setLoading(true);
 
+      const recurrence = recurrenceUnit
+        ? { unit: recurrenceUnit, interval: Number(recurrenceInterval) }
+        : undefined;
+
+      // Keep the due mileage unless the mileage rule or the car changed
+      let dueMileage = recurrence?.unit === 'km' ? reminder?.dueMileage : undefined;
+      if (
+        recurrence?.unit === 'km' &&
+        (reminder?.recurrence?.unit !== 'km' ||
+          reminder.recurrence.interval !== recurrence.interval ||
+          reminder.carId !== selectedCarId ||
+          dueMileage === undefined)
+      ) {
+        const selectedCarMileage = cars.find(c => c.id === selectedCarId)?.mileage;
+        dueMileage = selectedCarMileage !== undefined ? selectedCarMileage + recurrence.interval : undefined;
+      }
+
+      const removeFields: (keyof Reminder)[] = [];
+      if (!recurrence && reminder?.recurrence) removeFields.push('recurrence');
+      if (dueMileage === undefined && reminder?.dueMileage !== undefined) removeFields.push('dueMileage');
+
       const updates = {
         carId: selectedCarId || undefined,
         title: title.trim(),
@@ -126,9 +161,22 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
         reminderTime: reminderTime || undefined,
         type,
         notifyBefore: notifyBefore ? Number(notifyBefore) : undefined,
+        recurrence,
+        dueMileage,
       };
 
-      await DatabaseService.updateReminder(reminderId, updates);
+      await DatabaseService.updateReminder(reminderId, updates, removeFields);
+
+      if (reminder) {
+        try {
+          await NotificationSchedulerService.scheduleReminder(
+            { ...reminder, ...updates },
+            cars.find(c => c.id === selectedCarId)
+          );
+        } catch (error) {
+          // The reminder is saved even if the device notification could not be rescheduled
+        }
+      }
 
       Alert.alert('Success', 'Reminder updated successfully!', [
         { text: 'OK', onPress: () => navigation.goBack() },
@@ -153,6 +201,9 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
             try {
               setLoading(true);
               await DatabaseService.deleteReminder(reminderId);
+              if (user) {
+                await NotificationSchedulerService.cancelReminder(reminderId, user.id);
+              }
               Alert.alert('Success', 'Reminder deleted successfully!', [
                 { text: 'OK', onPress: () => navigation.goBack() },
               ]);
@@ -335,6 +386,23 @@ export const EditReminderScreen: React.FC<Props> = ({ navigation, route }) => {
                 <HelperText type="info">Receive notification X days before reminder date</HelperText>
               </View>
 
+              {/* Recurrence */}
+              <View style={styles.inputGroup}>
+                <RecurrencePicker
+                  unit={recurrenceUnit}
+                  interval={recurrenceInterval}
+                  onUnitChange={(unit) => {
+                    setRecurrenceUnit(unit);
+                    if (unit === 'km' && recurrenceUnit !== 'km') setRecurrenceInterval('15000');
+                    if (unit !== 'km' && recurrenceUnit === 'km') setRecurrenceInterval('1');
+                  }}
+                  onIntervalChange={setRecurrenceInterval}
+                  error={errors.recurrence}
+                  disabled={loading}
+                  allowMileage={!!selectedCarId}
+                />
+              </View>
+
               {/* Update Button */}
               <Button
                 mode="contained"
@@ -18,7 +18,9 @@ import { useFocusEffect } from '@react-navigation/native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useAuth } from '../../context/AuthContext';
 import { DatabaseService } from '../../services/database';
+import { NotificationSchedulerService } from '../../services/notificationScheduler';
 import { Reminder, RootStackParamList } from '../../types';
+import { formatRecurrence } from '../../utils/reminderRecurrence';
 import * as Animatable from 'react-native-animatable';
 
 type ManageRemindersScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ManageReminders'>;
@@ -63,9 +65,15 @@ export const ManageRemindersScreen: React.FC<Props> = ({ navigation }) => {
     setRefreshing(false);
   };
 
-  const handleCompleteReminder = async (reminderId: string) => {
+  const handleCompleteReminder = async (reminder: Reminder) => {
     try {
-      await DatabaseService.updateReminder(reminderId, { status: 'completed' });
+      const nextReminder = await DatabaseService.completeReminder(reminder);
+      if (user) {
+        await NotificationSchedulerService.cancelReminder(reminder.id, user.id);
+      }
+      if (nextReminder) {
+        await NotificationSchedulerService.scheduleReminder(nextReminder);
+      }
       await loadReminders();
     } catch (error) {
       Alert.alert('Error', 'Failed to update reminder status');
@@ -75,6 +83,9 @@ export const ManageRemindersScreen: React.FC<Props> = ({ navigation }) => {
   const handleDismissReminder = async (reminderId: string) => {
     try {
       await DatabaseService.updateReminder(reminderId, { status: 'dismissed' });
+      if (user) {
+        await NotificationSchedulerService.cancelReminder(reminderId, user.id);
+      }
       await loadReminders();
     } catch (error) {
       Alert.alert('Error', 'Failed to dismiss reminder');
@@ -93,6 +104,9 @@ export const ManageRemindersScreen: React.FC<Props> = ({ navigation }) => {
           onPress: async () => {
             try {
               await DatabaseService.deleteReminder(reminder.id);
+              if (user) {
+                await NotificationSchedulerService.cancelReminder(reminder.id, user.id);
+              }
               await loadReminders();
             } catch (error) {
               Alert.alert('Error', 'Failed to delete reminder');
@@ -306,7 +320,7 @@ export const ManageRemindersScreen: React.FC<Props> = ({ navigation }) => {
                               icon="check"
                               size={20}
                               iconColor="#4caf50"
-                              onPress={() => handleCompleteReminder(reminder.id)}
+                              onPress={() => handleCompleteReminder(reminder)}
                             />
                             <IconButton
                               icon="close"
@@ -361,6 +375,15 @@ export const ManageRemindersScreen: React.FC<Props> = ({ navigation }) => {
                           </Text>
                         </View>
                       )}
+                      {reminder.recurrence && (
+                        <View style={styles.detailRow}>
+                          <MaterialCommunityIcons name="repeat" size={16} color={theme.colors.onSurfaceVariant} />
+                          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginLeft: 4 }}>
+                            {formatRecurrence(reminder.recurrence)}
+                            {reminder.dueMileage !== undefined && ` • next at ${reminder.dueMileage.toLocaleString()} km`}
+                          </Text>
+                        </View>
+                      )}
                     </View>
                   </Card.Content>
                 </Card>
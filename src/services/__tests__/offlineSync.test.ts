@@ -0,0 +1,89 @@
+import { addDoc } from 'firebase/firestore';
+import { DatabaseService } from '../database';
+import { OfflineSyncService } from '../offlineSync';
+import { Reminder } from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: jest.fn().mockResolvedValue({ isConnected: true, isInternetReachable: true }),
+  addEventListener: jest.fn(() => () => {}),
+}));
+jest.mock('../../config/firebase', () => ({ auth: {}, firestore: {}, storage: {} }));
+jest.mock('firebase/storage', () => ({}));
+jest.mock('firebase/firestore', () => ({
+  addDoc: jest.fn(),
+  collection: jest.fn((_db, path: string) => path),
+  serverTimestamp: jest.fn(),
+}));
+
+const mockedAddDoc = addDoc as jest.Mock;
+
+const reminder = (title: string): Omit<Reminder, 'id' | 'createdAt' | 'updatedAt'> => ({
+  userId: 'alice',
+  carId: 'deleted-car',
+  title,
+  reminderDate: '2026-01-01',
+  type: 'Custom',
+  status: 'pending',
+});
+
+const firestoreError = (code: string) => Object.assign(new Error(code), { code });
+
+/**
+ * Queue reminders as if they were added offline
+ */
+const queueReminders = async (...titles: string[]) => {
+  for (const title of titles) {
+    await OfflineSyncService.enqueue({ type: 'addReminder', payload: reminder(title) });
+  }
+};
+
+const writtenTitles = () => mockedAddDoc.mock.calls.map(([, data]) => data.title);
+
+describe('DatabaseService.syncPendingWrites', () => {
+  beforeEach(async () => {
+    mockedAddDoc.mockReset();
+    await OfflineSyncService.setUser('alice');
+    await OfflineSyncService.clearAll();
+  });
+
+  it('drops a write the server rejects for good and syncs the ones after it', async () => {
+    await queueReminders('For a deleted car', 'Oil change', 'Inspection');
+    mockedAddDoc
+      .mockRejectedValueOnce(firestoreError('permission-denied'))
+      .mockResolvedValue({ id: 'reminder-id' });
+
+    await DatabaseService.syncPendingWrites();
+
+    expect(writtenTitles()).toEqual(['For a deleted car', 'Oil change', 'Inspection']);
+    expect(await OfflineSyncService.getQueue()).toEqual([]);
+
+    const conflicts = await OfflineSyncService.getConflicts();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].write.type === 'addReminder' && conflicts[0].write.payload.title).toBe('For a deleted car');
+  });
+
+  it('keeps the queue in order when the server may accept the write later', async () => {
+    await queueReminders('Oil change', 'Inspection');
+    mockedAddDoc.mockRejectedValueOnce(firestoreError('unavailable')).mockResolvedValue({ id: 'reminder-id' });
+
+    await DatabaseService.syncPendingWrites();
+
+    expect(writtenTitles()).toEqual(['Oil change']);
+    expect((await OfflineSyncService.getQueue()).map(write => write.type === 'addReminder' && write.payload.title))
+      .toEqual(['Oil change', 'Inspection']);
+    expect(await OfflineSyncService.getConflicts()).toEqual([]);
+  });
+
+  it('keeps the queue of every account to itself', async () => {
+    await queueReminders('Oil change');
+
+    await OfflineSyncService.setUser('bob');
+    expect(await OfflineSyncService.getQueue()).toEqual([]);
+
+    await OfflineSyncService.setUser('alice');
+    expect(await OfflineSyncService.getQueue()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { ReceiptRecognitionService, TextRecognizer } from '../receiptRecognition';
+
+const recognizing = (text: string): TextRecognizer => ({
+  recognize: jest.fn().mockResolvedValue(text),
+});
+
+describe('ReceiptRecognitionService.scanReceipt', () => {
+  it('reads a German workshop invoice', async () => {
+    ReceiptRecognitionService.setRecognizer(
+      recognizing(
+        [
+          'Autohaus Müller GmbH',
+          'Hauptstraße 12, 80331 München',
+          'Rechnung Nr. 4711',
+          'Rechnungsdatum: 14.03.2024',
+          'Kilometerstand: 87.450 km',
+          'Ölwechsel inkl. Filter 89,90',
+          'Nettobetrag 210,08 €',
+          'MwSt 19% 39,92 €',
+          'Gesamtbetrag 250,00 €',
+        ].join('\n')
+      )
+    );
+
+    const { fields } = await ReceiptRecognitionService.scanReceipt('file:///receipt.jpg');
+
+    expect(fields).toEqual({
+      maintenanceDate: '2024-03-14',
+      cost: 250,
+      performedBy: 'Autohaus Müller GmbH',
+      mileage: 87450,
+    });
+  });
+
+  it('reads a US receipt', async () => {
+    ReceiptRecognitionService.setRecognizer(
+      recognizing(
+        [
+          'Quick Lube Service Inc',
+          '123 Main St, Springfield',
+          'Invoice #4471',
+          'Date: 06/21/2023',
+          'Odometer: 45,210 mi',
+          'Synthetic oil change $79.99',
+          'Subtotal $94.98',
+          'Sales Tax $7.60',
+          'Total $102.58',
+        ].join('\n')
+      )
+    );
+
+    const { fields } = await ReceiptRecognitionService.scanReceipt('file:///receipt.jpg');
+
+    expect(fields).toEqual({
+      maintenanceDate: '2023-06-21',
+      cost: 102.58,
+      performedBy: 'Quick Lube Service Inc',
+      mileage: 45210,
+    });
+  });
+
+  it('reads a receipt whose total line mentions VAT', async () => {
+    ReceiptRecognitionService.setRecognizer(
+      recognizing(
+        [
+          'Kwik Tyres Ltd',
+          'Receipt',
+          'Date 02.11.2023',
+          '2x Tyres fitted 200.00',
+          'VAT 20% 50.00',
+          'Total incl. VAT: 250.00',
+        ].join('\n')
+      )
+    );
+
+    const { fields, text } = await ReceiptRecognitionService.scanReceipt('file:///receipt.jpg');
+
+    expect(fields).toEqual({ maintenanceDate: '2023-11-02', cost: 250, performedBy: 'Kwik Tyres Ltd' });
+    expect(text).toContain('Total incl. VAT');
+  });
+
+  it('passes the image to the recognizer and wraps its errors', async () => {
+    const recognizer: TextRecognizer = { recognize: jest.fn().mockRejectedValue(new Error('model not loaded')) };
+    ReceiptRecognitionService.setRecognizer(recognizer);
+
+    await expect(ReceiptRecognitionService.scanReceipt('file:///blurry.jpg')).rejects.toThrow(
+      'Failed to read receipt: model not loaded'
+    );
+    expect(recognizer.recognize).toHaveBeenCalledWith('file:///blurry.jpg');
+  });
+});
@@ -0,0 +1,101 @@
+import { where } from 'firebase/firestore';
+import { User } from '../types';
+import { AuthService } from './auth';
+import { DatabaseService } from './database';
+import { CarDeletionService } from './carDeletion';
+import { OfflineSyncService } from './offlineSync';
+import { NotificationSchedulerService } from './notificationScheduler';
+
+export interface AccountDeletionProgress {
+  label: string;
+  progress: number; // 0 to 1
+}
+
+export interface AccountDeletionResult {
+  accountDeleted: boolean;
+  // The last sign-in is too old, nothing was deleted
+  requiresReauthentication: boolean;
+  // What could not be deleted; the account is kept so the deletion can be retried
+  failures: string[];
+}
+
+// Share of the progress bar used by the cars, the rest is reminders, notifications and the account
+const CARS_PROGRESS = 0.8;
+
+export class AccountDeletionService {
+  /**
+   * Delete the signed-in user with every document and photo they own. Each car
+   * is deleted with its records, readings, fuel log, reminders and photos, then
+   * the remaining reminders and notifications. The profile and the Firebase
+   * user only go once everything else is gone, so after a partial failure the
+   * user can still sign in and try again.
+   */
+  static async deleteAccount(
+    user: User,
+    onProgress?: (progress: AccountDeletionProgress) => void
+  ): Promise<AccountDeletionResult> {
+    const result: AccountDeletionResult = { accountDeleted: false, requiresReauthentication: false, failures: [] };
+
+    if (AuthService.needsReauthentication()) {
+      result.requiresReauthentication = true;
+      return result;
+    }
+
+    if (!(await OfflineSyncService.isOnline())) {
+      throw new Error('Deleting your account requires an internet connection');
+    }
+
+    onProgress?.({ label: 'Loading your cars', progress: 0 });
+    const cars = await DatabaseService.getUserCars(user.id);
+
+    for (const [index, car] of cars.entries()) {
+      const carName = `${car.make} ${car.model}`;
+      try {
+        await CarDeletionService.deleteCar(car, {
+          onProgress: ({ label, completedSteps, totalSteps }) =>
+            onProgress?.({
+              label: `${carName}: ${label}`,
+              progress: ((index + completedSteps / totalSteps) / cars.length) * CARS_PROGRESS,
+            }),
+        });
+      } catch (error: any) {
+        result.failures.push(`${carName}: ${error.message || 'Unknown error'}`);
+      }
+    }
+
+    onProgress?.({ label: 'Deleting reminders', progress: CARS_PROGRESS });
+    try {
+      const reminderIds = await CarDeletionService.deleteMatchingDocuments('reminders', [
+        where('userId', '==', user.id),
+      ]);
+      for (const reminderId of reminderIds) {
+        await NotificationSchedulerService.cancelReminder(reminderId, user.id);
+      }
+    } catch (error: any) {
+      result.failures.push(`Reminders: ${error.message || 'Unknown error'}`);
+    }
+
+    onProgress?.({ label: 'Deleting notifications', progress: 0.9 });
+    try {
+      await CarDeletionService.deleteMatchingDocuments('notifications', [where('userId', '==', user.id)]);
+    } catch (error: any) {
+      result.failures.push(`Notifications: ${error.message || 'Unknown error'}`);
+    }
+
+    if (result.failures.length > 0) return result;
+
+    onProgress?.({ label: 'Deleting account', progress: 0.95 });
+    try {
+      await AuthService.deleteAccount();
+    } catch (error: any) {
+      result.failures.push(`Account: ${error.message || 'Unknown error'}`);
+      return result;
+    }
+
+    await OfflineSyncService.clearAll().catch(() => undefined);
+    onProgress?.({ label: 'Done', progress: 1 });
+
+    result.accountDeleted = true;
+    return result;
+  }
+}
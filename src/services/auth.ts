@@ -4,14 +4,66 @@ import {
   signOut,
   sendPasswordResetEmail,
   updateProfile,
-  updateEmail,
+  verifyBeforeUpdateEmail,
   updatePassword,
   deleteUser,
+  reauthenticateWithCredential,
+  signInWithCredential,
+  linkWithCredential,
+  getAdditionalUserInfo,
+  sendSignInLinkToEmail,
+  sendEmailVerification,
+  reload,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  OAuthProvider,
+  ActionCodeSettings,
+  AuthCredential,
   User as FirebaseUser,
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, updateDoc, deleteDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  serverTimestamp,
+  runTransaction,
+} from 'firebase/firestore';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
 import { auth, firestore } from '../config/firebase';
 import { User } from '../types';
+import { normalizeUsername, suggestUsername, validateUsername } from '../utils/username';
+
+// Firebase treats a sign-in as recent for about five minutes
+const RECENT_LOGIN_WINDOW_MS = 5 * 60 * 1000;
+
+const USERNAME_TAKEN_MESSAGE = 'This username is already taken';
+
+const REQUIRES_RECENT_LOGIN_MESSAGE = 'Please sign in again to perform this action';
+
+// Remembered between sending a sign-in link and the user opening it
+const EMAIL_FOR_SIGN_IN_KEY = '@auth:emailForSignIn';
+
+// Random suffixes tried when the username derived from a new federated account is taken
+const GENERATED_USERNAME_ATTEMPTS = 5;
+
+export type FederatedSignInResult =
+  | { status: 'signedIn'; user: User }
+  | { status: 'cancelled' }
+  // The email already belongs to a password account, which has to be signed in to before linking
+  | { status: 'linkRequired'; email: string; credential: AuthCredential };
+
+interface ProfileHint {
+  firstName?: string | null;
+  lastName?: string | null;
+  passwordless?: boolean;
+}
 
 export class AuthService {
   static async register(
@@ -25,6 +77,12 @@ export class AuthService {
       dateOfBirth?: string;
     }
   ): Promise<User> {
+    const usernameProblem = validateUsername(userData.username);
+    if (usernameProblem) throw new Error(usernameProblem);
+
+    const username = normalizeUsername(userData.username);
+    if (!(await this.isUsernameAvailable(username))) throw new Error(USERNAME_TAKEN_MESSAGE);
+
     try {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       const firebaseUser = userCredential.user;
@@ -35,7 +93,7 @@ export class AuthService {
 
       const user: User = {
         id: firebaseUser.uid,
-        username: userData.username.toLowerCase(),
+        username,
         email: email.toLowerCase(),
         firstName: userData.firstName,
         lastName: userData.lastName,
@@ -48,7 +106,7 @@ export class AuthService {
 
       const firestoreData: any = {
         id: user.id,
-        username: user.username.toLowerCase(),
+        username: user.username,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
@@ -64,14 +122,88 @@ export class AuthService {
         firestoreData.dateOfBirth = userData.dateOfBirth;
       }
 
-      await setDoc(doc(firestore, 'users', firebaseUser.uid), firestoreData);
+      try {
+        // Someone may have claimed the username since the availability check
+        await runTransaction(firestore, async (transaction) => {
+          const claimRef = doc(firestore, 'usernames', username);
+          const claim = await transaction.get(claimRef);
+          if (claim.exists()) throw new Error(USERNAME_TAKEN_MESSAGE);
+
+          transaction.set(claimRef, { uid: firebaseUser.uid, email: user.email, createdAt: serverTimestamp() });
+          transaction.set(doc(firestore, 'users', firebaseUser.uid), firestoreData);
+        });
+      } catch (error) {
+        // Don't leave an auth account without a profile behind
+        await deleteUser(firebaseUser).catch(() => undefined);
+        throw error;
+      }
+
+      // The verification screen can resend it, so a failure here shouldn't undo the registration
+      await sendEmailVerification(firebaseUser).catch(() => undefined);
 
       return user;
     } catch (error: any) {
+      if (error.message === USERNAME_TAKEN_MESSAGE) throw error;
       throw new Error(this.getErrorMessage(error.code, error.message));
     }
   }
 
+  /**
+   * Whether a username can be claimed. Usernames are reserved in the usernames
+   * collection, so a name the signed-in user already owns counts as available.
+   */
+  static async isUsernameAvailable(username: string): Promise<boolean> {
+    try {
+      const claim = await getDoc(doc(firestore, 'usernames', normalizeUsername(username)));
+      return !claim.exists() || claim.data().uid === auth.currentUser?.uid;
+    } catch (error) {
+      throw new Error('Failed to check username availability');
+    }
+  }
+
+  /**
+   * Move the user to a new username, releasing the old one
+   */
+  static async changeUsername(userId: string, newUsername: string): Promise<string> {
+    const usernameProblem = validateUsername(newUsername);
+    if (usernameProblem) throw new Error(usernameProblem);
+
+    const username = normalizeUsername(newUsername);
+
+    try {
+      await runTransaction(firestore, async (transaction) => {
+        const userRef = doc(firestore, 'users', userId);
+        const claimRef = doc(firestore, 'usernames', username);
+
+        const userSnap = await transaction.get(userRef);
+        const claim = await transaction.get(claimRef);
+        if (!userSnap.exists()) throw new Error('User data not found');
+        if (claim.exists() && claim.data().uid !== userId) throw new Error(USERNAME_TAKEN_MESSAGE);
+
+        const oldUsername: string | undefined = userSnap.data().username;
+        if (oldUsername && oldUsername !== username && !validateUsername(oldUsername)) {
+          const oldClaimRef = doc(firestore, 'usernames', oldUsername);
+          const oldClaim = await transaction.get(oldClaimRef);
+          if (oldClaim.exists() && oldClaim.data().uid === userId) {
+            transaction.delete(oldClaimRef);
+          }
+        }
+
+        transaction.set(claimRef, { uid: userId, email: userSnap.data().email, createdAt: serverTimestamp() });
+        transaction.update(userRef, {
+          username,
+          usernameConflict: deleteField(),
+          updatedAt: serverTimestamp(),
+        });
+      });
+
+      return username;
+    } catch (error: any) {
+      if (error.message === USERNAME_TAKEN_MESSAGE) throw error;
+      throw new Error('Failed to change username');
+    }
+  }
+
   static async signIn(emailOrUsername: string, password: string): Promise<User> {
     try {
       let email = emailOrUsername.trim();
@@ -102,6 +234,7 @@ export class AuthService {
       const userData = userDoc.data();
       return {
         ...userData,
+        email: await this.syncProfileEmail(firebaseUser, userData.email),
         id: firebaseUser.uid,
         createdAt: userData.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
         updatedAt: userData.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
@@ -111,31 +244,240 @@ export class AuthService {
     }
   }
 
+  /**
+   * Resolve a username through its public usernames document. Accounts whose
+   * username has not been reserved yet (see scripts/migrate-usernames.js) can
+   * only sign in with their email.
+   */
   private static async findEmailByUsername(username: string): Promise<string | null> {
     try {
-      const usersRef = collection(firestore, 'users');
-      const usernameLower = username.toLowerCase();
-      
-      // Try lowercase first
-      let q = query(usersRef, where('username', '==', usernameLower));
-      let querySnapshot = await getDocs(q);
-      
-      // If not found, try original case (for backward compatibility)
-      if (querySnapshot.empty) {
-        q = query(usersRef, where('username', '==', username));
-        querySnapshot = await getDocs(q);
+      const usernameLower = normalizeUsername(username);
+      if (validateUsername(usernameLower)) return null;
+
+      const claim = await getDoc(doc(firestore, 'usernames', usernameLower));
+      return claim.exists() ? claim.data().email || null : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Sign in with the ID token returned by the Google auth session
+   */
+  static async signInWithGoogle(idToken: string): Promise<FederatedSignInResult> {
+    return this.signInWithFederatedCredential(GoogleAuthProvider.credential(idToken));
+  }
+
+  static async isAppleSignInAvailable(): Promise<boolean> {
+    return Platform.OS === 'ios' && (await AppleAuthentication.isAvailableAsync());
+  }
+
+  static async signInWithApple(): Promise<FederatedSignInResult> {
+    const apple = await this.requestAppleCredential();
+    if (!apple) return { status: 'cancelled' };
+
+    // Apple only shares the name on the very first sign-in
+    return this.signInWithFederatedCredential(apple.credential, {
+      firstName: apple.fullName?.givenName,
+      lastName: apple.fullName?.familyName,
+    });
+  }
+
+  /**
+   * Show the Apple sign-in sheet, resolving to null when the user cancels it
+   */
+  private static async requestAppleCredential(): Promise<{
+    credential: AuthCredential;
+    fullName: AppleAuthentication.AppleAuthenticationFullName | null;
+  } | null> {
+    // Apple signs the hashed nonce into the token and Firebase checks it against the raw one
+    const rawNonce = Crypto.randomUUID();
+    const hashedNonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, rawNonce);
+
+    let appleCredential: AppleAuthentication.AppleAuthenticationCredential;
+    try {
+      appleCredential = await AppleAuthentication.signInAsync({
+        requestedScopes: [
+          AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+          AppleAuthentication.AppleAuthenticationScope.EMAIL,
+        ],
+        nonce: hashedNonce,
+      });
+    } catch (error: any) {
+      if (error.code === 'ERR_REQUEST_CANCELED') return null;
+      throw new Error('Failed to sign in with Apple');
+    }
+
+    if (!appleCredential.identityToken) throw new Error('Failed to sign in with Apple');
+
+    const credential = new OAuthProvider('apple.com').credential({
+      idToken: appleCredential.identityToken,
+      rawNonce,
+    });
+    return { credential, fullName: appleCredential.fullName };
+  }
+
+  /**
+   * Email a passwordless sign-in link. The link has to open the app, so its
+   * domain must be authorized in Firebase and associated with the app.
+   */
+  static async sendSignInLink(email: string): Promise<void> {
+    const normalizedEmail = email.trim().toLowerCase();
+    // Keep the app ids in sync with app.config.js
+    const actionCodeSettings: ActionCodeSettings = {
+      url: process.env.EXPO_PUBLIC_EMAIL_LINK_URL || `https://${process.env.EXPO_PUBLIC_FIREBASE_AUTH_DOMAIN}`,
+      handleCodeInApp: true,
+      iOS: { bundleId: 'com.carworkshopmobile' },
+      android: { packageName: 'com.carworkshopmobile', installApp: true },
+    };
+
+    try {
+      await sendSignInLinkToEmail(auth, normalizedEmail, actionCodeSettings);
+      await AsyncStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, normalizedEmail);
+    } catch (error: any) {
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  static isSignInLink(url: string): boolean {
+    return isSignInWithEmailLink(auth, url);
+  }
+
+  /**
+   * The address a sign-in link was last sent to from this device, if any
+   */
+  static async getPendingSignInEmail(): Promise<string | null> {
+    return AsyncStorage.getItem(EMAIL_FOR_SIGN_IN_KEY).catch(() => null);
+  }
+
+  static async completeEmailLinkSignIn(email: string, url: string): Promise<FederatedSignInResult> {
+    try {
+      const userCredential = await signInWithEmailLink(auth, email.trim().toLowerCase(), url);
+      await AsyncStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY).catch(() => undefined);
+
+      // Firebase lists these accounts under the password provider although they have none
+      const isNewUser = !!getAdditionalUserInfo(userCredential)?.isNewUser;
+      const user = await this.ensureUserProfile(userCredential.user, isNewUser, { passwordless: isNewUser });
+      return { status: 'signedIn', user };
+    } catch (error: any) {
+      if (!error.code) throw error;
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Sign in to the existing password account and add the pending provider
+   * to it, so both ways of signing in lead to the same profile
+   */
+  static async linkAccount(email: string, password: string, credential: AuthCredential): Promise<User> {
+    try {
+      const userCredential = await signInWithEmailAndPassword(auth, email.trim().toLowerCase(), password);
+      await linkWithCredential(userCredential.user, credential);
+      return await this.ensureUserProfile(userCredential.user, false);
+    } catch (error: any) {
+      if (!error.code) throw error;
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  private static async signInWithFederatedCredential(
+    credential: AuthCredential,
+    hint: ProfileHint = {}
+  ): Promise<FederatedSignInResult> {
+    try {
+      const userCredential = await signInWithCredential(auth, credential);
+      const user = await this.ensureUserProfile(
+        userCredential.user,
+        !!getAdditionalUserInfo(userCredential)?.isNewUser,
+        hint
+      );
+      return { status: 'signedIn', user };
+    } catch (error: any) {
+      if (error.code === 'auth/account-exists-with-different-credential') {
+        const pendingCredential =
+          (credential.providerId === 'google.com'
+            ? GoogleAuthProvider.credentialFromError(error)
+            : OAuthProvider.credentialFromError(error)) || credential;
+        const email: string | undefined = error.customData?.email;
+        if (email) return { status: 'linkRequired', email, credential: pendingCredential };
       }
-      
-      if (querySnapshot.empty) {
-        return null;
+      if (!error.code) throw error;
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Load the profile of a user who signed in without registering, creating it
+   * on the first sign-in with a username derived from their name or email.
+   * They can pick a different username from their profile afterwards.
+   */
+  private static async ensureUserProfile(
+    firebaseUser: FirebaseUser,
+    isNewUser: boolean,
+    hint: ProfileHint = {}
+  ): Promise<User> {
+    try {
+      const userRef = doc(firestore, 'users', firebaseUser.uid);
+      if (!(await getDoc(userRef)).exists()) {
+        const email = firebaseUser.email?.toLowerCase();
+        if (!email) throw new Error('Your account has no email address');
+
+        const [displayFirstName = '', ...displayLastName] = (firebaseUser.displayName || '').split(' ');
+        const firstName = hint.firstName || displayFirstName;
+        const lastName = hint.lastName || displayLastName.join(' ');
+        const source = firstName && lastName ? `${firstName}.${lastName}` : email;
+
+        await this.createFederatedProfile(firebaseUser.uid, source, {
+          id: firebaseUser.uid,
+          email,
+          firstName,
+          lastName,
+          role: 'USER',
+          ...(hint.passwordless && { passwordless: true }),
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
       }
 
-      const userDoc = querySnapshot.docs[0];
-      const userData = userDoc.data();
-      return userData.email || null;
+      const user = await this.getCurrentUser();
+      if (!user) throw new Error('User data not found');
+      return user;
     } catch (error) {
-      return null;
+      // Don't leave a brand new auth account without a profile behind
+      if (isNewUser) {
+        await deleteUser(firebaseUser).catch(() => undefined);
+      } else {
+        await signOut(auth).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  private static async createFederatedProfile(userId: string, usernameSource: string, profile: any): Promise<void> {
+    for (let attempt = 0; attempt <= GENERATED_USERNAME_ATTEMPTS; attempt++) {
+      const suffix = attempt === 0 ? '' : String(Math.floor(1000 + Math.random() * 9000));
+      const username = suggestUsername(usernameSource, suffix);
+
+      try {
+        await runTransaction(firestore, async (transaction) => {
+          const userRef = doc(firestore, 'users', userId);
+          const claimRef = doc(firestore, 'usernames', username);
+
+          const existingProfile = await transaction.get(userRef);
+          const claim = await transaction.get(claimRef);
+          if (existingProfile.exists()) return;
+          if (claim.exists()) throw new Error(USERNAME_TAKEN_MESSAGE);
+
+          transaction.set(claimRef, { uid: userId, email: profile.email, createdAt: serverTimestamp() });
+          transaction.set(userRef, { ...profile, username });
+        });
+        return;
+      } catch (error: any) {
+        if (error.message !== USERNAME_TAKEN_MESSAGE) throw error;
+      }
     }
+
+    throw new Error('Failed to create your profile. Please try again');
   }
 
   static async signOut(): Promise<void> {
@@ -166,6 +508,7 @@ export class AuthService {
       const userData = userDoc.data();
       return {
         ...userData,
+        email: await this.syncProfileEmail(firebaseUser, userData.email),
         id: firebaseUser.uid,
         createdAt: userData.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
         updatedAt: userData.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
@@ -194,21 +537,50 @@ export class AuthService {
     }
   }
 
+  /**
+   * Email a confirmation link to the new address. The sign-in email only
+   * changes once the link is opened; the profile follows on the next sign-in,
+   * see syncProfileEmail.
+   */
   static async updateUserEmail(newEmail: string): Promise<void> {
     try {
       const firebaseUser = auth.currentUser;
       if (!firebaseUser) throw new Error('No authenticated user');
 
-      await updateEmail(firebaseUser, newEmail);
-      
+      await verifyBeforeUpdateEmail(firebaseUser, newEmail.trim().toLowerCase());
+    } catch (error: any) {
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Copy a sign-in email changed through a confirmation link to the profile
+   * and the username claim, so username login keeps working. Returns the
+   * email the profile should show.
+   */
+  private static async syncProfileEmail(firebaseUser: FirebaseUser, profileEmail?: string): Promise<string | undefined> {
+    const email = firebaseUser.email?.toLowerCase();
+    if (!email || email === profileEmail?.toLowerCase()) return profileEmail;
+
+    try {
       const userRef = doc(firestore, 'users', firebaseUser.uid);
       await updateDoc(userRef, {
-        email: newEmail.toLowerCase(),
+        email,
         updatedAt: serverTimestamp(),
       });
-    } catch (error: any) {
-      throw new Error(this.getErrorMessage(error.code, error.message));
+
+      const username: string | undefined = (await getDoc(userRef)).data()?.username;
+      if (username && !validateUsername(username)) {
+        const claimRef = doc(firestore, 'usernames', username);
+        const claim = await getDoc(claimRef);
+        if (claim.exists() && claim.data().uid === firebaseUser.uid) {
+          await updateDoc(claimRef, { email });
+        }
+      }
+    } catch (error) {
+      // Tried again on the next sign-in
     }
+    return email;
   }
 
   static async updateUserPassword(newPassword: string): Promise<void> {
@@ -217,23 +589,168 @@ export class AuthService {
       if (!firebaseUser) throw new Error('No authenticated user');
 
       await updatePassword(firebaseUser, newPassword);
+      // The password is set either way, the flag only decides how to confirm the account later
+      await updateDoc(doc(firestore, 'users', firebaseUser.uid), {
+        passwordless: deleteField(),
+        updatedAt: serverTimestamp(),
+      }).catch(() => undefined);
     } catch (error: any) {
       throw new Error(this.getErrorMessage(error.code, error.message));
     }
   }
 
+  /**
+   * Confirm the password of the signed-in user so sensitive changes are allowed again
+   */
+  static async reauthenticate(password: string): Promise<void> {
+    try {
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser?.email) throw new Error('No authenticated user');
+
+      const credential = EmailAuthProvider.credential(firebaseUser.email, password);
+      await reauthenticateWithCredential(firebaseUser, credential);
+    } catch (error: any) {
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  static async reauthenticateWithGoogle(idToken: string): Promise<void> {
+    try {
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser) throw new Error('No authenticated user');
+
+      await reauthenticateWithCredential(firebaseUser, GoogleAuthProvider.credential(idToken));
+    } catch (error: any) {
+      if (!error.code) throw error;
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Confirm an account without a password through a sign-in link sent to its
+   * email, see sendSignInLink
+   */
+  static async reauthenticateWithEmailLink(url: string): Promise<void> {
+    try {
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser?.email) throw new Error('No authenticated user');
+
+      await reauthenticateWithCredential(firebaseUser, EmailAuthProvider.credentialWithLink(firebaseUser.email, url));
+      await AsyncStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY).catch(() => undefined);
+    } catch (error: any) {
+      if (!error.code) throw error;
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Resolves to false when the user cancels the Apple sheet
+   */
+  static async reauthenticateWithApple(): Promise<boolean> {
+    const firebaseUser = auth.currentUser;
+    if (!firebaseUser) throw new Error('No authenticated user');
+
+    const apple = await this.requestAppleCredential();
+    if (!apple) return false;
+
+    try {
+      await reauthenticateWithCredential(firebaseUser, apple.credential);
+      return true;
+    } catch (error: any) {
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Provider ids the signed-in user can confirm their identity with, e.g.
+   * 'password', 'google.com' or 'apple.com'
+   */
+  static getSignInProviders(): string[] {
+    return auth.currentUser?.providerData.map(provider => provider.providerId) ?? [];
+  }
+
+  /**
+   * Whether an error thrown by this service asks the user to sign in again
+   */
+  static isRecentLoginError(error: any): boolean {
+    return error?.code === 'auth/requires-recent-login' || error?.message === REQUIRES_RECENT_LOGIN_MESSAGE;
+  }
+
+  static async sendVerificationEmail(): Promise<void> {
+    try {
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser) throw new Error('No authenticated user');
+
+      await sendEmailVerification(firebaseUser);
+    } catch (error: any) {
+      if (!error.code) throw error;
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Fetch the latest state of the user, since verifying happens in the browser
+   * and doesn't update the signed-in user on its own
+   */
+  static async reloadEmailVerified(): Promise<boolean> {
+    try {
+      const firebaseUser = auth.currentUser;
+      if (!firebaseUser) return false;
+
+      await reload(firebaseUser);
+      if (firebaseUser.emailVerified) {
+        // Refresh the token too so its email_verified claim is current
+        await firebaseUser.getIdToken(true);
+      }
+      return firebaseUser.emailVerified;
+    } catch (error: any) {
+      throw new Error(this.getErrorMessage(error.code, error.message));
+    }
+  }
+
+  /**
+   * Firebase rejects sensitive changes with auth/requires-recent-login once the
+   * last sign-in is more than a few minutes old. Checking up front avoids
+   * starting work that would fail at the last step.
+   */
+  static needsReauthentication(): boolean {
+    const lastSignIn = auth.currentUser?.metadata.lastSignInTime;
+    if (!lastSignIn) return true;
+    return Date.now() - new Date(lastSignIn).getTime() > RECENT_LOGIN_WINDOW_MS;
+  }
+
+  /**
+   * Delete the profile document and the Firebase user. The user's cars,
+   * records and reminders have to be deleted before, see AccountDeletionService.
+   */
   static async deleteAccount(): Promise<void> {
     try {
       const firebaseUser = auth.currentUser;
       if (!firebaseUser) throw new Error('No authenticated user');
 
+      await this.releaseUsername(firebaseUser.uid);
       await deleteDoc(doc(firestore, 'users', firebaseUser.uid));
       await deleteUser(firebaseUser);
     } catch (error: any) {
+      if (error.code === 'auth/requires-recent-login') {
+        throw new Error(this.getErrorMessage(error.code));
+      }
       throw new Error('Failed to delete account');
     }
   }
 
+  private static async releaseUsername(userId: string): Promise<void> {
+    const userDoc = await getDoc(doc(firestore, 'users', userId));
+    const username: string | undefined = userDoc.data()?.username;
+    if (!username || validateUsername(username)) return;
+
+    const claimRef = doc(firestore, 'usernames', username);
+    const claim = await getDoc(claimRef);
+    if (claim.exists() && claim.data().uid === userId) {
+      await deleteDoc(claimRef);
+    }
+  }
+
   private static getErrorMessage(errorCode: string, originalMessage?: string): string {
     switch (errorCode) {
       case 'auth/user-not-found':
@@ -251,9 +768,18 @@ export class AuthService {
       case 'auth/too-many-requests':
         return 'Too many failed attempts. Please try again later';
       case 'auth/requires-recent-login':
-        return 'Please sign in again to perform this action';
+        return REQUIRES_RECENT_LOGIN_MESSAGE;
       case 'auth/invalid-credential':
         return 'Invalid email/username or password';
+      case 'auth/user-mismatch':
+        return 'Please confirm with the account you are signed in with';
+      case 'auth/credential-already-in-use':
+        return 'This sign-in method is already used by another account';
+      case 'auth/provider-already-linked':
+        return 'This sign-in method is already linked to your account';
+      case 'auth/invalid-action-code':
+      case 'auth/expired-action-code':
+        return 'This sign-in link is invalid or has expired. Please request a new one';
       case 'auth/network-request-failed':
         return 'Network error. Please check your internet connection';
       case 'permission-denied':
@@ -0,0 +1,150 @@
+import {
+  collection,
+  doc,
+  deleteDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  writeBatch,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { ref, listAll, deleteObject } from 'firebase/storage';
+import { firestore, storage } from '../config/firebase';
+import { Car } from '../types';
+import { OfflineSyncService } from './offlineSync';
+import { NotificationSchedulerService } from './notificationScheduler';
+
+export type CarDeletionStep = 'maintenance' | 'odometerReadings' | 'fuelEntries' | 'reminders' | 'images' | 'car';
+
+export interface CarDeletionProgress {
+  step: CarDeletionStep;
+  label: string;
+  completedSteps: number;
+  totalSteps: number;
+}
+
+export interface CarDeletionOptions {
+  onProgress?: (progress: CarDeletionProgress) => void;
+}
+
+const STEP_LABELS: Record<CarDeletionStep, string> = {
+  maintenance: 'Deleting maintenance records',
+  odometerReadings: 'Deleting odometer readings',
+  fuelEntries: 'Deleting fuel log',
+  reminders: 'Deleting reminders',
+  images: 'Deleting photos',
+  car: 'Deleting car',
+};
+
+// Firestore accepts at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+export class CarDeletionService {
+  /**
+   * Delete a car with everything that belongs to it. The car document goes
+   * last: the security rules check ownership of the related documents through
+   * it, so deleting it first would leave them unreadable and undeletable. If a
+   * step fails the car is still there and the deletion can simply be retried.
+   */
+  static async deleteCar(car: Car, options: CarDeletionOptions = {}): Promise<void> {
+    const steps: CarDeletionStep[] = ['maintenance', 'odometerReadings', 'fuelEntries', 'reminders', 'images', 'car'];
+
+    const report = (step: CarDeletionStep) =>
+      options.onProgress?.({
+        step,
+        label: STEP_LABELS[step],
+        completedSteps: steps.indexOf(step),
+        totalSteps: steps.length,
+      });
+
+    try {
+      for (const step of steps) {
+        report(step);
+
+        switch (step) {
+          case 'maintenance':
+          case 'odometerReadings':
+          case 'fuelEntries':
+            await this.deleteMatchingDocuments(step, [where('carId', '==', car.id)]);
+            break;
+          case 'reminders':
+            await this.deleteCarReminders(car);
+            break;
+          case 'images':
+            await this.deleteStorageFolder(`cars/${car.id}`);
+            await this.deleteStorageFolder(`maintenance/${car.id}`);
+            break;
+          case 'car':
+            await this.removeQueuedWrites(car.id);
+            await deleteDoc(doc(firestore, 'cars', car.id));
+            break;
+        }
+      }
+
+      options.onProgress?.({ step: 'car', label: 'Done', completedSteps: steps.length, totalSteps: steps.length });
+    } catch (error: any) {
+      throw new Error(`Failed to delete car: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete every document matching the constraints in batches, returning the deleted ids
+   */
+  static async deleteMatchingDocuments(
+    collectionName: string,
+    constraints: QueryConstraint[]
+  ): Promise<string[]> {
+    const deletedIds: string[] = [];
+
+    while (true) {
+      const snapshot = await getDocs(query(collection(firestore, collectionName), ...constraints, limit(BATCH_SIZE)));
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(firestore);
+      snapshot.docs.forEach(document => {
+        batch.delete(document.ref);
+        deletedIds.push(document.id);
+      });
+      await batch.commit();
+
+      if (snapshot.size < BATCH_SIZE) break;
+    }
+
+    return deletedIds;
+  }
+
+  private static async deleteCarReminders(car: Car): Promise<void> {
+    // The rules only allow listing reminders of the signed-in user, so filter on the owner as well
+    const reminderIds = await this.deleteMatchingDocuments('reminders', [
+      where('userId', '==', car.ownerId),
+      where('carId', '==', car.id),
+    ]);
+
+    for (const reminderId of reminderIds) {
+      await NotificationSchedulerService.cancelReminder(reminderId, car.ownerId);
+    }
+  }
+
+  private static async deleteStorageFolder(path: string): Promise<void> {
+    const folder = await listAll(ref(storage, path));
+    await Promise.all(folder.items.map(item => deleteObject(item)));
+    for (const subfolder of folder.prefixes) {
+      await this.deleteStorageFolder(subfolder.fullPath);
+    }
+  }
+
+  /**
+   * Drop offline writes for the car so they are not replayed after it is gone
+   */
+  private static async removeQueuedWrites(carId: string): Promise<void> {
+    const queue = await OfflineSyncService.getQueue();
+    const related = queue.filter(write =>
+      write.type === 'updateCar' ? write.carId === carId : write.payload.carId === carId
+    );
+
+    for (const write of related) {
+      await OfflineSyncService.removeFromQueue(write.id);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { DatabaseService } from './database';
+import { Car, CarStatistics, DashboardStats, FuelEntry, MaintenanceRecord, OdometerReading } from '../types';
+import { getMaintenanceDueItems, isOilChangeRecord } from '../utils/dueStatus';
+import { getRecordCategory } from '../utils/maintenanceCategories';
+import { getAverageKmPerDay } from '../utils/odometer';
+import { getFuelUnit, summarizeFuelLog } from '../utils/fuelEfficiency';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (dateString: string): number => {
+  const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+/**
+ * Totals shown on the dashboard, counting maintenance that is overdue or due
+ * within the next 30 days / 1,000 km
+ */
+export const calculateDashboardStats = (cars: Car[], records: MaintenanceRecord[]): DashboardStats => ({
+  totalCars: cars.length,
+  totalMaintenanceRecords: records.length,
+  totalMaintenanceCost: records.reduce((sum, record) => sum + (record.cost || 0), 0),
+  upcomingMaintenance: cars.reduce((count, car) => {
+    const carRecords = records.filter(record => record.carId === car.id);
+    return count + getMaintenanceDueItems(car, carRecords).filter(item => item.state.status !== 'upcoming').length;
+  }, 0),
+});
+
+/**
+ * Derive the statistics of a car from its maintenance records, odometer log
+ * and fuel log
+ */
+export const calculateCarStatistics = (
+  car: Car,
+  records: MaintenanceRecord[],
+  readings: OdometerReading[] = [],
+  fuelEntries: FuelEntry[] = []
+): CarStatistics => {
+  const byDate = [...records].sort((a, b) => toTime(a.maintenanceDate) - toTime(b.maintenanceDate));
+  const totalMaintenanceCost = records.reduce((sum, record) => sum + (record.cost || 0), 0);
+
+  const spendByCategory: CarStatistics['spendByCategory'] = {};
+  for (const record of records) {
+    if (!record.cost) continue;
+    const category = getRecordCategory(record);
+    spendByCategory[category] = (spendByCategory[category] || 0) + record.cost;
+  }
+
+  // Distance between consecutive services that recorded the mileage
+  const serviceMileages = byDate
+    .map(record => record.mileage)
+    .filter((mileage): mileage is number => mileage !== undefined && mileage !== null);
+  const gaps = serviceMileages.slice(1)
+    .map((mileage, index) => mileage - serviceMileages[index])
+    .filter(gap => gap > 0);
+  const averageMileageBetweenServices = gaps.length > 0
+    ? Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length)
+    : 0;
+
+  const knownMileages = [
+    car.mileage,
+    car.mileageAtFirstOilChange,
+    ...serviceMileages,
+    ...readings.map(reading => reading.reading),
+  ].filter((mileage): mileage is number => typeof mileage === 'number' && mileage >= 0);
+  const trackedDistance = knownMileages.length > 0 ? Math.max(...knownMileages) - Math.min(...knownMileages) : 0;
+
+  // Costs are spread over at least a year, so a single early service does not inflate the yearly figure
+  const firstDate = byDate[0]?.maintenanceDate;
+  const yearsTracked = firstDate ? Math.max(1, (Date.now() - toTime(firstDate)) / (365 * DAY_MS)) : 0;
+
+  const kmPerDay = getAverageKmPerDay(readings);
+  const nextServiceDue = getMaintenanceDueItems(car, records, undefined, kmPerDay)
+    .map(item => [item.dueDate, item.projectedDate].filter(Boolean).sort()[0])
+    .filter((date): date is string => !!date)
+    .sort()[0];
+
+  const fuelEfficiency = summarizeFuelLog(fuelEntries, getFuelUnit(car)).averageConsumption;
+
+  return {
+    totalMileage: car.mileage,
+    totalMaintenanceCost,
+    maintenanceCount: records.length,
+    oilChangeCount: records.filter(isOilChangeRecord).length,
+    averageMileageBetweenServices,
+    lastServiceDate: byDate[byDate.length - 1]?.maintenanceDate,
+    nextServiceDue,
+    fuelEfficiency: fuelEfficiency ?? undefined,
+    trackedDistance,
+    costPerKm: trackedDistance > 0 ? totalMaintenanceCost / trackedDistance : undefined,
+    costPerYear: yearsTracked > 0 ? totalMaintenanceCost / yearsTracked : undefined,
+    spendByCategory,
+  };
+};
+
+export class CarStatisticsService {
+  /**
+   * Load everything recorded for a car and compute its statistics
+   */
+  static async getCarStatistics(car: Car): Promise<CarStatistics> {
+    try {
+      const [records, readings, fuelEntries] = await Promise.all([
+        DatabaseService.getCarMaintenanceRecords(car.id),
+        DatabaseService.getCarOdometerReadings(car.id).catch(() => [] as OdometerReading[]),
+        DatabaseService.getCarFuelEntries(car.id).catch(() => [] as FuelEntry[]),
+      ]);
+
+      return calculateCarStatistics(car, records, readings, fuelEntries);
+    } catch (error) {
+      throw new Error('Failed to calculate car statistics');
+    }
+  }
+}
@@ -12,14 +12,293 @@ import {
   limit,
   startAfter,
   serverTimestamp,
+  deleteField,
   Timestamp,
+  getCountFromServer,
+  onSnapshot,
+  Query,
   QueryDocumentSnapshot,
   DocumentData,
 } from 'firebase/firestore';
 import { firestore } from '../config/firebase';
-import { Car, MaintenanceRecord, Notification, SearchFilters, MaintenanceFilters, Reminder } from '../types';
+import {
+  Car,
+  MaintenanceRecord,
+  Notification,
+  SearchFilters,
+  MaintenanceFilters,
+  MaintenanceSortOption,
+  Reminder,
+  OdometerReading,
+  OdometerSource,
+  FuelEntry,
+} from '../types';
+import { OfflineSyncService, PendingWrite, PENDING_ID_PREFIX } from './offlineSync';
+import { ImageUploadService } from './imageUpload';
+import { getNextOccurrence } from '../utils/reminderRecurrence';
+import { applyMaintenanceFilters } from '../utils/maintenanceFilters';
+
+// Firestore accepts at most 30 values in an 'in' filter
+const IN_QUERY_LIMIT = 30;
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Firestore errors after which replaying a queued write can never succeed
+const PERMANENT_WRITE_ERRORS = ['permission-denied', 'not-found', 'invalid-argument'];
+
+/**
+ * Wrap a Firestore error in a readable message, keeping its code so callers
+ * can still tell why it failed
+ */
+const wrapWriteError = (message: string, error: any): Error =>
+  Object.assign(new Error(`${message}: ${error?.message || 'Unknown error'}`), { code: error?.code });
+
+export type PageCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface Page<T> {
+  items: T[];
+  // Pass back to load the next page; null once everything has been loaded
+  cursor: PageCursor | null;
+}
+
+// Called with the temporary id of a reminder added offline and the id it got once written
+type ReminderSyncedListener = (pendingId: string, reminderId: string) => void;
 
 export class DatabaseService {
+  private static reminderSyncedListeners = new Set<ReminderSyncedListener>();
+
+  /**
+   * Serve a read from Firestore and refresh the local cache, falling back to
+   * the cached copy when the device is offline or the request fails.
+   */
+  private static async withCache<T>(cacheKey: string, fetcher: () => Promise<T>): Promise<T> {
+    if (!(await OfflineSyncService.isOnline())) {
+      const cached = await OfflineSyncService.getCached<T>(cacheKey);
+      if (cached !== null) return cached;
+    }
+
+    try {
+      const result = await fetcher();
+      await OfflineSyncService.setCached(cacheKey, result);
+      return result;
+    } catch (error) {
+      const cached = await OfflineSyncService.getCached<T>(cacheKey);
+      if (cached !== null) return cached;
+      throw error;
+    }
+  }
+
+  private static pendingRecord<T>(write: PendingWrite & { payload: object }): T {
+    return {
+      ...write.payload,
+      id: write.id,
+      createdAt: write.queuedAt,
+      updatedAt: write.queuedAt,
+    } as T;
+  }
+
+  private static async applyPendingCarUpdates(cars: Car[]): Promise<Car[]> {
+    const queue = await OfflineSyncService.getQueue();
+    return cars.map(car =>
+      queue.reduce<Car>(
+        (current, write) =>
+          write.type === 'updateCar' && write.carId === car.id
+            ? { ...current, ...write.payload, updatedAt: write.queuedAt }
+            : current,
+        car
+      )
+    );
+  }
+
+  private static async getQueuedMaintenanceRecords(carIds: string[]): Promise<MaintenanceRecord[]> {
+    const queue = await OfflineSyncService.getQueue();
+    return queue
+      .filter(write => write.type === 'addMaintenanceRecord' && carIds.includes(write.payload.carId))
+      .map(write => this.pendingRecord<MaintenanceRecord>(write as PendingWrite & { payload: object }));
+  }
+
+  private static async getQueuedReminders(filter: (reminder: Reminder) => boolean): Promise<Reminder[]> {
+    const queue = await OfflineSyncService.getQueue();
+    return queue
+      .filter(write => write.type === 'addReminder')
+      .map(write => this.pendingRecord<Reminder>(write as PendingWrite & { payload: object }))
+      .filter(filter);
+  }
+
+  /**
+   * Load one page of an ordered query, starting after the cursor of the previous page
+   */
+  private static async fetchPage<T>(
+    orderedQuery: Query<DocumentData>,
+    cursor: PageCursor | null | undefined,
+    pageSize: number,
+    toItem: (doc: PageCursor) => T
+  ): Promise<Page<T>> {
+    const pageQuery = cursor
+      ? query(orderedQuery, startAfter(cursor), limit(pageSize))
+      : query(orderedQuery, limit(pageSize));
+
+    const querySnapshot = await getDocs(pageQuery);
+    const docs = querySnapshot.docs;
+
+    return {
+      items: docs.map(toItem),
+      cursor: docs.length === pageSize ? docs[docs.length - 1] : null,
+    };
+  }
+
+  /**
+   * Keep a query in sync with Firestore. The cached copy is delivered first so
+   * screens render straight away, and every snapshot refreshes the cache. Writes
+   * queued offline never reach the listener, so the result is delivered again
+   * with them whenever the queue changes.
+   */
+  private static listenToQuery<T>(
+    q: Query<DocumentData>,
+    cacheKey: string,
+    withPendingWrites: (items: T[]) => Promise<T[]>,
+    onData: (items: T[]) => void,
+    onError: (error: Error) => void,
+    errorMessage: string
+  ): () => void {
+    let latest: T[] | null = null;
+    let active = true;
+
+    const deliver = async () => {
+      if (latest === null) return;
+      const items = await withPendingWrites(latest);
+      if (active) onData(items);
+    };
+
+    OfflineSyncService.getCached<T[]>(cacheKey).then(cached => {
+      if (cached && latest === null) {
+        latest = cached;
+        deliver();
+      }
+    });
+
+    const unsubscribeSnapshot = onSnapshot(
+      q,
+      (snapshot) => {
+        latest = snapshot.docs.map((doc) => {
+          const data = doc.data();
+          return {
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as T;
+        });
+        OfflineSyncService.setCached(cacheKey, latest);
+        deliver();
+      },
+      () => onError(new Error(errorMessage))
+    );
+
+    let pendingCount = OfflineSyncService.getStatus().pendingCount;
+    const unsubscribeQueue = OfflineSyncService.subscribe(status => {
+      if (status.pendingCount !== pendingCount) {
+        pendingCount = status.pendingCount;
+        deliver();
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribeSnapshot();
+      unsubscribeQueue();
+    };
+  }
+
+  /**
+   * Replay writes queued while offline. Car updates are dropped as conflicts
+   * when the car was changed on the server after the offline edit was based on it.
+   * Writes the server rejects for good, e.g. for a car deleted on another
+   * device, are dropped as conflicts too so they don't hold up the rest.
+   */
+  static async syncPendingWrites(): Promise<void> {
+    if (OfflineSyncService.getStatus().isSyncing) return;
+    if (!(await OfflineSyncService.isOnline())) return;
+
+    OfflineSyncService.setSyncing(true);
+    try {
+      const queue = await OfflineSyncService.getQueue();
+
+      for (const write of queue) {
+        try {
+          switch (write.type) {
+            case 'addMaintenanceRecord':
+              await this.writeMaintenanceRecord(write.payload);
+              break;
+            case 'addReminder': {
+              const reminderId = await this.writeReminder(write.payload);
+              this.reminderSyncedListeners.forEach(listener => listener(write.id, reminderId));
+              break;
+            }
+            case 'updateCar': {
+              const carSnap = await getDoc(doc(firestore, 'cars', write.carId));
+              if (!carSnap.exists()) break;
+
+              const serverUpdatedAt: string | undefined = carSnap.data().updatedAt?.toDate?.()?.toISOString();
+              if (
+                write.baseUpdatedAt &&
+                serverUpdatedAt &&
+                new Date(serverUpdatedAt).getTime() > new Date(write.baseUpdatedAt).getTime()
+              ) {
+                await OfflineSyncService.addConflict({
+                  write,
+                  serverUpdatedAt,
+                  detectedAt: new Date().toISOString(),
+                });
+                break;
+              }
+
+              await this.writeCarUpdate(write.carId, write.payload);
+              break;
+            }
+          }
+        } catch (error: any) {
+          if (!PERMANENT_WRITE_ERRORS.includes(error?.code)) {
+            // Keep this and the remaining writes queued in order and retry on the next sync
+            return;
+          }
+
+          await OfflineSyncService.addConflict({
+            write,
+            error: error.message,
+            detectedAt: new Date().toISOString(),
+          });
+        }
+
+        await OfflineSyncService.removeFromQueue(write.id);
+      }
+    } finally {
+      OfflineSyncService.setSyncing(false);
+    }
+  }
+
+  /**
+   * Get notified when a reminder added offline is written to Firestore, e.g. to
+   * move what was stored under its temporary id. Returns an unsubscribe function.
+   */
+  static onReminderSynced(listener: ReminderSyncedListener): () => void {
+    this.reminderSyncedListeners.add(listener);
+    return () => {
+      this.reminderSyncedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start replaying the queued writes of a user on reconnect. Returns an unsubscribe function.
+   */
+  static startOfflineSync(userId: string | null): () => void {
+    const unsubscribe = OfflineSyncService.watchConnectivity(() => {
+      this.syncPendingWrites();
+    });
+    OfflineSyncService.setUser(userId).then(() => this.syncPendingWrites());
+    return unsubscribe;
+  }
+
   static async addCar(carData: Omit<Car, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
       const cleanedData: any = {};
@@ -42,52 +321,99 @@ export class DatabaseService {
   }
 
   static async getUserCars(userId: string): Promise<Car[]> {
-    try {
-      const q = query(
-        collection(firestore, 'cars'),
-        where('ownerId', '==', userId),
-        orderBy('createdAt', 'desc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const cars: Car[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        cars.push({
+    const cars = await this.withCache(`cars:${userId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'cars'),
+          where('ownerId', '==', userId),
+          orderBy('createdAt', 'desc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const cars: Car[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          cars.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as Car);
+        });
+
+        return cars;
+      } catch (error: any) {
+        throw new Error('Failed to fetch cars');
+      }
+    });
+
+    return this.applyPendingCarUpdates(cars);
+  }
+
+  /**
+   * Live version of getUserCars. Returns an unsubscribe function.
+   */
+  static subscribeToUserCars(
+    userId: string,
+    onData: (cars: Car[]) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const q = query(
+      collection(firestore, 'cars'),
+      where('ownerId', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+
+    return this.listenToQuery<Car>(
+      q,
+      `cars:${userId}`,
+      cars => this.applyPendingCarUpdates(cars),
+      onData,
+      onError,
+      'Failed to fetch cars'
+    );
+  }
+
+  static async getCar(carId: string): Promise<Car | null> {
+    const car = await this.withCache<Car | null>(`car:${carId}`, async () => {
+      try {
+        const docRef = doc(firestore, 'cars', carId);
+        const docSnap = await getDoc(docRef);
+
+        if (!docSnap.exists()) return null;
+
+        const data = docSnap.data();
+        return {
           ...data,
-          id: doc.id,
+          id: docSnap.id,
           createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
           updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        } as Car);
-      });
-      
-      return cars;
-    } catch (error: any) {
-      throw new Error('Failed to fetch cars');
-    }
+        } as Car;
+      } catch (error) {
+        throw new Error('Failed to fetch car');
+      }
+    });
+
+    return car ? (await this.applyPendingCarUpdates([car]))[0] : null;
   }
 
-  static async getCar(carId: string): Promise<Car | null> {
-    try {
-      const docRef = doc(firestore, 'cars', carId);
-      const docSnap = await getDoc(docRef);
-      
-      if (!docSnap.exists()) return null;
-      
-      const data = docSnap.data();
-      return {
-        ...data,
-        id: docSnap.id,
-        createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-      } as Car;
-    } catch (error) {
-      throw new Error('Failed to fetch car');
+  static async updateCar(carId: string, updates: Partial<Car>): Promise<void> {
+    if (!(await OfflineSyncService.isOnline())) {
+      const cachedCar = await OfflineSyncService.getCached<Car>(`car:${carId}`);
+      await OfflineSyncService.enqueue({
+        type: 'updateCar',
+        carId,
+        payload: updates,
+        baseUpdatedAt: cachedCar?.updatedAt,
+      });
+      return;
     }
+
+    await this.writeCarUpdate(carId, updates);
   }
 
-  static async updateCar(carId: string, updates: Partial<Car>): Promise<void> {
+  private static async writeCarUpdate(carId: string, updates: Partial<Car>): Promise<void> {
     try {
       const cleanedUpdates: any = {};
       Object.entries(updates).forEach(([key, value]) => {
@@ -102,7 +428,7 @@ export class DatabaseService {
         updatedAt: serverTimestamp(),
       });
     } catch (error: any) {
-      throw new Error(`Failed to update car: ${error.message || 'Unknown error'}`);
+      throw wrapWriteError('Failed to update car', error);
     }
   }
 
@@ -136,14 +462,6 @@ export class DatabaseService {
     }
   }
 
-  static async deleteCar(carId: string): Promise<void> {
-    try {
-      await deleteDoc(doc(firestore, 'cars', carId));
-    } catch (error: any) {
-      throw new Error(`Failed to delete car: ${error.message || 'Unknown error'}`);
-    }
-  }
-
   static async searchCars(userId: string, filters: SearchFilters): Promise<Car[]> {
     try {
       let q = query(
@@ -187,6 +505,15 @@ export class DatabaseService {
   }
 
   static async addMaintenanceRecord(maintenanceData: Omit<MaintenanceRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    if (!(await OfflineSyncService.isOnline())) {
+      const pending = await OfflineSyncService.enqueue({ type: 'addMaintenanceRecord', payload: maintenanceData });
+      return pending.id;
+    }
+
+    return this.writeMaintenanceRecord(maintenanceData);
+  }
+
+  private static async writeMaintenanceRecord(maintenanceData: Omit<MaintenanceRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
       const cleanedData: any = {};
       Object.entries(maintenanceData).forEach(([key, value]) => {
@@ -200,60 +527,248 @@ export class DatabaseService {
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       });
+
+      await this.syncMaintenanceOdometerReading(docRef.id);
       
       return docRef.id;
     } catch (error: any) {
-      throw new Error(`Failed to add maintenance record: ${error.message || 'Unknown error'}`);
+      throw wrapWriteError('Failed to add maintenance record', error);
     }
   }
 
   static async getCarMaintenanceRecords(carId: string): Promise<MaintenanceRecord[]> {
+    const records = await this.withCache<MaintenanceRecord[]>(`maintenance:${carId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'maintenance'),
+          where('carId', '==', carId),
+          orderBy('maintenanceDate', 'desc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const records: MaintenanceRecord[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          records.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as MaintenanceRecord);
+        });
+
+        return records;
+      } catch (error) {
+        throw new Error('Failed to fetch maintenance records');
+      }
+    });
+
+    const pending = await this.getQueuedMaintenanceRecords([carId]);
+    return [...pending, ...records];
+  }
+
+  /**
+   * Live version of getCarMaintenanceRecords. Returns an unsubscribe function.
+   */
+  static subscribeToCarMaintenanceRecords(
+    carId: string,
+    onData: (records: MaintenanceRecord[]) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const q = query(
+      collection(firestore, 'maintenance'),
+      where('carId', '==', carId),
+      orderBy('maintenanceDate', 'desc')
+    );
+
+    return this.listenToQuery<MaintenanceRecord>(
+      q,
+      `maintenance:${carId}`,
+      async records => [...(await this.getQueuedMaintenanceRecords([carId])), ...records],
+      onData,
+      onError,
+      'Failed to fetch maintenance records'
+    );
+  }
+
+  /**
+   * Maintenance records of several cars, newest first, delivered once every
+   * car has reported its records. Built from the per-car listeners so their
+   * offline cache and queued records are reused.
+   */
+  static subscribeToMaintenanceRecordsForCars(
+    carIds: string[],
+    onData: (records: MaintenanceRecord[]) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const recordsByCar = new Map<string, MaintenanceRecord[]>();
+
+    const unsubscribers = carIds.map(carId =>
+      this.subscribeToCarMaintenanceRecords(
+        carId,
+        records => {
+          recordsByCar.set(carId, records);
+          if (recordsByCar.size === carIds.length) {
+            const merged = Array.from(recordsByCar.values()).flat();
+            onData(merged.sort((a, b) => b.maintenanceDate.localeCompare(a.maintenanceDate)));
+          }
+        },
+        onError
+      )
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Maintenance records of a car one page at a time, newest first. Records
+   * queued offline come with the first page. Without a connection there is no
+   * cursor to continue from, so the cached records are returned as one page.
+   */
+  static async getCarMaintenanceRecordsPage(
+    carId: string,
+    cursor?: PageCursor | null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<Page<MaintenanceRecord>> {
+    if (!(await OfflineSyncService.isOnline())) {
+      return { items: cursor ? [] : await this.getCarMaintenanceRecords(carId), cursor: null };
+    }
+
     try {
       const q = query(
         collection(firestore, 'maintenance'),
         where('carId', '==', carId),
         orderBy('maintenanceDate', 'desc')
       );
-      
-      const querySnapshot = await getDocs(q);
-      const records: MaintenanceRecord[] = [];
-      
-      querySnapshot.forEach((doc) => {
+
+      const page = await this.fetchPage(q, cursor, pageSize, (doc) => {
         const data = doc.data();
-        records.push({
+        return {
           ...data,
           id: doc.id,
           createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
           updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        } as MaintenanceRecord);
+        } as MaintenanceRecord;
       });
-      
-      return records;
+
+      if (!cursor) {
+        page.items = [...(await this.getQueuedMaintenanceRecords([carId])), ...page.items];
+      }
+      return page;
     } catch (error) {
       throw new Error('Failed to fetch maintenance records');
     }
   }
 
-  static async getMaintenanceRecord(recordId: string): Promise<MaintenanceRecord | null> {
+  /**
+   * Number of maintenance records of a car, counted by Firestore without downloading them
+   */
+  static async getCarMaintenanceRecordCount(carId: string): Promise<number> {
+    const pending = await this.getQueuedMaintenanceRecords([carId]);
+
+    if (!(await OfflineSyncService.isOnline())) {
+      const cached = await OfflineSyncService.getCached<MaintenanceRecord[]>(`maintenance:${carId}`);
+      return (cached?.length ?? 0) + pending.length;
+    }
+
     try {
-      const docRef = doc(firestore, 'maintenance', recordId);
-      const docSnap = await getDoc(docRef);
-      
-      if (!docSnap.exists()) return null;
-      
-      const data = docSnap.data();
-      return {
-        ...data,
-        id: docSnap.id,
-        createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-      } as MaintenanceRecord;
+      const snapshot = await getCountFromServer(
+        query(collection(firestore, 'maintenance'), where('carId', '==', carId))
+      );
+      return snapshot.data().count + pending.length;
+    } catch (error) {
+      throw new Error('Failed to count maintenance records');
+    }
+  }
+
+  /**
+   * Maintenance records of the given cars matching the filters. Filtering runs
+   * on the cached per-car lists: categories can be inferred from the description
+   * and Firestore has no full-text search, so neither can be queried server-side.
+   */
+  static async queryMaintenanceRecords(
+    carIds: string[],
+    filters: MaintenanceFilters = {},
+    sortBy: MaintenanceSortOption = 'dateDesc'
+  ): Promise<MaintenanceRecord[]> {
+    try {
+      const recordsPerCar = await Promise.all(carIds.map(carId => this.getCarMaintenanceRecords(carId)));
+      return applyMaintenanceFilters(recordsPerCar.flat(), filters, sortBy);
+    } catch (error) {
+      throw new Error('Failed to filter maintenance records');
+    }
+  }
+
+  /**
+   * Maintenance records of the given cars straight from Firestore, newest first.
+   * The car ids are queried in chunks so any number of cars is supported.
+   */
+  static async getMaintenanceRecordsForCars(carIds: string[]): Promise<MaintenanceRecord[]> {
+    const chunks: string[][] = [];
+    for (let i = 0; i < carIds.length; i += IN_QUERY_LIMIT) {
+      chunks.push(carIds.slice(i, i + IN_QUERY_LIMIT));
+    }
+
+    try {
+      const snapshots = await Promise.all(
+        chunks.map(chunk =>
+          getDocs(query(collection(firestore, 'maintenance'), where('carId', 'in', chunk)))
+        )
+      );
+
+      const records = snapshots.flatMap(snapshot =>
+        snapshot.docs.map(doc => {
+          const data = doc.data();
+          return {
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as MaintenanceRecord;
+        })
+      );
+
+      // Sorted here rather than in the queries, which would each only be sorted within their chunk
+      return records.sort((a, b) => b.maintenanceDate.localeCompare(a.maintenanceDate));
     } catch (error) {
-      throw new Error('Failed to fetch maintenance record');
+      throw new Error('Failed to fetch maintenance records');
     }
   }
 
+  static async getMaintenanceRecord(recordId: string): Promise<MaintenanceRecord | null> {
+    if (recordId.startsWith(PENDING_ID_PREFIX)) {
+      const queue = await OfflineSyncService.getQueue();
+      const write = queue.find(item => item.id === recordId && item.type === 'addMaintenanceRecord');
+      return write ? this.pendingRecord<MaintenanceRecord>(write as PendingWrite & { payload: object }) : null;
+    }
+
+    return this.withCache<MaintenanceRecord | null>(`maintenanceRecord:${recordId}`, async () => {
+      try {
+        const docRef = doc(firestore, 'maintenance', recordId);
+        const docSnap = await getDoc(docRef);
+
+        if (!docSnap.exists()) return null;
+
+        const data = docSnap.data();
+        return {
+          ...data,
+          id: docSnap.id,
+          createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+        } as MaintenanceRecord;
+      } catch (error) {
+        throw new Error('Failed to fetch maintenance record');
+      }
+    });
+  }
+
   static async updateMaintenanceRecord(recordId: string, updates: Partial<MaintenanceRecord>): Promise<void> {
+    if (recordId.startsWith(PENDING_ID_PREFIX)) {
+      await OfflineSyncService.updateQueuedPayload(recordId, 'addMaintenanceRecord', updates);
+      return;
+    }
+
     try {
       const cleanedUpdates: any = {};
       Object.entries(updates).forEach(([key, value]) => {
@@ -267,19 +782,281 @@ export class DatabaseService {
         ...cleanedUpdates,
         updatedAt: serverTimestamp(),
       });
+
+      if (updates.mileage !== undefined || updates.maintenanceDate !== undefined) {
+        await this.syncMaintenanceOdometerReading(recordId);
+      }
     } catch (error: any) {
       throw new Error(`Failed to update maintenance record: ${error.message || 'Unknown error'}`);
     }
   }
 
   static async deleteMaintenanceRecord(recordId: string): Promise<void> {
+    if (recordId.startsWith(PENDING_ID_PREFIX)) {
+      await OfflineSyncService.removeFromQueue(recordId);
+      return;
+    }
+
     try {
+      const recordSnap = await getDoc(doc(firestore, 'maintenance', recordId));
       await deleteDoc(doc(firestore, 'maintenance', recordId));
+
+      if (recordSnap.exists()) {
+        const record = recordSnap.data();
+        await this.syncSourceOdometerReading(record.carId, 'maintenance', recordId);
+        await ImageUploadService.deleteImages(record.imageUrls || []);
+      }
     } catch (error: any) {
       throw new Error(`Failed to delete maintenance record: ${error.message || 'Unknown error'}`);
     }
   }
 
+  /**
+   * Mirror the mileage of a maintenance record into the car's odometer log.
+   * The log is secondary, so failing to update it does not fail the record.
+   */
+  private static async syncMaintenanceOdometerReading(recordId: string): Promise<void> {
+    try {
+      const recordSnap = await getDoc(doc(firestore, 'maintenance', recordId));
+      if (!recordSnap.exists()) return;
+
+      const record = recordSnap.data();
+      await this.syncSourceOdometerReading(
+        record.carId,
+        'maintenance',
+        recordId,
+        record.maintenanceDate,
+        record.mileage
+      );
+    } catch (error) {
+      // The odometer log is rebuilt the next time the record is saved
+    }
+  }
+
+  static async addOdometerReading(readingData: Omit<OdometerReading, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    try {
+      const cleanedData: any = {};
+      Object.entries(readingData).forEach(([key, value]) => {
+        if (value !== undefined) {
+          cleanedData[key] = value;
+        }
+      });
+
+      const docRef = await addDoc(collection(firestore, 'odometerReadings'), {
+        ...cleanedData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      await this.raiseCarMileage(readingData.carId, readingData.reading);
+
+      return docRef.id;
+    } catch (error: any) {
+      throw new Error(`Failed to add odometer reading: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  static async getCarOdometerReadings(carId: string): Promise<OdometerReading[]> {
+    return this.withCache<OdometerReading[]>(`odometer:${carId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'odometerReadings'),
+          where('carId', '==', carId),
+          orderBy('readingDate', 'desc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const readings: OdometerReading[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          readings.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as OdometerReading);
+        });
+
+        return readings;
+      } catch (error) {
+        throw new Error('Failed to fetch odometer readings');
+      }
+    });
+  }
+
+  static async deleteOdometerReading(readingId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(firestore, 'odometerReadings', readingId));
+    } catch (error: any) {
+      throw new Error(`Failed to delete odometer reading: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create, update or (without a reading) remove the odometer reading that was
+   * taken from a maintenance record or fuel entry
+   */
+  static async syncSourceOdometerReading(
+    carId: string,
+    source: OdometerSource,
+    sourceId: string,
+    readingDate?: string,
+    reading?: number
+  ): Promise<void> {
+    const q = query(
+      collection(firestore, 'odometerReadings'),
+      where('carId', '==', carId),
+      where('sourceId', '==', sourceId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    if (reading === undefined || reading === null || !readingDate) {
+      await Promise.all(querySnapshot.docs.map(readingDoc => deleteDoc(readingDoc.ref)));
+      return;
+    }
+
+    const date = readingDate.split('T')[0];
+    const [existing, ...duplicates] = querySnapshot.docs;
+    if (existing) {
+      await updateDoc(existing.ref, { readingDate: date, reading, updatedAt: serverTimestamp() });
+      await Promise.all(duplicates.map(readingDoc => deleteDoc(readingDoc.ref)));
+      await this.raiseCarMileage(carId, reading);
+    } else {
+      await this.addOdometerReading({ carId, readingDate: date, reading, source, sourceId });
+    }
+  }
+
+  static async addFuelEntry(entryData: Omit<FuelEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    try {
+      const cleanedData: any = {};
+      Object.entries(entryData).forEach(([key, value]) => {
+        if (value !== undefined) {
+          cleanedData[key] = value;
+        }
+      });
+
+      const docRef = await addDoc(collection(firestore, 'fuelEntries'), {
+        ...cleanedData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      try {
+        await this.syncSourceOdometerReading(entryData.carId, 'fuel', docRef.id, entryData.fillDate, entryData.odometer);
+      } catch (error) {
+        // The fuel entry is saved even if the odometer log could not be updated
+      }
+
+      return docRef.id;
+    } catch (error: any) {
+      throw new Error(`Failed to add fuel entry: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  static async getCarFuelEntries(carId: string): Promise<FuelEntry[]> {
+    return this.withCache<FuelEntry[]>(`fuel:${carId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'fuelEntries'),
+          where('carId', '==', carId),
+          orderBy('fillDate', 'desc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const entries: FuelEntry[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          entries.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as FuelEntry);
+        });
+
+        return entries;
+      } catch (error) {
+        throw new Error('Failed to fetch fuel entries');
+      }
+    });
+  }
+
+  static async getFuelEntry(entryId: string): Promise<FuelEntry | null> {
+    return this.withCache<FuelEntry | null>(`fuelEntry:${entryId}`, async () => {
+      try {
+        const docSnap = await getDoc(doc(firestore, 'fuelEntries', entryId));
+
+        if (!docSnap.exists()) return null;
+
+        const data = docSnap.data();
+        return {
+          ...data,
+          id: docSnap.id,
+          createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+        } as FuelEntry;
+      } catch (error) {
+        throw new Error('Failed to fetch fuel entry');
+      }
+    });
+  }
+
+  static async updateFuelEntry(entryId: string, updates: Partial<FuelEntry>): Promise<void> {
+    try {
+      const cleanedUpdates: any = {};
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined) {
+          cleanedUpdates[key] = value;
+        }
+      });
+
+      const entryRef = doc(firestore, 'fuelEntries', entryId);
+      await updateDoc(entryRef, {
+        ...cleanedUpdates,
+        updatedAt: serverTimestamp(),
+      });
+
+      if (updates.odometer !== undefined || updates.fillDate !== undefined) {
+        try {
+          const entrySnap = await getDoc(entryRef);
+          if (entrySnap.exists()) {
+            const entry = entrySnap.data();
+            await this.syncSourceOdometerReading(entry.carId, 'fuel', entryId, entry.fillDate, entry.odometer);
+          }
+        } catch (error) {
+          // The fuel entry is saved even if the odometer log could not be updated
+        }
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to update fuel entry: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  static async deleteFuelEntry(entryId: string): Promise<void> {
+    try {
+      const entrySnap = await getDoc(doc(firestore, 'fuelEntries', entryId));
+      await deleteDoc(doc(firestore, 'fuelEntries', entryId));
+
+      if (entrySnap.exists()) {
+        await this.syncSourceOdometerReading(entrySnap.data().carId, 'fuel', entryId);
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to delete fuel entry: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Car.mileage always holds the highest known odometer reading
+   */
+  private static async raiseCarMileage(carId: string, reading: number): Promise<void> {
+    const car = await this.getCar(carId);
+    if (car && reading > (car.mileage || 0)) {
+      await this.updateCar(carId, { mileage: reading });
+    }
+  }
+
 
   static async addNotification(notificationData: Omit<Notification, 'id' | 'createdAt'>): Promise<string> {
     try {
@@ -339,86 +1116,32 @@ export class DatabaseService {
     }
   }
 
-  static async getDashboardStats(userId: string): Promise<{
-    totalCars: number;
-    totalMaintenanceRecords: number;
-    totalMaintenanceCost: number;
-    upcomingMaintenance: number;
-  }> {
-    try {
-      let cars: Car[] = [];
-      let maintenance: MaintenanceRecord[] = [];
+  /**
+   * Maintenance records of all cars of a user, newest first
+   */
+  static async getUserMaintenanceRecords(userId: string): Promise<MaintenanceRecord[]> {
+    const cars = await this.getUserCars(userId);
+    const carIds = cars.map(car => car.id);
 
-      try {
-        cars = await this.getUserCars(userId);
-      } catch (error) {
-        // Silently handle error
-      }
+    const records = await this.withCache<MaintenanceRecord[]>(`maintenance:user:${userId}`, () =>
+      this.getMaintenanceRecordsForCars(carIds)
+    );
 
-      try {
-        maintenance = await this.getUserMaintenanceRecords(userId);
-      } catch (error) {
-        // Silently handle error
-      }
-
-      const totalMaintenanceCost = maintenance.reduce((sum, record) => sum + (record.cost || 0), 0);
-
-      const now = new Date();
-      const oneMonthFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-      
-      const upcomingMaintenance = maintenance.filter(record => {
-        if (!record.nextDueDate) return false;
-        const dueDate = new Date(record.nextDueDate);
-        return dueDate <= oneMonthFromNow && dueDate >= now;
-      }).length;
-
-      return {
-        totalCars: cars.length,
-        totalMaintenanceRecords: maintenance.length,
-        totalMaintenanceCost,
-        upcomingMaintenance,
-      };
-    } catch (error: any) {
-      throw new Error('Failed to fetch dashboard statistics');
-    }
+    const pending = await this.getQueuedMaintenanceRecords(carIds);
+    return [...pending, ...records];
   }
 
-  private static async getUserMaintenanceRecords(userId: string): Promise<MaintenanceRecord[]> {
-    try {
-      const cars = await this.getUserCars(userId);
-      const carIds = cars.map(car => car.id);
-      
-      if (carIds.length === 0) {
-        return [];
-      }
 
-      const q = query(
-        collection(firestore, 'maintenance'),
-        where('carId', 'in', carIds),
-        orderBy('maintenanceDate', 'desc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const records: MaintenanceRecord[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        records.push({
-          ...data,
-          id: doc.id,
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        } as MaintenanceRecord);
-      });
-      
-      return records;
-    } catch (error: any) {
-      throw error;
+  static async addReminder(reminderData: Omit<Reminder, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    if (!(await OfflineSyncService.isOnline())) {
+      const pending = await OfflineSyncService.enqueue({ type: 'addReminder', payload: reminderData });
+      return pending.id;
     }
-  }
 
+    return this.writeReminder(reminderData);
+  }
 
-  static async addReminder(reminderData: Omit<Reminder, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  private static async writeReminder(reminderData: Omit<Reminder, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
       const cleanedData: any = {};
       Object.entries(reminderData).forEach(([key, value]) => {
@@ -435,57 +1158,107 @@ export class DatabaseService {
       
       return docRef.id;
     } catch (error: any) {
-      throw new Error(`Failed to add reminder: ${error.message || 'Unknown error'}`);
+      throw wrapWriteError('Failed to add reminder', error);
     }
   }
 
   static async getUserReminders(userId: string): Promise<Reminder[]> {
-    try {
-      const q = query(
-        collection(firestore, 'reminders'),
-        where('userId', '==', userId),
-        orderBy('reminderDate', 'asc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const reminders: Reminder[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        reminders.push({
+    const reminders = await this.withCache<Reminder[]>(`reminders:${userId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'reminders'),
+          where('userId', '==', userId),
+          orderBy('reminderDate', 'asc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const reminders: Reminder[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          reminders.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as Reminder);
+        });
+
+        return reminders;
+      } catch (error: any) {
+        throw new Error('Failed to fetch reminders');
+      }
+    });
+
+    const pending = await this.getQueuedReminders(reminder => reminder.userId === userId);
+    return [...reminders, ...pending].sort((a, b) => a.reminderDate.localeCompare(b.reminderDate));
+  }
+
+  /**
+   * Live version of getUserReminders. Returns an unsubscribe function.
+   */
+  static subscribeToUserReminders(
+    userId: string,
+    onData: (reminders: Reminder[]) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const q = query(
+      collection(firestore, 'reminders'),
+      where('userId', '==', userId),
+      orderBy('reminderDate', 'asc')
+    );
+
+    return this.listenToQuery<Reminder>(
+      q,
+      `reminders:${userId}`,
+      async reminders => {
+        const pending = await this.getQueuedReminders(reminder => reminder.userId === userId);
+        return [...reminders, ...pending].sort((a, b) => a.reminderDate.localeCompare(b.reminderDate));
+      },
+      onData,
+      onError,
+      'Failed to fetch reminders'
+    );
+  }
+
+  static async getReminder(reminderId: string): Promise<Reminder | null> {
+    if (reminderId.startsWith(PENDING_ID_PREFIX)) {
+      const queue = await OfflineSyncService.getQueue();
+      const write = queue.find(item => item.id === reminderId && item.type === 'addReminder');
+      return write ? this.pendingRecord<Reminder>(write as PendingWrite & { payload: object }) : null;
+    }
+
+    return this.withCache<Reminder | null>(`reminder:${reminderId}`, async () => {
+      try {
+        const docRef = doc(firestore, 'reminders', reminderId);
+        const docSnap = await getDoc(docRef);
+
+        if (!docSnap.exists()) return null;
+
+        const data = docSnap.data();
+        return {
           ...data,
-          id: doc.id,
+          id: docSnap.id,
           createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
           updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        } as Reminder);
-      });
-      
-      return reminders;
-    } catch (error: any) {
-      throw new Error('Failed to fetch reminders');
-    }
+        } as Reminder;
+      } catch (error) {
+        throw new Error('Failed to fetch reminder');
+      }
+    });
   }
 
-  static async getReminder(reminderId: string): Promise<Reminder | null> {
-    try {
-      const docRef = doc(firestore, 'reminders', reminderId);
-      const docSnap = await getDoc(docRef);
-      
-      if (!docSnap.exists()) return null;
-      
-      const data = docSnap.data();
-      return {
-        ...data,
-        id: docSnap.id,
-        createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-      } as Reminder;
-    } catch (error) {
-      throw new Error('Failed to fetch reminder');
+  static async updateReminder(
+    reminderId: string,
+    updates: Partial<Reminder>,
+    removeFields: (keyof Reminder)[] = []
+  ): Promise<void> {
+    if (reminderId.startsWith(PENDING_ID_PREFIX)) {
+      const removed: Partial<Reminder> = Object.fromEntries(removeFields.map(field => [field, undefined]));
+      await OfflineSyncService.updateQueuedPayload(reminderId, 'addReminder', { ...updates, ...removed });
+      return;
     }
-  }
 
-  static async updateReminder(reminderId: string, updates: Partial<Reminder>): Promise<void> {
     try {
       const cleanedUpdates: any = {};
       Object.entries(updates).forEach(([key, value]) => {
@@ -493,6 +1266,9 @@ export class DatabaseService {
           cleanedUpdates[key] = value;
         }
       });
+      removeFields.forEach((field) => {
+        cleanedUpdates[field] = deleteField();
+      });
       
       const reminderRef = doc(firestore, 'reminders', reminderId);
       await updateDoc(reminderRef, {
@@ -504,7 +1280,36 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Mark a reminder as completed. For recurring reminders the next occurrence
+   * is created and returned.
+   */
+  static async completeReminder(reminder: Reminder): Promise<Reminder | null> {
+    await this.updateReminder(reminder.id, { status: 'completed' });
+
+    if (!reminder.recurrence) return null;
+
+    let currentMileage: number | undefined;
+    if (reminder.recurrence.unit === 'km' && reminder.carId) {
+      const car = await this.getCar(reminder.carId);
+      currentMileage = car?.mileage;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const nextReminder = getNextOccurrence(reminder, today, currentMileage);
+    if (!nextReminder) return null;
+
+    const nextId = await this.addReminder(nextReminder);
+    const now = new Date().toISOString();
+    return { ...nextReminder, id: nextId, createdAt: now, updatedAt: now };
+  }
+
   static async deleteReminder(reminderId: string): Promise<void> {
+    if (reminderId.startsWith(PENDING_ID_PREFIX)) {
+      await OfflineSyncService.removeFromQueue(reminderId);
+      return;
+    }
+
     try {
       const reminderRef = doc(firestore, 'reminders', reminderId);
       await deleteDoc(reminderRef);
@@ -514,58 +1319,68 @@ export class DatabaseService {
   }
 
   static async getCarReminders(carId: string): Promise<Reminder[]> {
-    try {
-      const q = query(
-        collection(firestore, 'reminders'),
-        where('carId', '==', carId),
-        where('status', '==', 'pending'),
-        orderBy('reminderDate', 'asc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const reminders: Reminder[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        reminders.push({
-          ...data,
-          id: doc.id,
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        } as Reminder);
-      });
-      
-      return reminders;
-    } catch (error: any) {
-      throw new Error('Failed to fetch car reminders');
-    }
+    const reminders = await this.withCache<Reminder[]>(`reminders:car:${carId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'reminders'),
+          where('carId', '==', carId),
+          where('status', '==', 'pending'),
+          orderBy('reminderDate', 'asc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const reminders: Reminder[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          reminders.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as Reminder);
+        });
+
+        return reminders;
+      } catch (error: any) {
+        throw new Error('Failed to fetch car reminders');
+      }
+    });
+
+    const pending = await this.getQueuedReminders(reminder => reminder.carId === carId && reminder.status === 'pending');
+    return [...reminders, ...pending].sort((a, b) => a.reminderDate.localeCompare(b.reminderDate));
   }
 
   static async getPendingReminders(userId: string): Promise<Reminder[]> {
-    try {
-      const q = query(
-        collection(firestore, 'reminders'),
-        where('userId', '==', userId),
-        where('status', '==', 'pending'),
-        orderBy('reminderDate', 'asc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const reminders: Reminder[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        reminders.push({
-          ...data,
-          id: doc.id,
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-        } as Reminder);
-      });
-      
-      return reminders;
-    } catch (error: any) {
-      throw new Error('Failed to fetch pending reminders');
-    }
+    const reminders = await this.withCache<Reminder[]>(`reminders:pending:${userId}`, async () => {
+      try {
+        const q = query(
+          collection(firestore, 'reminders'),
+          where('userId', '==', userId),
+          where('status', '==', 'pending'),
+          orderBy('reminderDate', 'asc')
+        );
+
+        const querySnapshot = await getDocs(q);
+        const reminders: Reminder[] = [];
+
+        querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          reminders.push({
+            ...data,
+            id: doc.id,
+            createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+            updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
+          } as Reminder);
+        });
+
+        return reminders;
+      } catch (error: any) {
+        throw new Error('Failed to fetch pending reminders');
+      }
+    });
+
+    const pending = await this.getQueuedReminders(reminder => reminder.userId === userId && reminder.status === 'pending');
+    return [...reminders, ...pending].sort((a, b) => a.reminderDate.localeCompare(b.reminderDate));
   }
 }
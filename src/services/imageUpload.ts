@@ -1,9 +1,19 @@
-import { storage } from '../config/firebase';
-import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { auth, storage } from '../config/firebase';
+import { ref, uploadBytes, getDownloadURL, deleteObject, UploadMetadata } from 'firebase/storage';
 import * as ImagePicker from 'expo-image-picker';
 import { Alert } from 'react-native';
 
 export class ImageUploadService {
+  /**
+   * Metadata of every upload. The security rules let the uploader delete a
+   * photo through `ownerId` even after the car it belongs to is gone.
+   */
+  private static getUploadMetadata(): UploadMetadata {
+    const uid = auth.currentUser?.uid;
+    if (!uid) throw new Error('You must be signed in to upload photos');
+    return { customMetadata: { ownerId: uid } };
+  }
+
   /**
    * Request camera permissions
    */
@@ -45,17 +55,17 @@ export class ImageUploadService {
   }
 
   /**
-   * Take a photo with camera
+   * Take a photo with camera. Documents such as receipts skip the 4:3 crop.
    */
-  static async takePhoto(): Promise<string | null> {
+  static async takePhoto(allowsEditing: boolean = true): Promise<string | null> {
     try {
       const hasPermission = await this.requestCameraPermission();
       if (!hasPermission) return null;
 
       const result = await ImagePicker.launchCameraAsync({
         mediaTypes: 'images' as ImagePicker.MediaType,
-        allowsEditing: true,
-        aspect: [4, 3],
+        allowsEditing,
+        aspect: allowsEditing ? [4, 3] : undefined,
         quality: 0.8,
       });
 
@@ -73,15 +83,15 @@ export class ImageUploadService {
   /**
    * Pick an image from gallery
    */
-  static async pickImage(): Promise<string | null> {
+  static async pickImage(allowsEditing: boolean = true): Promise<string | null> {
     try {
       const hasPermission = await this.requestGalleryPermission();
       if (!hasPermission) return null;
 
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: 'images' as ImagePicker.MediaType,
-        allowsEditing: true,
-        aspect: [4, 3],
+        allowsEditing,
+        aspect: allowsEditing ? [4, 3] : undefined,
         quality: 0.8,
       });
 
@@ -110,7 +120,7 @@ export class ImageUploadService {
       const storageRef = ref(storage, `cars/${carId}/${filename}`);
 
       // Upload the image
-      await uploadBytes(storageRef, blob);
+      await uploadBytes(storageRef, blob, this.getUploadMetadata());
 
       // Get the download URL
       const downloadURL = await getDownloadURL(storageRef);
@@ -121,6 +131,33 @@ export class ImageUploadService {
     }
   }
 
+  /**
+   * Upload a receipt or invoice photo of a maintenance record
+   */
+  static async uploadMaintenanceImage(carId: string, imageUri: string): Promise<string> {
+    try {
+      const response = await fetch(imageUri);
+      const blob = await response.blob();
+
+      // Several photos can be uploaded in the same millisecond, so add a random suffix
+      const filename = `receipt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.jpg`;
+      const storageRef = ref(storage, `maintenance/${carId}/${filename}`);
+
+      await uploadBytes(storageRef, blob, this.getUploadMetadata());
+      return await getDownloadURL(storageRef);
+    } catch (error: any) {
+      throw new Error('Failed to upload image: ' + (error.message || 'Unknown error'));
+    }
+  }
+
+  /**
+   * Delete several images, e.g. the attachments of a deleted record. Files that
+   * cannot be deleted are left behind rather than failing the caller.
+   */
+  static async deleteImages(imageUrls: string[]): Promise<void> {
+    await Promise.allSettled(imageUrls.map(imageUrl => deleteObject(ref(storage, imageUrl))));
+  }
+
   /**
    * Delete image from Firebase Storage
    */
@@ -139,10 +176,11 @@ export class ImageUploadService {
    */
   static async showImageSourceDialog(
     onCamera: () => void,
-    onGallery: () => void
+    onGallery: () => void,
+    title: string = 'Add Car Photo'
   ): Promise<void> {
     Alert.alert(
-      'Add Car Photo',
+      title,
       'Choose a photo source',
       [
         {
@@ -0,0 +1,329 @@
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { DatabaseService } from './database';
+import { AuthService } from './auth';
+import { Car, Notification, NotificationType, Reminder, ReminderType } from '../types';
+
+const REMINDER_CHANNEL_ID = 'reminders';
+const DEFAULT_REMINDER_TIME = '09:00';
+const SCHEDULED_KEY = '@notifications:scheduled';
+
+type ReminderStage = 'before' | 'due';
+
+// A device notification waiting to fire, recorded in the inbox once it has
+interface ScheduledNotification {
+  identifier: string;
+  reminderId: string;
+  date: string;
+  notification: Omit<Notification, 'id' | 'createdAt'>;
+}
+
+const getNotificationType = (type: ReminderType): NotificationType => {
+  switch (type) {
+    case 'Oil Change':
+      return 'OIL_CHANGE_DUE';
+    case 'Inspection':
+      return 'INSPECTION_DUE';
+    case 'Tire Rotation':
+    case 'Service Appointment':
+      return 'MAINTENANCE_DUE';
+    default:
+      return 'REMINDER';
+  }
+};
+
+const getIdentifier = (reminderId: string, stage: ReminderStage) => `reminder-${reminderId}-${stage}`;
+
+/**
+ * Build the local date/time a reminder is due, from its YYYY-MM-DD date and HH:MM time
+ */
+const getDueDate = (reminder: Reminder): Date => {
+  const [year, month, day] = reminder.reminderDate.split('-').map(Number);
+  const [hours, minutes] = (reminder.reminderTime || DEFAULT_REMINDER_TIME).split(':').map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+export class NotificationSchedulerService {
+  /**
+   * Configure how notifications are presented and create the Android channel
+   */
+  static async configure(): Promise<void> {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+  }
+
+  /**
+   * Request notification permissions
+   */
+  static async requestPermission(): Promise<boolean> {
+    try {
+      const { status: existingStatus } = await Notifications.getPermissionsAsync();
+      if (existingStatus === 'granted') return true;
+
+      const { status } = await Notifications.requestPermissionsAsync();
+      return status === 'granted';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Register this device for push notifications and store its Expo push token
+   * on the user profile so reminders can also be delivered from the server
+   */
+  static async registerForPushNotifications(userId: string): Promise<string | null> {
+    if (!Device.isDevice) return null;
+
+    const hasPermission = await this.requestPermission();
+    if (!hasPermission) return null;
+
+    try {
+      // Required outside Expo Go, where the project can't be inferred
+      const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+      if (!projectId) return null;
+
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+      await AuthService.updateProfile(userId, { expoPushToken: token });
+      return token;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Schedule the device notifications for a reminder, replacing any that were
+   * scheduled before: one `notifyBefore` days ahead and one at the due time.
+   * The Notification documents are only written once they fire, see recordDueNotifications.
+   */
+  static async scheduleReminder(reminder: Reminder, car?: Car): Promise<void> {
+    await this.cancelReminder(reminder.id, reminder.userId);
+
+    if (reminder.status !== 'pending' || !reminder.reminderDate) return;
+
+    const hasPermission = await this.requestPermission();
+    if (!hasPermission) return;
+
+    const dueDate = getDueDate(reminder);
+    if (isNaN(dueDate.getTime())) return;
+
+    const carLabel = car ? ` for your ${car.make} ${car.model}` : '';
+    const stages: { stage: ReminderStage; date: Date; body: string }[] = [];
+
+    if (reminder.notifyBefore && reminder.notifyBefore > 0) {
+      const days = reminder.notifyBefore;
+      stages.push({
+        stage: 'before',
+        date: new Date(dueDate.getTime() - days * 24 * 60 * 60 * 1000),
+        body: `${reminder.title}${carLabel} is due in ${days} day${days !== 1 ? 's' : ''}.`,
+      });
+    }
+
+    stages.push({
+      stage: 'due',
+      date: dueDate,
+      body: `${reminder.title}${carLabel} is due today.`,
+    });
+
+    const now = Date.now();
+    const scheduled = await this.getScheduled();
+    for (const { stage, date, body } of stages) {
+      if (date.getTime() <= now) continue;
+
+      const identifier = getIdentifier(reminder.id, stage);
+      await Notifications.scheduleNotificationAsync({
+        identifier,
+        content: {
+          title: reminder.title,
+          body,
+          data: { reminderId: reminder.id, carId: reminder.carId },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+
+      scheduled.push({
+        identifier,
+        reminderId: reminder.id,
+        date: date.toISOString(),
+        notification: {
+          userId: reminder.userId,
+          title: reminder.title,
+          body,
+          type: getNotificationType(reminder.type),
+          data: {
+            reminderId: reminder.id,
+            carId: reminder.carId || null,
+            scheduledFor: date.toISOString(),
+          },
+          read: false,
+        },
+      });
+    }
+    await this.saveScheduled(scheduled);
+  }
+
+  /**
+   * Write the Notification documents of device notifications that have fired.
+   * Notifications delivered while the app was closed are never seen by it, so
+   * this runs on start and when the app comes back as well as on receipt.
+   */
+  static async recordDueNotifications(userId: string): Promise<void> {
+    const scheduled = await this.getScheduled();
+    const now = Date.now();
+    const remaining: ScheduledNotification[] = [];
+
+    for (const entry of scheduled) {
+      if (entry.notification.userId !== userId || new Date(entry.date).getTime() > now) {
+        remaining.push(entry);
+        continue;
+      }
+
+      try {
+        await DatabaseService.addNotification(entry.notification);
+      } catch (error) {
+        // Try again next time
+        remaining.push(entry);
+      }
+    }
+
+    if (remaining.length !== scheduled.length) {
+      await this.saveScheduled(remaining);
+    }
+  }
+
+  /**
+   * Cancel the device notifications of a reminder that have not fired yet
+   */
+  static async cancelReminder(reminderId: string, userId: string): Promise<void> {
+    await Promise.all(
+      (['before', 'due'] as ReminderStage[]).map(stage =>
+        Notifications.cancelScheduledNotificationAsync(getIdentifier(reminderId, stage)).catch(() => undefined)
+      )
+    );
+
+    // Ones that are due but not recorded yet have been delivered, keep those
+    const now = Date.now();
+    const scheduled = await this.getScheduled();
+    await this.saveScheduled(
+      scheduled.filter(
+        entry =>
+          entry.reminderId !== reminderId ||
+          entry.notification.userId !== userId ||
+          new Date(entry.date).getTime() <= now
+      )
+    );
+  }
+
+  /**
+   * Move the notifications of a reminder added offline to the id it got once
+   * it synced, so they can still be cancelled and are recorded only once
+   */
+  static async moveReminder(pendingId: string, reminderId: string): Promise<void> {
+    const now = Date.now();
+    const scheduled = await this.getScheduled();
+    const moved: ScheduledNotification[] = [];
+
+    for (const entry of scheduled) {
+      if (entry.reminderId !== pendingId) {
+        moved.push(entry);
+        continue;
+      }
+
+      const stage: ReminderStage = entry.identifier.endsWith('-before') ? 'before' : 'due';
+      const identifier = getIdentifier(reminderId, stage);
+      const data = { ...entry.notification.data, reminderId };
+
+      if (new Date(entry.date).getTime() > now) {
+        await Notifications.cancelScheduledNotificationAsync(entry.identifier).catch(() => undefined);
+        await Notifications.scheduleNotificationAsync({
+          identifier,
+          content: {
+            title: entry.notification.title,
+            body: entry.notification.body,
+            data: { reminderId, carId: data.carId ?? undefined },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: new Date(entry.date),
+            channelId: REMINDER_CHANNEL_ID,
+          },
+        });
+      }
+
+      moved.push({ ...entry, identifier, reminderId, notification: { ...entry.notification, data } });
+    }
+
+    await this.saveScheduled(moved);
+  }
+
+  /**
+   * Reschedule notifications for all pending reminders of a user,
+   * e.g. after signing in on a new device
+   */
+  static async rescheduleAll(userId: string): Promise<void> {
+    // Record what fired before rescheduling replaces it
+    await this.recordDueNotifications(userId);
+
+    const [reminders, cars] = await Promise.all([
+      DatabaseService.getPendingReminders(userId),
+      DatabaseService.getUserCars(userId),
+    ]);
+
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const activeIds = new Set(reminders.map(reminder => reminder.id));
+    await Promise.all(
+      scheduled
+        .filter(request => request.identifier.startsWith('reminder-'))
+        .filter(request => !activeIds.has(request.content.data?.reminderId as string))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+
+    // Forget the ones just cancelled, so they are never recorded in the inbox
+    const now = Date.now();
+    const stored = await this.getScheduled();
+    await this.saveScheduled(
+      stored.filter(
+        entry =>
+          entry.notification.userId !== userId ||
+          activeIds.has(entry.reminderId) ||
+          new Date(entry.date).getTime() <= now
+      )
+    );
+
+    for (const reminder of reminders) {
+      await this.scheduleReminder(reminder, cars.find(car => car.id === reminder.carId));
+    }
+  }
+
+  private static async getScheduled(): Promise<ScheduledNotification[]> {
+    try {
+      const value = await AsyncStorage.getItem(SCHEDULED_KEY);
+      return value ? JSON.parse(value) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private static async saveScheduled(scheduled: ScheduledNotification[]): Promise<void> {
+    await AsyncStorage.setItem(SCHEDULED_KEY, JSON.stringify(scheduled)).catch(() => undefined);
+  }
+}
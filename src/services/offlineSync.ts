@@ -0,0 +1,293 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { Car, MaintenanceRecord, Reminder } from '../types';
+
+const CACHE_PREFIX = '@cache:';
+// Suffixed with the uid, so an account never replays the writes of another one on the same device
+const QUEUE_KEY = '@offline:writeQueue';
+const CONFLICTS_KEY = '@offline:conflicts';
+
+export const PENDING_ID_PREFIX = 'pending-';
+
+export type PendingWrite =
+  | {
+      id: string;
+      type: 'addMaintenanceRecord';
+      payload: Omit<MaintenanceRecord, 'id' | 'createdAt' | 'updatedAt'>;
+      queuedAt: string;
+    }
+  | {
+      id: string;
+      type: 'addReminder';
+      payload: Omit<Reminder, 'id' | 'createdAt' | 'updatedAt'>;
+      queuedAt: string;
+    }
+  | {
+      id: string;
+      type: 'updateCar';
+      carId: string;
+      payload: Partial<Car>;
+      // updatedAt of the cached car the edit was based on
+      baseUpdatedAt?: string;
+      queuedAt: string;
+    };
+
+type QueuedAdd = Extract<PendingWrite, { type: 'addMaintenanceRecord' | 'addReminder' }>;
+
+// Distributive Omit so each PendingWrite variant keeps its own fields
+type NewPendingWrite = PendingWrite extends infer W
+  ? W extends PendingWrite
+    ? Omit<W, 'id' | 'queuedAt'>
+    : never
+  : never;
+
+export interface SyncConflict {
+  write: PendingWrite;
+  // Set when a car edit was dropped because the car changed on the server
+  serverUpdatedAt?: string;
+  // Set when the server rejected the write for good, e.g. because its car was deleted
+  error?: string;
+  detectedAt: string;
+}
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+/**
+ * Local persistence for offline use: a read cache for Firestore data and a
+ * queue of writes made while the device had no connection. DatabaseService
+ * decides what to cache and how queued writes are replayed.
+ */
+export class OfflineSyncService {
+  private static status: SyncStatus = {
+    isOnline: true,
+    isSyncing: false,
+    pendingCount: 0,
+    conflicts: [],
+  };
+
+  private static listeners = new Set<SyncListener>();
+
+  private static userId: string | null = null;
+
+  /**
+   * Switch the queue and conflicts to those of the signed-in user
+   */
+  static async setUser(userId: string | null): Promise<void> {
+    this.userId = userId;
+    if (userId) {
+      await this.adoptUnscopedQueue(userId);
+    }
+    await this.refreshStatus();
+  }
+
+  static async isOnline(): Promise<boolean> {
+    try {
+      const state = await NetInfo.fetch();
+      // isInternetReachable is null while unknown; only treat an explicit false as offline
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      this.setStatus({ isOnline: online });
+      return online;
+    } catch (error) {
+      return true;
+    }
+  }
+
+  /**
+   * Watch connectivity and call onReconnect whenever the device comes back online
+   */
+  static watchConnectivity(onReconnect: () => void): () => void {
+    this.refreshStatus();
+
+    return NetInfo.addEventListener((state) => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      const wasOffline = !this.status.isOnline;
+      this.setStatus({ isOnline: online });
+      if (online && wasOffline) {
+        onReconnect();
+      }
+    });
+  }
+
+  static async getCached<T>(key: string): Promise<T | null> {
+    try {
+      const value = await AsyncStorage.getItem(CACHE_PREFIX + key);
+      return value ? (JSON.parse(value) as T) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async setCached<T>(key: string, value: T): Promise<void> {
+    try {
+      await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      // Caching is best effort
+    }
+  }
+
+  static async removeCached(key: string): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(CACHE_PREFIX + key);
+    } catch (error) {
+      // Caching is best effort
+    }
+  }
+
+  static async getQueue(): Promise<PendingWrite[]> {
+    if (!this.userId) return [];
+
+    try {
+      const value = await AsyncStorage.getItem(`${QUEUE_KEY}:${this.userId}`);
+      return value ? (JSON.parse(value) as PendingWrite[]) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async enqueue(write: NewPendingWrite): Promise<PendingWrite> {
+    if (!this.userId) throw new Error('You must be signed in to save changes offline');
+
+    const queue = await this.getQueue();
+    const pending = {
+      ...write,
+      id: `${PENDING_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+    } as PendingWrite;
+
+    queue.push(pending);
+    await this.saveQueue(queue);
+    return pending;
+  }
+
+  /**
+   * Apply edits to a queued add so it is written with the latest values
+   */
+  static async updateQueuedPayload<T extends QueuedAdd['type']>(
+    writeId: string,
+    type: T,
+    updates: Partial<Extract<QueuedAdd, { type: T }>['payload']>
+  ): Promise<boolean> {
+    const queue = await this.getQueue();
+    const write = queue.find(
+      (item): item is Extract<QueuedAdd, { type: T }> => item.id === writeId && item.type === type
+    );
+    if (!write) return false;
+
+    write.payload = { ...write.payload, ...updates };
+    await this.saveQueue(queue);
+    return true;
+  }
+
+  static async removeFromQueue(writeId: string): Promise<void> {
+    const queue = await this.getQueue();
+    await this.saveQueue(queue.filter(write => write.id !== writeId));
+  }
+
+  static async getConflicts(): Promise<SyncConflict[]> {
+    if (!this.userId) return [];
+
+    try {
+      const value = await AsyncStorage.getItem(`${CONFLICTS_KEY}:${this.userId}`);
+      return value ? (JSON.parse(value) as SyncConflict[]) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async addConflict(conflict: SyncConflict): Promise<void> {
+    if (!this.userId) return;
+
+    const conflicts = await this.getConflicts();
+    conflicts.push(conflict);
+    await AsyncStorage.setItem(`${CONFLICTS_KEY}:${this.userId}`, JSON.stringify(conflicts));
+    this.setStatus({ conflicts });
+  }
+
+  static async clearConflicts(): Promise<void> {
+    if (this.userId) {
+      await AsyncStorage.removeItem(`${CONFLICTS_KEY}:${this.userId}`);
+    }
+    this.setStatus({ conflicts: [] });
+  }
+
+  /**
+   * Remove the cache and the queued writes and conflicts of the signed-in
+   * user, e.g. once the account is deleted
+   */
+  static async clearAll(): Promise<void> {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove([
+      ...keys.filter(key => key.startsWith(CACHE_PREFIX)),
+      ...(this.userId ? [`${QUEUE_KEY}:${this.userId}`, `${CONFLICTS_KEY}:${this.userId}`] : []),
+    ]);
+    this.setStatus({ pendingCount: 0, conflicts: [] });
+  }
+
+  static setSyncing(isSyncing: boolean): void {
+    this.setStatus({ isSyncing });
+  }
+
+  static getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  static subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reload pending count and conflicts from storage
+   */
+  static async refreshStatus(): Promise<void> {
+    const [queue, conflicts] = await Promise.all([this.getQueue(), this.getConflicts()]);
+    this.setStatus({ pendingCount: queue.length, conflicts });
+  }
+
+  private static async saveQueue(queue: PendingWrite[]): Promise<void> {
+    if (!this.userId) return;
+
+    await AsyncStorage.setItem(`${QUEUE_KEY}:${this.userId}`, JSON.stringify(queue));
+    this.setStatus({ pendingCount: queue.length });
+  }
+
+  /**
+   * Older versions kept one queue for the whole device. Hand it to the user
+   * signed in now, which is almost always who queued the writes; writes of
+   * another account are rejected by the server and end up as conflicts.
+   */
+  private static async adoptUnscopedQueue(userId: string): Promise<void> {
+    try {
+      const [legacyQueue, legacyConflicts] = await Promise.all([
+        AsyncStorage.getItem(QUEUE_KEY),
+        AsyncStorage.getItem(CONFLICTS_KEY),
+      ]);
+      if (legacyQueue === null && legacyConflicts === null) return;
+
+      const queue = [...(await this.getQueue()), ...(legacyQueue ? JSON.parse(legacyQueue) : [])];
+      const conflicts = [...(await this.getConflicts()), ...(legacyConflicts ? JSON.parse(legacyConflicts) : [])];
+      await AsyncStorage.multiSet([
+        [`${QUEUE_KEY}:${userId}`, JSON.stringify(queue)],
+        [`${CONFLICTS_KEY}:${userId}`, JSON.stringify(conflicts)],
+      ]);
+      await AsyncStorage.multiRemove([QUEUE_KEY, CONFLICTS_KEY]);
+    } catch (error) {
+      // Left in place and tried again on the next sign-in
+    }
+  }
+
+  private static setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
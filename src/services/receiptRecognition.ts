@@ -0,0 +1,47 @@
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { ReceiptFields, parseReceiptText } from '../utils/receiptParser';
+
+/**
+ * Turns an image into plain text, one line of the receipt per line
+ */
+export interface TextRecognizer {
+  recognize(imageUri: string): Promise<string>;
+}
+
+/**
+ * On-device recognition with ML Kit. Needs a development build, the native
+ * module is not part of Expo Go.
+ */
+export const mlKitTextRecognizer: TextRecognizer = {
+  async recognize(imageUri: string): Promise<string> {
+    const result = await TextRecognition.recognize(imageUri);
+    return result.blocks.flatMap(block => block.lines.map(line => line.text)).join('\n');
+  },
+};
+
+export interface ReceiptScanResult {
+  fields: ReceiptFields;
+  text: string;
+}
+
+export class ReceiptRecognitionService {
+  private static recognizer: TextRecognizer = mlKitTextRecognizer;
+
+  /**
+   * Swap the recognizer, e.g. for a stub where the native module is unavailable
+   */
+  static setRecognizer(recognizer: TextRecognizer): void {
+    this.recognizer = recognizer;
+  }
+
+  static async scanReceipt(imageUri: string): Promise<ReceiptScanResult> {
+    let text: string;
+    try {
+      text = await this.recognizer.recognize(imageUri);
+    } catch (error: any) {
+      throw new Error(`Failed to read receipt: ${error.message || 'Unknown error'}`);
+    }
+
+    return { fields: parseReceiptText(text), text };
+  }
+}
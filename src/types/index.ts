@@ -9,6 +9,11 @@ export interface User {
   dateOfBirth?: string;
   role: 'USER' | 'ADMIN';
   profileImageUrl?: string;
+  expoPushToken?: string;
+  // Set by the username migration when another account already had this username
+  usernameConflict?: boolean;
+  // Set for accounts created with an email sign-in link until they choose a password
+  passwordless?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -63,8 +68,9 @@ export interface MaintenanceRecord {
   mileage?: number;
   description: string;
   performedBy?: string;
-  cost?: number;
+  cost?: number; // Sum of the line items when there are any
   category?: MaintenanceCategory;
+  lineItems?: MaintenanceLineItem[];
   imageUrls: string[];
   location?: Location;
   nextDueDate?: string;
@@ -74,6 +80,20 @@ export interface MaintenanceRecord {
   updatedAt: string;
 }
 
+export type MaintenanceLineItemType = 'part' | 'labour';
+
+export interface MaintenanceLineItem {
+  id: string;
+  type: MaintenanceLineItemType;
+  description: string;
+  partNumber?: string;
+  brand?: string;
+  quantity?: number; // Parts
+  unitPrice?: number; // Parts
+  hours?: number; // Labour
+  rate?: number; // Labour, per hour
+}
+
 // Maintenance Categories
 export type MaintenanceCategory = 
   | 'Oil Change'
@@ -85,6 +105,40 @@ export type MaintenanceCategory =
   | 'Inspection'
   | 'Other';
 
+// Odometer Reading Interface
+export interface OdometerReading {
+  id: string;
+  carId: string;
+  readingDate: string; // YYYY-MM-DD
+  reading: number; // km
+  source: OdometerSource;
+  sourceId?: string; // Maintenance record or fuel entry the reading was taken from
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OdometerSource = 'manual' | 'maintenance' | 'fuel';
+
+// Fuel Entry Interface
+export interface FuelEntry {
+  id: string;
+  carId: string;
+  fillDate: string; // YYYY-MM-DD
+  odometer: number; // km
+  quantity: number; // Litres, or kWh for electric cars
+  unit: FuelUnit;
+  pricePerUnit?: number;
+  totalCost: number;
+  fullTank: boolean; // Consumption can only be measured between full fills
+  station?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FuelUnit = 'L' | 'kWh';
+
 // Reminder Interface
 export interface Reminder {
   id: string;
@@ -98,10 +152,20 @@ export interface Reminder {
   type: ReminderType;
   status: 'pending' | 'completed' | 'dismissed';
   notifyBefore?: number; // Days before to send notification
+  recurrence?: ReminderRecurrence;
+  dueMileage?: number; // Odometer reading (km) a mileage-based reminder is due at
   createdAt: string;
   updatedAt: string;
 }
 
+// Reminder Recurrence
+export type RecurrenceUnit = 'days' | 'weeks' | 'months' | 'years' | 'km';
+
+export interface ReminderRecurrence {
+  unit: RecurrenceUnit;
+  interval: number; // Repeat every N units
+}
+
 // Reminder Types
 export type ReminderType = 
   | 'Oil Change'
@@ -174,6 +238,10 @@ export type RootStackParamList = {
   AddMaintenance: { carId: string };
   EditMaintenance: { maintenanceId: string };
   MaintenanceDetails: { maintenanceId: string };
+  OdometerLog: { carId: string };
+  FuelLog: { carId: string };
+  AddFuelEntry: { carId: string };
+  EditFuelEntry: { fuelEntryId: string };
   
   // Reminder Stack
   ManageReminders: undefined;
@@ -185,6 +253,7 @@ export type RootStackParamList = {
   Settings: undefined;
   WorkshopFinder: undefined;
   Notifications: undefined;
+  Analytics: undefined;
 };
 
 export type TabParamList = {
@@ -217,6 +286,7 @@ export interface MaintenanceFormData {
   performedBy?: string;
   cost?: number;
   category: MaintenanceCategory;
+  lineItems?: MaintenanceLineItem[];
   notes?: string;
   nextDueDate?: string;
   nextDueMileage?: number;
@@ -247,9 +317,19 @@ export interface MaintenanceFilters {
   endDate?: string;
   minCost?: number;
   maxCost?: number;
+  searchText?: string; // Matched against description, notes, performedBy and line items
 }
 
+export type MaintenanceSortOption = 'dateDesc' | 'dateAsc' | 'costDesc' | 'costAsc' | 'mileageDesc';
+
 // Statistics Types
+export interface DashboardStats {
+  totalCars: number;
+  totalMaintenanceRecords: number;
+  totalMaintenanceCost: number;
+  upcomingMaintenance: number;
+}
+
 export interface CarStatistics {
   totalMileage: number;
   totalMaintenanceCost: number;
@@ -258,16 +338,22 @@ export interface CarStatistics {
   averageMileageBetweenServices: number;
   lastServiceDate?: string;
   nextServiceDue?: string;
-  fuelEfficiency?: number;
+  fuelEfficiency?: number; // L/100 km, or kWh/100 km for electric cars
+  trackedDistance: number; // km covered by the odometer log and maintenance records
+  costPerKm?: number;
+  costPerYear?: number;
+  spendByCategory: Partial<Record<MaintenanceCategory, number>>;
 }
 
 // Export Types
+export type ExportFormat = 'JSON' | 'PDF' | 'CSV';
+
 export interface ExportData {
   user: User;
   cars: Car[];
   maintenanceRecords: MaintenanceRecord[];
   exportDate: string;
-  format: 'JSON' | 'PDF' | 'CSV';
+  format: ExportFormat;
 }
 
 // Theme Types
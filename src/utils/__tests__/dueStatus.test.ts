@@ -0,0 +1,67 @@
+import { DEFAULT_SOON_DAYS, DEFAULT_SOON_KM, getDueState } from '../dueStatus';
+
+describe('getDueState', () => {
+  beforeEach(() => {
+    // Late in the day, so only the calendar date may count
+    jest.useFakeTimers().setSystemTime(new Date(2026, 2, 15, 21, 30));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('is due today on the due date, whatever the time of day', () => {
+    expect(getDueState({ dueDate: '2026-03-15' })).toMatchObject({
+      status: 'due_today',
+      triggeredBy: 'date',
+      daysUntil: 0,
+      message: 'Due today',
+    });
+    expect(getDueState({ dueDate: '2026-03-14' })).toMatchObject({ status: 'overdue', daysUntil: -1 });
+    expect(getDueState({ dueDate: '2026-03-16' })).toMatchObject({ status: 'due_soon', daysUntil: 1 });
+  });
+
+  it('is due soon up to and including the last day of the threshold', () => {
+    expect(getDueState({ dueDate: '2026-04-14' })).toMatchObject({ status: 'due_soon', daysUntil: DEFAULT_SOON_DAYS });
+    expect(getDueState({ dueDate: '2026-04-15' })).toMatchObject({ status: 'upcoming', daysUntil: DEFAULT_SOON_DAYS + 1 });
+  });
+
+  it('is due now exactly at the due mileage', () => {
+    expect(getDueState({ dueMileage: 60000 }, 60000)).toMatchObject({
+      status: 'due_today',
+      triggeredBy: 'mileage',
+      kmUntil: 0,
+      message: 'Due now',
+    });
+    expect(getDueState({ dueMileage: 60000 }, 60001)).toMatchObject({ status: 'overdue', kmUntil: -1 });
+  });
+
+  it('is due soon up to and including the mileage threshold', () => {
+    expect(getDueState({ dueMileage: 60000 }, 60000 - DEFAULT_SOON_KM)).toMatchObject({ status: 'due_soon' });
+    expect(getDueState({ dueMileage: 60000 }, 60000 - DEFAULT_SOON_KM - 1)).toMatchObject({ status: 'upcoming' });
+  });
+
+  it('falls back to the due date without an odometer reading', () => {
+    const state = getDueState({ dueDate: '2026-03-20', dueMileage: 60000 }, undefined);
+    expect(state).toMatchObject({ status: 'due_soon', triggeredBy: 'date', daysUntil: 5 });
+    expect(state?.kmUntil).toBeUndefined();
+  });
+
+  it('cannot be evaluated from a due mileage alone without an odometer reading', () => {
+    expect(getDueState({ dueMileage: 60000 }, undefined)).toBeNull();
+    expect(getDueState({}, 60000)).toBeNull();
+  });
+
+  it('goes by whichever of the date and mileage is due first', () => {
+    expect(getDueState({ dueDate: '2026-06-01', dueMileage: 60000 }, 60500)).toMatchObject({
+      status: 'overdue',
+      triggeredBy: 'mileage',
+      kmUntil: -500,
+    });
+    expect(getDueState({ dueDate: '2026-03-10', dueMileage: 60000 }, 50000)).toMatchObject({
+      status: 'overdue',
+      triggeredBy: 'date',
+      kmUntil: 10000,
+    });
+  });
+});
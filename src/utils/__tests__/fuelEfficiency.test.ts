@@ -0,0 +1,94 @@
+import { calculateFillConsumptions, summarizeFuelLog } from '../fuelEfficiency';
+import { FuelEntry } from '../../types';
+
+const fill = (id: string, odometer: number, quantity: number, fullTank = true): FuelEntry => ({
+  id,
+  carId: 'alices-car',
+  fillDate: '2026-03-01',
+  odometer,
+  quantity,
+  unit: 'L',
+  totalCost: quantity * 2,
+  fullTank,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+});
+
+describe('calculateFillConsumptions', () => {
+  it('measures the fuel of a full fill over the distance since the previous one', () => {
+    const consumptions = calculateFillConsumptions([fill('first', 10000, 40), fill('second', 10500, 30)]);
+    expect(consumptions).toEqual([
+      { entryId: 'second', distance: 500, quantity: 30, consumption: 6, rollingAverage: 6 },
+    ]);
+  });
+
+  it('adds partial fills to the next full fill', () => {
+    const consumptions = calculateFillConsumptions([
+      fill('first', 10000, 40),
+      fill('top-up', 10300, 10, false),
+      fill('second', 11000, 50),
+    ]);
+    expect(consumptions).toEqual([
+      { entryId: 'second', distance: 1000, quantity: 60, consumption: 6, rollingAverage: 6 },
+    ]);
+  });
+
+  it('does not measure a full fill without a full fill before it', () => {
+    const consumptions = calculateFillConsumptions([
+      fill('partial', 10000, 20, false),
+      fill('first-full', 10400, 35),
+      fill('second-full', 10900, 30),
+    ]);
+    // The partial fill before the first full fill is not counted in the next measurement either
+    expect(consumptions.map(({ entryId, quantity }) => ({ entryId, quantity }))).toEqual([
+      { entryId: 'second-full', quantity: 30 },
+    ]);
+  });
+
+  it('measures fills in odometer order whatever order they were entered in', () => {
+    const consumptions = calculateFillConsumptions([fill('second', 10500, 30), fill('first', 10000, 40)]);
+    expect(consumptions.map(item => item.entryId)).toEqual(['second']);
+  });
+
+  it('weights the rolling average by distance', () => {
+    const consumptions = calculateFillConsumptions([
+      fill('first', 10000, 40),
+      fill('long-trip', 11000, 50),
+      fill('short-trip', 11100, 10),
+    ]);
+    expect(consumptions.map(item => item.consumption)).toEqual([5, 10]);
+    expect(consumptions[1].rollingAverage).toBeCloseTo((60 / 1100) * 100);
+  });
+
+  it('skips full fills at the same odometer reading instead of dividing by zero', () => {
+    expect(calculateFillConsumptions([fill('first', 10000, 40), fill('again', 10000, 5)])).toEqual([]);
+  });
+});
+
+describe('summarizeFuelLog', () => {
+  it('has no consumption or cost per km from a single fill', () => {
+    const summary = summarizeFuelLog([fill('only', 10000, 40)], 'L');
+    expect(summary).toEqual({
+      unit: 'L',
+      fillCount: 1,
+      totalQuantity: 40,
+      totalCost: 80,
+      averageConsumption: null,
+      recentConsumption: null,
+      costPerKm: null,
+    });
+  });
+
+  it('has no consumption from an empty log', () => {
+    const summary = summarizeFuelLog([], 'kWh');
+    expect(summary.averageConsumption).toBeNull();
+    expect(summary.recentConsumption).toBeNull();
+    expect(summary.costPerKm).toBeNull();
+  });
+
+  it('leaves the fuel of the first fill out of the cost per km', () => {
+    const summary = summarizeFuelLog([fill('first', 10000, 40), fill('second', 10500, 30)], 'L');
+    expect(summary.averageConsumption).toBe(6);
+    expect(summary.costPerKm).toBe(60 / 500);
+  });
+});
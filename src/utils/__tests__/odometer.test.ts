@@ -0,0 +1,66 @@
+import { findOdometerConflict, getAverageKmPerDay, sortReadings } from '../odometer';
+import { OdometerReading } from '../../types';
+
+const reading = (id: string, readingDate: string, km: number, sourceId?: string): OdometerReading => ({
+  id,
+  carId: 'alices-car',
+  readingDate,
+  reading: km,
+  source: sourceId ? 'maintenance' : 'manual',
+  sourceId,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const log = [reading('march', '2026-03-01', 50000), reading('may', '2026-05-01', 54000)];
+
+describe('findOdometerConflict', () => {
+  it('accepts a reading between two existing ones', () => {
+    expect(findOdometerConflict(log, '2026-04-01', 52000)).toBeNull();
+  });
+
+  it('flags a reading between two dates that is out of their range', () => {
+    expect(findOdometerConflict(log, '2026-04-01', 49000)).toEqual({ reading: log[0], position: 'before' });
+    expect(findOdometerConflict(log, '2026-04-01', 55000)).toEqual({ reading: log[1], position: 'after' });
+  });
+
+  it('accepts the same reading again on the same date', () => {
+    expect(findOdometerConflict(log, '2026-03-01', 50000)).toBeNull();
+  });
+
+  it('flags a lower reading on the same date', () => {
+    expect(findOdometerConflict(log, '2026-03-01', 49990)).toEqual({ reading: log[0], position: 'before' });
+  });
+
+  it('ignores the reading of the record being edited', () => {
+    const withRecord = [...log, reading('service', '2026-04-01', 53000, 'service-record')];
+    expect(findOdometerConflict(withRecord, '2026-04-01', 51000)).toEqual({ reading: withRecord[2], position: 'before' });
+    expect(findOdometerConflict(withRecord, '2026-04-01', 51000, 'service-record')).toBeNull();
+  });
+});
+
+describe('sortReadings', () => {
+  it('orders readings by date and then by reading', () => {
+    const sorted = sortReadings([
+      reading('may', '2026-05-01', 54000),
+      reading('march-evening', '2026-03-01', 50200),
+      reading('march-morning', '2026-03-01', 50000),
+    ]);
+    expect(sorted.map(item => item.id)).toEqual(['march-morning', 'march-evening', 'may']);
+  });
+});
+
+describe('getAverageKmPerDay', () => {
+  it('averages the distance over the days between the readings', () => {
+    expect(getAverageKmPerDay([reading('start', '2026-03-01', 50000), reading('end', '2026-03-11', 50500)])).toBe(50);
+  });
+
+  it('has no average from readings taken on the same date', () => {
+    expect(getAverageKmPerDay([reading('first', '2026-03-01', 50000), reading('second', '2026-03-01', 50000)])).toBeNull();
+    expect(getAverageKmPerDay([reading('first', '2026-03-01', 50000), reading('second', '2026-03-01', 50300)])).toBeNull();
+  });
+
+  it('has no average from a single reading', () => {
+    expect(getAverageKmPerDay([reading('only', '2026-03-01', 50000)])).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { parseReceiptText } from '../receiptParser';
+
+describe('parseReceiptText', () => {
+  it('takes the total when the tax is named after it', () => {
+    expect(parseReceiptText('VAT 20% 41.67\nTotal incl. VAT: 250.00').cost).toBe(250);
+    expect(parseReceiptText('Rechnungsbetrag inkl. MwSt 19% 238,00').cost).toBe(238);
+  });
+
+  it('skips net, tax and subtotal lines', () => {
+    expect(parseReceiptText('Total 238.00\nNet total 200.00').cost).toBe(238);
+    expect(parseReceiptText('Amount due 107.60\nTotal tax 7.60').cost).toBe(107.6);
+    expect(parseReceiptText('Gesamt 119,00\nMwSt-Betrag 19,00\nZwischensumme 100,00').cost).toBe(119);
+  });
+
+  it('does not treat words containing net or ust as tax terms', () => {
+    expect(parseReceiptText('Internet order total 45.00').cost).toBe(45);
+    expect(parseReceiptText('Total after adjustment 60.00').cost).toBe(60);
+    expect(parseReceiptText('Kabinettfilter gesamt 30,00').cost).toBe(30);
+  });
+
+  it('falls back to the largest euro amount without a labelled total', () => {
+    expect(parseReceiptText('Filter 12,50 €\nÖl 48,90 €').cost).toBe(48.9);
+  });
+
+  it('reads dates day first unless that is not a valid date', () => {
+    expect(parseReceiptText('Datum: 03.04.2024').maintenanceDate).toBe('2024-04-03');
+    expect(parseReceiptText('Date: 06/21/2023').maintenanceDate).toBe('2023-06-21');
+  });
+
+  it('leaves out fields it cannot find', () => {
+    expect(parseReceiptText('')).toEqual({});
+  });
+});
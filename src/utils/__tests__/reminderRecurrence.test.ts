@@ -0,0 +1,67 @@
+import { addInterval, getNextOccurrence } from '../reminderRecurrence';
+import { Reminder, ReminderRecurrence } from '../../types';
+
+const reminder = (reminderDate: string, recurrence: ReminderRecurrence, dueMileage?: number): Reminder => ({
+  id: 'reminder-1',
+  userId: 'alice',
+  carId: 'alices-car',
+  title: 'Service',
+  reminderDate,
+  type: 'Service Appointment',
+  status: 'completed',
+  recurrence,
+  dueMileage,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('addInterval', () => {
+  it('clamps month steps to the end of a shorter month', () => {
+    expect(addInterval('2026-01-31', 'months', 1)).toBe('2026-02-28');
+    expect(addInterval('2028-01-31', 'months', 1)).toBe('2028-02-29');
+    expect(addInterval('2026-03-31', 'months', 1)).toBe('2026-04-30');
+  });
+
+  it('clamps year steps from a leap day', () => {
+    expect(addInterval('2028-02-29', 'years', 1)).toBe('2029-02-28');
+  });
+
+  it('rolls day and week steps over the end of the month and year', () => {
+    expect(addInterval('2026-01-31', 'days', 1)).toBe('2026-02-01');
+    expect(addInterval('2026-12-28', 'weeks', 1)).toBe('2027-01-04');
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('moves a reminder due at the end of the month to the end of the next one', () => {
+    const next = getNextOccurrence(reminder('2026-01-31', { unit: 'months', interval: 1 }), '2026-01-31');
+    expect(next?.reminderDate).toBe('2026-02-28');
+    expect(next?.status).toBe('pending');
+  });
+
+  it('skips the occurrences that passed while a reminder was overdue', () => {
+    const overdue = reminder('2026-01-01', { unit: 'months', interval: 1 });
+    expect(getNextOccurrence(overdue, '2026-03-10')?.reminderDate).toBe('2026-04-01');
+    // Completing on a due date counts that occurrence as done
+    expect(getNextOccurrence(overdue, '2026-02-01')?.reminderDate).toBe('2026-03-01');
+  });
+
+  it('repeats a mileage reminder by mileage with a date to fall back on', () => {
+    const next = getNextOccurrence(reminder('2026-01-01', { unit: 'km', interval: 10000 }, 50000), '2026-03-15', 52000);
+    expect(next?.dueMileage).toBe(62000);
+    expect(next?.reminderDate).toBe('2027-03-15');
+  });
+
+  it('counts from the due mileage when the current mileage is unknown', () => {
+    const mileageReminder = reminder('2026-01-01', { unit: 'km', interval: 10000 }, 50000);
+    expect(getNextOccurrence(mileageReminder, '2026-03-15')?.dueMileage).toBe(60000);
+
+    expect(getNextOccurrence({ ...mileageReminder, dueMileage: undefined }, '2026-03-15')).toBeNull();
+  });
+
+  it('does not repeat reminders without a usable recurrence', () => {
+    const daily = reminder('2026-01-01', { unit: 'days', interval: 1 });
+    expect(getNextOccurrence({ ...daily, recurrence: { unit: 'days', interval: 0 } }, '2026-01-01')).toBeNull();
+    expect(getNextOccurrence({ ...daily, recurrence: undefined }, '2026-01-01')).toBeNull();
+  });
+});
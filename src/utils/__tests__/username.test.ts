@@ -0,0 +1,38 @@
+import { USERNAME_MAX_LENGTH, suggestUsername, validateUsername } from '../username';
+
+describe('validateUsername', () => {
+  it('accepts letters, numbers and inner separators', () => {
+    expect(validateUsername('max.mustermann')).toBeNull();
+    expect(validateUsername('Max_Power-2')).toBeNull();
+  });
+
+  it('rejects names Firestore reserves as document ids', () => {
+    expect(validateUsername('...')).not.toBeNull();
+    expect(validateUsername('__name__')).not.toBeNull();
+    expect(validateUsername('__driver')).not.toBeNull();
+    expect(validateUsername('driver__')).not.toBeNull();
+  });
+
+  it('rejects names starting or ending with a separator', () => {
+    expect(validateUsername('.driver')).not.toBeNull();
+    expect(validateUsername('driver-')).not.toBeNull();
+  });
+});
+
+describe('suggestUsername', () => {
+  it('always suggests a valid username', () => {
+    const sources = [
+      'max.mustermann@example.com',
+      '__name__',
+      '...',
+      'Jo',
+      `${'a'.repeat(USERNAME_MAX_LENGTH - 1)}.b@example.com`,
+      `a${'.'.repeat(40)}b`,
+    ];
+
+    for (const source of sources) {
+      expect(validateUsername(suggestUsername(source))).toBeNull();
+      expect(validateUsername(suggestUsername(source, '1234'))).toBeNull();
+    }
+  });
+});
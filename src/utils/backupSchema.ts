@@ -0,0 +1,62 @@
+import { Car, FuelEntry, MaintenanceRecord, OdometerReading, Reminder } from '../types';
+
+/**
+ * Version history of the JSON backup:
+ * - 1.0: raw Firestore documents, timestamps serialised as { seconds, nanoseconds }
+ * - 1.1: documents as returned by DatabaseService, timestamps as ISO strings
+ * - 1.2: adds odometer readings and fuel entries
+ */
+export const BACKUP_SCHEMA_VERSION = '1.2';
+
+export const SUPPORTED_BACKUP_VERSIONS = ['1.0', '1.1', BACKUP_SCHEMA_VERSION];
+
+export type BackupCar = Omit<Car, 'createdAt' | 'updatedAt' | 'owner'>;
+export type BackupMaintenanceRecord = Omit<MaintenanceRecord, 'createdAt' | 'updatedAt' | 'car'>;
+export type BackupReminder = Omit<Reminder, 'createdAt' | 'updatedAt' | 'car'>;
+export type BackupOdometerReading = Omit<OdometerReading, 'createdAt' | 'updatedAt'>;
+export type BackupFuelEntry = Omit<FuelEntry, 'createdAt' | 'updatedAt'>;
+
+export interface BackupFile {
+  exportDate: string;
+  userId: string;
+  version: string;
+  data: {
+    cars: BackupCar[];
+    maintenance: BackupMaintenanceRecord[];
+    reminders: BackupReminder[];
+    // Missing in backups older than 1.2
+    odometerReadings?: BackupOdometerReading[];
+    fuelEntries?: BackupFuelEntry[];
+  };
+  stats?: {
+    totalCars: number;
+    totalMaintenance: number;
+    totalReminders: number;
+    totalOdometerReadings?: number;
+    totalFuelEntries?: number;
+  };
+}
+
+/**
+ * Assemble a backup in the current schema version
+ */
+export const createBackupFile = (
+  userId: string,
+  cars: BackupCar[],
+  maintenance: BackupMaintenanceRecord[],
+  reminders: BackupReminder[],
+  odometerReadings: BackupOdometerReading[],
+  fuelEntries: BackupFuelEntry[]
+): BackupFile => ({
+  exportDate: new Date().toISOString(),
+  userId,
+  version: BACKUP_SCHEMA_VERSION,
+  data: { cars, maintenance, reminders, odometerReadings, fuelEntries },
+  stats: {
+    totalCars: cars.length,
+    totalMaintenance: maintenance.length,
+    totalReminders: reminders.length,
+    totalOdometerReadings: odometerReadings.length,
+    totalFuelEntries: fuelEntries.length,
+  },
+});
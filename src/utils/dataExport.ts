@@ -1,7 +1,204 @@
-import { collection, getDocs } from 'firebase/firestore';
-import { firestore } from '../config/firebase';
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
+import { DatabaseService } from '../services/database';
+import { PENDING_ID_PREFIX } from '../services/offlineSync';
+import { Car, ExportFormat, MaintenanceRecord } from '../types';
+import { BackupFile, createBackupFile } from './backupSchema';
+
+interface CarHistory {
+  car: Car;
+  records: MaintenanceRecord[];
+}
+
+const getTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-');
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Share a file that has already been written to the device
+ */
+const shareFile = async (fileUri: string, mimeType: string, dialogTitle: string, UTI: string) => {
+  const canShare = await Sharing.isAvailableAsync();
+  if (canShare) {
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle, UTI });
+  }
+};
+
+/**
+ * Write text content to the documents directory and share it
+ */
+const writeAndShare = async (
+  filename: string,
+  contents: string,
+  mimeType: string,
+  dialogTitle: string,
+  UTI: string
+) => {
+  const fileUri = `${FileSystem.documentDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(fileUri, contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  await shareFile(fileUri, mimeType, dialogTitle, UTI);
+};
+
+const getUserCarHistories = async (userId: string): Promise<CarHistory[]> => {
+  const cars = await DatabaseService.getUserCars(userId);
+  return Promise.all(
+    cars.map(async (car) => ({
+      car,
+      records: await DatabaseService.getCarMaintenanceRecords(car.id),
+    }))
+  );
+};
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+const MAINTENANCE_LEDGER_HEADER = [
+  'Car',
+  'License Plate',
+  'Date',
+  'Mileage (km)',
+  'Category',
+  'Description',
+  'Cost (EUR)',
+  'Performed By',
+  'Notes',
+];
+
+const toLedgerRows = ({ car, records }: CarHistory): unknown[][] =>
+  records.map(record => [
+    `${car.make} ${car.model} (${car.year})`,
+    car.licensePlate,
+    record.maintenanceDate,
+    record.mileage,
+    record.category,
+    record.description,
+    record.cost !== undefined ? record.cost.toFixed(2) : undefined,
+    record.performedBy,
+    record.notes,
+  ]);
+
+const escapeHtml = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const formatReportDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const renderCarHistorySection = ({ car, records }: CarHistory): string => {
+  const totalCost = records.reduce((sum, record) => sum + (record.cost || 0), 0);
+  const rows = records
+    .map(record => `
+      <tr>
+        <td>${escapeHtml(formatReportDate(record.maintenanceDate))}</td>
+        <td class="num">${record.mileage !== undefined ? escapeHtml(record.mileage.toLocaleString()) : ''}</td>
+        <td>${escapeHtml(record.category)}</td>
+        <td>${escapeHtml(record.description)}${record.notes ? `<div class="note">${escapeHtml(record.notes)}</div>` : ''}</td>
+        <td>${escapeHtml(record.performedBy)}</td>
+        <td class="num">${record.cost !== undefined ? `&euro;${record.cost.toFixed(2)}` : ''}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <section>
+      <h2>${escapeHtml(car.make)} ${escapeHtml(car.model)} (${car.year})</h2>
+      <p class="meta">
+        License plate: ${escapeHtml(car.licensePlate)}
+        ${car.vin ? ` &middot; VIN: ${escapeHtml(car.vin)}` : ''}
+        &middot; Current mileage: ${escapeHtml(car.mileage?.toLocaleString())} km
+      </p>
+      ${records.length === 0
+        ? '<p>No maintenance records.</p>'
+        : `<table>
+            <thead>
+              <tr><th>Date</th><th>Mileage (km)</th><th>Category</th><th>Description</th><th>Performed By</th><th>Cost</th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+            <tfoot>
+              <tr><td colspan="5">Total (${records.length} records)</td><td class="num">&euro;${totalCost.toFixed(2)}</td></tr>
+            </tfoot>
+          </table>`}
+    </section>`;
+};
+
+const renderServiceHistoryHtml = (histories: CarHistory[]): string => `
+  <html>
+    <head>
+      <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+      <style>
+        body { font-family: Helvetica, Arial, sans-serif; color: #222; padding: 24px; }
+        h1 { font-size: 22px; margin-bottom: 4px; }
+        h2 { font-size: 18px; margin: 24px 0 4px; }
+        .meta { color: #666; font-size: 12px; margin: 0 0 12px; }
+        table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        th, td { border-bottom: 1px solid #ddd; padding: 6px 4px; text-align: left; vertical-align: top; }
+        th { background: #f2f2f2; }
+        tfoot td { font-weight: bold; }
+        .num { text-align: right; white-space: nowrap; }
+        .note { color: #666; font-style: italic; margin-top: 2px; }
+        section { page-break-inside: avoid; }
+      </style>
+    </head>
+    <body>
+      <h1>Service History Report</h1>
+      <p class="meta">Generated ${escapeHtml(formatReportDate(new Date().toISOString()))}</p>
+      ${histories.map(renderCarHistorySection).join('')}
+    </body>
+  </html>`;
+
+const printAndSharePdf = async (filename: string, html: string) => {
+  const { uri } = await Print.printToFileAsync({ html });
+  const fileUri = `${FileSystem.documentDirectory}${filename}`;
+  await FileSystem.moveAsync({ from: uri, to: fileUri });
+  await shareFile(fileUri, 'application/pdf', 'Save Service History', 'com.adobe.pdf');
+};
+
+/**
+ * Collect the backup of a user. Every query is scoped to the user: cars by
+ * owner, maintenance records, odometer readings and fuel entries by the ids of
+ * those cars and reminders by user.
+ */
+export const buildBackupPayload = async (userId: string): Promise<BackupFile> => {
+  // Changes still waiting in the offline queue only have placeholder ids, so
+  // they are left out until they have been synced
+  const isSynced = (item: { id: string }) => !item.id.startsWith(PENDING_ID_PREFIX);
+
+  const cars = (await DatabaseService.getUserCars(userId)).filter(isSynced);
+  const carIds = cars.map(car => car.id);
+  const [maintenance, reminders, odometerReadings, fuelEntries] = await Promise.all([
+    DatabaseService.getMaintenanceRecordsForCars(carIds),
+    DatabaseService.getUserReminders(userId),
+    Promise.all(carIds.map(carId => DatabaseService.getCarOdometerReadings(carId))),
+    Promise.all(carIds.map(carId => DatabaseService.getCarFuelEntries(carId))),
+  ]);
+
+  return createBackupFile(
+    userId,
+    cars,
+    maintenance.filter(isSynced),
+    reminders.filter(isSynced),
+    odometerReadings.flat().filter(isSynced),
+    fuelEntries.flat().filter(isSynced)
+  );
+};
 
 /**
  * Export all user data to JSON file
@@ -9,106 +206,112 @@ import * as Sharing from 'expo-sharing';
  */
 export const exportAllData = async (userId: string): Promise<void> => {
   try {
-    // Fetch all collections
-    const carsSnapshot = await getDocs(collection(firestore, 'cars'));
-    const maintenanceSnapshot = await getDocs(collection(firestore, 'maintenance'));
-    const remindersSnapshot = await getDocs(collection(firestore, 'reminders'));
-
-    // Filter by user ownership
-    const cars = carsSnapshot.docs
-      .filter(doc => doc.data().ownerId === userId)
-      .map(doc => ({ id: doc.id, ...doc.data() }));
-
-    const maintenance = maintenanceSnapshot.docs.map(doc => ({ 
-      id: doc.id, 
-      ...doc.data() 
-    }));
-
-    const reminders = remindersSnapshot.docs
-      .filter(doc => doc.data().userId === userId)
-      .map(doc => ({ id: doc.id, ...doc.data() }));
-
-    // Create export object
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      userId,
-      version: '1.0',
-      data: {
-        cars,
-        maintenance,
-        reminders,
-      },
-      stats: {
-        totalCars: cars.length,
-        totalMaintenance: maintenance.length,
-        totalReminders: reminders.length,
-      },
-    };
-
-    // Convert to JSON
-    const jsonString = JSON.stringify(exportData, null, 2);
-
-    // Create filename with timestamp
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `car-workshop-backup-${timestamp}.json`;
-    const fileUri = `${FileSystem.documentDirectory}${filename}`;
-
-    // Write to file
-    await FileSystem.writeAsStringAsync(fileUri, jsonString, {
-      encoding: FileSystem.EncodingType.UTF8,
-    });
-
-    // Share the file
-    const canShare = await Sharing.isAvailableAsync();
-    if (canShare) {
-      await Sharing.shareAsync(fileUri, {
-        mimeType: 'application/json',
-        dialogTitle: 'Save Car Workshop Backup',
-        UTI: 'public.json',
-      });
-    }
+    const jsonString = JSON.stringify(await buildBackupPayload(userId), null, 2);
+
+    // Write to a timestamped file and share it
+    await writeAndShare(
+      `car-workshop-backup-${getTimestamp()}.json`,
+      jsonString,
+      'application/json',
+      'Save Car Workshop Backup',
+      'public.json'
+    );
   } catch (error) {
     throw new Error('Failed to export data');
   }
 };
 
+/**
+ * Export a maintenance ledger for all of the user's cars as a CSV file
+ */
+export const exportMaintenanceCsv = async (userId: string): Promise<void> => {
+  try {
+    const histories = await getUserCarHistories(userId);
+    const rows = histories.flatMap(toLedgerRows);
+
+    await writeAndShare(
+      `car-workshop-maintenance-${getTimestamp()}.csv`,
+      toCsv(MAINTENANCE_LEDGER_HEADER, rows),
+      'text/csv',
+      'Save Maintenance Ledger',
+      'public.comma-separated-values-text'
+    );
+  } catch (error) {
+    throw new Error('Failed to export CSV');
+  }
+};
+
+/**
+ * Export the maintenance ledger of a single car as a CSV file
+ */
+export const exportCarMaintenanceCsv = async (car: Car): Promise<void> => {
+  try {
+    const records = await DatabaseService.getCarMaintenanceRecords(car.id);
+
+    await writeAndShare(
+      `${slugify(`${car.make}-${car.model}-${car.licensePlate}`)}-maintenance-${getTimestamp()}.csv`,
+      toCsv(MAINTENANCE_LEDGER_HEADER, toLedgerRows({ car, records })),
+      'text/csv',
+      'Save Maintenance Ledger',
+      'public.comma-separated-values-text'
+    );
+  } catch (error) {
+    throw new Error('Failed to export CSV');
+  }
+};
+
+/**
+ * Export a printable service-history report for all of the user's cars
+ */
+export const exportServiceHistoryPdf = async (userId: string): Promise<void> => {
+  try {
+    const histories = await getUserCarHistories(userId);
+    await printAndSharePdf(
+      `car-workshop-service-history-${getTimestamp()}.pdf`,
+      renderServiceHistoryHtml(histories)
+    );
+  } catch (error) {
+    throw new Error('Failed to export PDF');
+  }
+};
+
+/**
+ * Export a printable service-history report for a single car,
+ * e.g. to hand over to a buyer
+ */
+export const exportCarServiceHistoryPdf = async (car: Car): Promise<void> => {
+  try {
+    const records = await DatabaseService.getCarMaintenanceRecords(car.id);
+    await printAndSharePdf(
+      `${slugify(`${car.make}-${car.model}-${car.licensePlate}`)}-service-history-${getTimestamp()}.pdf`,
+      renderServiceHistoryHtml([{ car, records }])
+    );
+  } catch (error) {
+    throw new Error('Failed to export PDF');
+  }
+};
+
+/**
+ * Export all user data in the requested format
+ */
+export const exportUserData = async (userId: string, format: ExportFormat): Promise<void> => {
+  switch (format) {
+    case 'CSV':
+      return exportMaintenanceCsv(userId);
+    case 'PDF':
+      return exportServiceHistoryPdf(userId);
+    default:
+      return exportAllData(userId);
+  }
+};
+
 /**
  * Get export data as string (for copying to clipboard)
  */
 export const getExportDataString = async (userId: string): Promise<string> => {
   try {
-    const carsSnapshot = await getDocs(collection(firestore, 'cars'));
-    const maintenanceSnapshot = await getDocs(collection(firestore, 'maintenance'));
-    const remindersSnapshot = await getDocs(collection(firestore, 'reminders'));
-
-    const cars = carsSnapshot.docs
-      .filter(doc => doc.data().ownerId === userId)
-      .map(doc => ({ id: doc.id, ...doc.data() }));
-
-    const maintenance = maintenanceSnapshot.docs.map(doc => ({ 
-      id: doc.id, 
-      ...doc.data() 
-    }));
-
-    const reminders = remindersSnapshot.docs
-      .filter(doc => doc.data().userId === userId)
-      .map(doc => ({ id: doc.id, ...doc.data() }));
-
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      userId,
-      version: '1.0',
-      data: { cars, maintenance, reminders },
-      stats: {
-        totalCars: cars.length,
-        totalMaintenance: maintenance.length,
-        totalReminders: reminders.length,
-      },
-    };
-
-    return JSON.stringify(exportData, null, 2);
+    return JSON.stringify(await buildBackupPayload(userId), null, 2);
   } catch (error) {
     throw new Error('Failed to get export data');
   }
 };
-
@@ -0,0 +1,518 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { DatabaseService } from '../services/database';
+import { CarDeletionService } from '../services/carDeletion';
+import { OfflineSyncService } from '../services/offlineSync';
+import { NotificationSchedulerService } from '../services/notificationScheduler';
+import { ImageUploadService } from '../services/imageUpload';
+import { Car, Reminder } from '../types';
+import { BackupFile, SUPPORTED_BACKUP_VERSIONS } from './backupSchema';
+
+export type RestoreMode = 'merge' | 'replace';
+
+interface RestoreCounts {
+  cars: number;
+  maintenance: number;
+  reminders: number;
+  odometerReadings: number;
+  fuelEntries: number;
+}
+
+export interface RestoreSummary {
+  created: RestoreCounts;
+  skipped: RestoreCounts;
+  conflicts: RestoreCounts;
+  errors: string[];
+}
+
+const REMINDER_STATUSES = ['pending', 'completed', 'dismissed'];
+const ODOMETER_SOURCES = ['manual', 'maintenance', 'fuel'];
+const FUEL_UNITS = ['L', 'kWh'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !isNaN(value);
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean) =>
+  value === undefined || value === null || check(value);
+
+/**
+ * Keep only the fields we write back to Firestore; ids, timestamps and
+ * embedded relations are regenerated on restore.
+ */
+const stripDocumentFields = (raw: any) => {
+  const { id, createdAt, updatedAt, car, owner, ...rest } = raw;
+  const cleaned: any = {};
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      cleaned[key] = value;
+    }
+  });
+  return cleaned;
+};
+
+const validateCar = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Car #${index + 1} is not an object`;
+  if (!isString(raw.id)) return `Car #${index + 1} is missing an id`;
+  if (!isString(raw.make) || !isString(raw.model)) return `Car #${index + 1} is missing make or model`;
+  if (!isNumber(raw.year)) return `Car #${index + 1} has an invalid year`;
+  if (!isString(raw.licensePlate)) return `Car #${index + 1} is missing a license plate`;
+  if (!isString(raw.subType)) return `Car #${index + 1} is missing a type`;
+  if (!isNumber(raw.mileage)) return `Car #${index + 1} has an invalid mileage`;
+  if (!isOptional(raw.imageUrls, Array.isArray)) return `Car #${index + 1} has invalid image URLs`;
+  if (!isOptional(raw.oilChangeInterval, isNumber)) return `Car #${index + 1} has an invalid oil change interval`;
+  return null;
+};
+
+const validateMaintenanceRecord = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Maintenance record #${index + 1} is not an object`;
+  if (!isString(raw.carId)) return `Maintenance record #${index + 1} is missing a car reference`;
+  if (!isString(raw.maintenanceDate)) return `Maintenance record #${index + 1} is missing a date`;
+  if (!isString(raw.description)) return `Maintenance record #${index + 1} is missing a description`;
+  if (!isOptional(raw.mileage, isNumber)) return `Maintenance record #${index + 1} has an invalid mileage`;
+  if (!isOptional(raw.cost, isNumber)) return `Maintenance record #${index + 1} has an invalid cost`;
+  if (!isOptional(raw.imageUrls, Array.isArray)) return `Maintenance record #${index + 1} has invalid image URLs`;
+  if (!isOptional(raw.lineItems, Array.isArray)) return `Maintenance record #${index + 1} has invalid line items`;
+  return null;
+};
+
+const validateReminder = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Reminder #${index + 1} is not an object`;
+  if (!isString(raw.title)) return `Reminder #${index + 1} is missing a title`;
+  if (!isString(raw.reminderDate)) return `Reminder #${index + 1} is missing a date`;
+  if (!isString(raw.type)) return `Reminder #${index + 1} is missing a type`;
+  if (!REMINDER_STATUSES.includes(raw.status)) return `Reminder #${index + 1} has an invalid status`;
+  if (!isOptional(raw.carId, isString)) return `Reminder #${index + 1} has an invalid car reference`;
+  if (!isOptional(raw.notifyBefore, isNumber)) return `Reminder #${index + 1} has an invalid notification offset`;
+  return null;
+};
+
+const validateOdometerReading = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Odometer reading #${index + 1} is not an object`;
+  if (!isString(raw.carId)) return `Odometer reading #${index + 1} is missing a car reference`;
+  if (!isString(raw.readingDate)) return `Odometer reading #${index + 1} is missing a date`;
+  if (!isNumber(raw.reading)) return `Odometer reading #${index + 1} has an invalid reading`;
+  if (!ODOMETER_SOURCES.includes(raw.source)) return `Odometer reading #${index + 1} has an invalid source`;
+  return null;
+};
+
+const validateFuelEntry = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Fuel entry #${index + 1} is not an object`;
+  if (!isString(raw.carId)) return `Fuel entry #${index + 1} is missing a car reference`;
+  if (!isString(raw.fillDate)) return `Fuel entry #${index + 1} is missing a date`;
+  if (!isNumber(raw.odometer)) return `Fuel entry #${index + 1} has an invalid odometer reading`;
+  if (!isNumber(raw.quantity)) return `Fuel entry #${index + 1} has an invalid quantity`;
+  if (!FUEL_UNITS.includes(raw.unit)) return `Fuel entry #${index + 1} has an invalid unit`;
+  if (!isNumber(raw.totalCost)) return `Fuel entry #${index + 1} has an invalid total cost`;
+  if (typeof raw.fullTank !== 'boolean') return `Fuel entry #${index + 1} is missing whether the tank was filled`;
+  if (!isOptional(raw.pricePerUnit, isNumber)) return `Fuel entry #${index + 1} has an invalid price per unit`;
+  return null;
+};
+
+/**
+ * Parse and validate a backup produced by exportAllData.
+ * Throws with a readable message if the file cannot be restored.
+ */
+export const parseBackup = (json: string): BackupFile => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error('The selected file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.data) {
+    throw new Error('The selected file is not a Car Workshop backup');
+  }
+
+  if (!SUPPORTED_BACKUP_VERSIONS.includes(parsed.version)) {
+    throw new Error(`Unsupported backup version: ${parsed.version ?? 'unknown'}`);
+  }
+
+  const { cars, maintenance, reminders } = parsed.data;
+  if (!Array.isArray(cars) || !Array.isArray(maintenance) || !Array.isArray(reminders)) {
+    throw new Error('The backup file is missing cars, maintenance or reminders');
+  }
+
+  // Backups older than 1.2 have neither
+  const odometerReadings = parsed.data.odometerReadings ?? [];
+  const fuelEntries = parsed.data.fuelEntries ?? [];
+  if (!Array.isArray(odometerReadings) || !Array.isArray(fuelEntries)) {
+    throw new Error('The backup file has invalid odometer readings or fuel entries');
+  }
+  parsed.data = { ...parsed.data, odometerReadings, fuelEntries };
+
+  const problems = [
+    ...cars.map(validateCar),
+    ...maintenance.map(validateMaintenanceRecord),
+    ...reminders.map(validateReminder),
+    ...odometerReadings.map(validateOdometerReading),
+    ...fuelEntries.map(validateFuelEntry),
+  ].filter((problem): problem is string => problem !== null);
+
+  if (problems.length > 0) {
+    throw new Error(`The backup file is invalid:\n${problems.slice(0, 5).join('\n')}`);
+  }
+
+  return parsed as BackupFile;
+};
+
+/**
+ * Let the user pick a backup file and return its parsed contents,
+ * or null if the picker was cancelled.
+ */
+export const pickBackupFile = async (): Promise<BackupFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets || result.assets.length === 0) {
+    return null;
+  }
+
+  let contents: string;
+  try {
+    contents = await FileSystem.readAsStringAsync(result.assets[0].uri);
+  } catch (error) {
+    throw new Error('Failed to read the selected file');
+  }
+
+  return parseBackup(contents);
+};
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const maintenanceKey = (carId: string, record: { maintenanceDate: string; description: string }) =>
+  `${carId}|${record.maintenanceDate}|${normalize(record.description)}`;
+
+const odometerReadingKey = (carId: string, reading: { readingDate: string; reading: number }) =>
+  `${carId}|${reading.readingDate}|${reading.reading}`;
+
+const fuelEntryKey = (carId: string, entry: { fillDate: string; odometer: number }) =>
+  `${carId}|${entry.fillDate}|${entry.odometer}`;
+
+const reminderKey = (reminder: { carId?: string; title: string; reminderDate: string }) =>
+  `${reminder.carId || ''}|${normalize(reminder.title)}|${reminder.reminderDate}`;
+
+/**
+ * Whether a download URL points into the given Storage folder, e.g. `cars/abc`
+ */
+const isStoredIn = (url: string, folder: string): boolean => {
+  try {
+    return decodeURIComponent(url.split('?')[0]).includes(`/o/${folder}/`);
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Copy photos into the folder of the car they are restored to. Photos are
+ * deleted with the folder of their car, so restored documents must not keep
+ * pointing at files of a car that may be deleted, and Storage only lets the
+ * owner of a car read its folder.
+ */
+const copyImages = async (
+  urls: string[],
+  folder: string,
+  upload: (url: string) => Promise<string>,
+  errors: string[]
+): Promise<string[]> => {
+  const copied: string[] = [];
+  for (const url of urls) {
+    if (isStoredIn(url, folder)) {
+      copied.push(url);
+      continue;
+    }
+
+    try {
+      copied.push(await upload(url));
+    } catch (error: any) {
+      errors.push(`A photo could not be copied: ${error.message}`);
+    }
+  }
+  return copied;
+};
+
+/**
+ * Delete the data a replace restore took over from. Reminders go first since
+ * deleting a car also deletes its reminders.
+ */
+const deletePreviousData = async (userId: string, cars: Car[], reminders: Reminder[]): Promise<string[]> => {
+  const errors: string[] = [];
+
+  for (const reminder of reminders) {
+    try {
+      await DatabaseService.deleteReminder(reminder.id);
+      await NotificationSchedulerService.cancelReminder(reminder.id, userId);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+
+  for (const car of cars) {
+    try {
+      await CarDeletionService.deleteCar(car);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Undo a replace restore that could not be completed, so the previous data is
+ * all the user is left with
+ */
+const rollBackRestore = async (createdCarIds: string[], createdReminderIds: string[]): Promise<void> => {
+  for (const reminderId of createdReminderIds) {
+    await DatabaseService.deleteReminder(reminderId).catch(() => undefined);
+  }
+
+  for (const carId of createdCarIds) {
+    const car = await DatabaseService.getCar(carId).catch(() => null);
+    if (car) {
+      await CarDeletionService.deleteCar(car).catch(() => undefined);
+    }
+  }
+};
+
+/**
+ * Write a parsed backup back to Firestore for the given user.
+ *
+ * In 'replace' mode the backup is written next to the existing data, which is
+ * only deleted once everything was written; if anything fails the restored
+ * documents are removed again and the existing data is kept. In 'merge' mode a backup car matching an existing car by VIN
+ * or license plate is counted as a conflict and its records are attached to the
+ * existing car; records, readings, fuel entries and reminders already present
+ * are skipped.
+ *
+ * Only manually entered odometer readings are restored: readings taken from a
+ * maintenance record or fuel entry are created again when that is restored.
+ * Restoring requires a connection in both modes.
+ */
+export const restoreBackup = async (
+  userId: string,
+  backup: BackupFile,
+  mode: RestoreMode
+): Promise<RestoreSummary> => {
+  const emptyCounts = (): RestoreCounts => ({
+    cars: 0,
+    maintenance: 0,
+    reminders: 0,
+    odometerReadings: 0,
+    fuelEntries: 0,
+  });
+  const summary: RestoreSummary = {
+    created: emptyCounts(),
+    skipped: emptyCounts(),
+    conflicts: emptyCounts(),
+    errors: [],
+  };
+
+  // Cars and photos can't be written offline, and the skipped records would be lost
+  if (!(await OfflineSyncService.isOnline())) {
+    throw new Error('Restoring a backup requires an internet connection');
+  }
+
+  const previousCars = mode === 'replace' ? await DatabaseService.getUserCars(userId) : [];
+  const previousReminders = mode === 'replace' ? await DatabaseService.getUserReminders(userId) : [];
+  const createdCarIds: string[] = [];
+  const createdReminderIds: string[] = [];
+  // Missing photos don't make a restore fail, so they are reported separately
+  const photoErrors: string[] = [];
+
+  const existingCars = mode === 'merge' ? await DatabaseService.getUserCars(userId) : [];
+  const existingReminders = mode === 'merge' ? await DatabaseService.getUserReminders(userId) : [];
+
+  // Maps car ids from the backup to the ids they have after restoring
+  const carIdMap = new Map<string, string>();
+  const existingMaintenanceKeys = new Set<string>();
+  const existingOdometerKeys = new Set<string>();
+  const existingFuelKeys = new Set<string>();
+
+  for (const backupCar of backup.data.cars) {
+    const match = existingCars.find(car =>
+      (backupCar.vin && normalize(car.vin) === normalize(backupCar.vin)) ||
+      normalize(car.licensePlate) === normalize(backupCar.licensePlate)
+    );
+
+    if (match) {
+      carIdMap.set(backupCar.id, match.id);
+      summary.conflicts.cars++;
+
+      try {
+        const [records, readings, fuelEntries] = await Promise.all([
+          DatabaseService.getCarMaintenanceRecords(match.id),
+          DatabaseService.getCarOdometerReadings(match.id),
+          DatabaseService.getCarFuelEntries(match.id),
+        ]);
+        records.forEach(record => existingMaintenanceKeys.add(maintenanceKey(match.id, record)));
+        readings.forEach(reading => existingOdometerKeys.add(odometerReadingKey(match.id, reading)));
+        fuelEntries.forEach(entry => existingFuelKeys.add(fuelEntryKey(match.id, entry)));
+      } catch (error: any) {
+        summary.errors.push(error.message);
+      }
+      continue;
+    }
+
+    try {
+      const newCarId = await DatabaseService.addCar({
+        ...stripDocumentFields(backupCar),
+        imageUrls: [],
+        ownerId: userId,
+      });
+      carIdMap.set(backupCar.id, newCarId);
+      createdCarIds.push(newCarId);
+      summary.created.cars++;
+
+      // Uploading needs the car to exist, since Storage checks who owns it
+      const imageUrls = await copyImages(
+        backupCar.imageUrls || [],
+        `cars/${newCarId}`,
+        url => ImageUploadService.uploadCarImage(newCarId, url),
+        photoErrors
+      );
+      if (imageUrls.length > 0) {
+        await DatabaseService.updateCar(newCarId, { imageUrls });
+      }
+    } catch (error: any) {
+      summary.skipped.cars++;
+      summary.errors.push(error.message);
+    }
+  }
+
+  for (const backupRecord of backup.data.maintenance) {
+    const carId = carIdMap.get(backupRecord.carId);
+    if (!carId) {
+      // The record belongs to a car that is not part of this backup
+      summary.skipped.maintenance++;
+      continue;
+    }
+
+    const key = maintenanceKey(carId, backupRecord);
+    if (existingMaintenanceKeys.has(key)) {
+      summary.conflicts.maintenance++;
+      continue;
+    }
+
+    try {
+      const imageUrls = await copyImages(
+        backupRecord.imageUrls || [],
+        `maintenance/${carId}`,
+        url => ImageUploadService.uploadMaintenanceImage(carId, url),
+        photoErrors
+      );
+      await DatabaseService.addMaintenanceRecord({
+        ...stripDocumentFields(backupRecord),
+        carId,
+        imageUrls,
+      });
+      existingMaintenanceKeys.add(key);
+      summary.created.maintenance++;
+    } catch (error: any) {
+      summary.skipped.maintenance++;
+      summary.errors.push(error.message);
+    }
+  }
+
+  for (const backupEntry of backup.data.fuelEntries || []) {
+    const carId = carIdMap.get(backupEntry.carId);
+    if (!carId) {
+      summary.skipped.fuelEntries++;
+      continue;
+    }
+
+    const key = fuelEntryKey(carId, backupEntry);
+    if (existingFuelKeys.has(key)) {
+      summary.conflicts.fuelEntries++;
+      continue;
+    }
+
+    try {
+      await DatabaseService.addFuelEntry({ ...stripDocumentFields(backupEntry), carId });
+      existingFuelKeys.add(key);
+      summary.created.fuelEntries++;
+    } catch (error: any) {
+      summary.skipped.fuelEntries++;
+      summary.errors.push(error.message);
+    }
+  }
+
+  const manualReadings = (backup.data.odometerReadings || []).filter(reading => reading.source === 'manual');
+
+  for (const backupReading of manualReadings) {
+    const carId = carIdMap.get(backupReading.carId);
+    if (!carId) {
+      summary.skipped.odometerReadings++;
+      continue;
+    }
+
+    const key = odometerReadingKey(carId, backupReading);
+    if (existingOdometerKeys.has(key)) {
+      summary.conflicts.odometerReadings++;
+      continue;
+    }
+
+    try {
+      await DatabaseService.addOdometerReading({ ...stripDocumentFields(backupReading), carId });
+      existingOdometerKeys.add(key);
+      summary.created.odometerReadings++;
+    } catch (error: any) {
+      summary.skipped.odometerReadings++;
+      summary.errors.push(error.message);
+    }
+  }
+
+  const existingReminderKeys = new Set(existingReminders.map(reminderKey));
+
+  for (const backupReminder of backup.data.reminders) {
+    let carId: string | undefined;
+    if (backupReminder.carId) {
+      carId = carIdMap.get(backupReminder.carId);
+      if (!carId) {
+        summary.skipped.reminders++;
+        continue;
+      }
+    }
+
+    const key = reminderKey({ ...backupReminder, carId });
+    if (existingReminderKeys.has(key)) {
+      summary.conflicts.reminders++;
+      continue;
+    }
+
+    try {
+      const reminderId = await DatabaseService.addReminder({
+        ...stripDocumentFields(backupReminder),
+        carId,
+        userId,
+      });
+      createdReminderIds.push(reminderId);
+      existingReminderKeys.add(key);
+      summary.created.reminders++;
+    } catch (error: any) {
+      summary.skipped.reminders++;
+      summary.errors.push(error.message);
+    }
+  }
+
+  if (mode === 'replace') {
+    if (summary.errors.length > 0) {
+      await rollBackRestore(createdCarIds, createdReminderIds);
+      throw new Error(
+        `Your data was not replaced because part of the backup could not be restored:\n${summary.errors.slice(0, 3).join('\n')}`
+      );
+    }
+
+    summary.errors.push(...(await deletePreviousData(userId, previousCars, previousReminders)));
+  }
+
+  summary.errors.push(...photoErrors);
+
+  // Schedule the device notifications of the restored reminders
+  await NotificationSchedulerService.rescheduleAll(userId).catch(() => undefined);
+
+  return summary;
+};
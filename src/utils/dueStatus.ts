@@ -0,0 +1,231 @@
+import { Car, MaintenanceCategory, MaintenanceRecord } from '../types';
+import { estimateDateForMileage } from './odometer';
+
+export type DueStatus = 'overdue' | 'due_today' | 'due_soon' | 'upcoming';
+
+export interface DueTrigger {
+  dueDate?: string; // YYYY-MM-DD
+  dueMileage?: number;
+}
+
+export interface DueState {
+  status: DueStatus;
+  triggeredBy: 'date' | 'mileage';
+  daysUntil?: number;
+  kmUntil?: number;
+  message: string;
+}
+
+export interface DueThresholds {
+  soonDays?: number;
+  soonKm?: number;
+}
+
+export interface MaintenanceDueItem {
+  id: string;
+  car: Car;
+  title: string;
+  category?: MaintenanceCategory;
+  lastRecord?: MaintenanceRecord;
+  dueDate?: string;
+  dueMileage?: number;
+  projectedDate?: string; // When the car is expected to reach dueMileage at its average km/day
+  state: DueState;
+}
+
+export const DEFAULT_SOON_DAYS = 30;
+export const DEFAULT_SOON_KM = 1000;
+
+// Lower is more urgent
+export const DUE_STATUS_PRIORITY: Record<DueStatus, number> = {
+  overdue: 0,
+  due_today: 1,
+  due_soon: 2,
+  upcoming: 3,
+};
+
+const pluralize = (count: number, unit: string) => `${count} ${unit}${count !== 1 ? 's' : ''}`;
+
+const getDaysUntil = (dateString: string): number | undefined => {
+  const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+  const dueDate = new Date(year, month - 1, day);
+  if (isNaN(dueDate.getTime())) return undefined;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+const getDateState = (daysUntil: number, soonDays: number): DueState => {
+  if (daysUntil < 0) {
+    return { status: 'overdue', triggeredBy: 'date', daysUntil, message: `Overdue by ${pluralize(-daysUntil, 'day')}` };
+  }
+  if (daysUntil === 0) {
+    return { status: 'due_today', triggeredBy: 'date', daysUntil, message: 'Due today' };
+  }
+  return {
+    status: daysUntil <= soonDays ? 'due_soon' : 'upcoming',
+    triggeredBy: 'date',
+    daysUntil,
+    message: `Due in ${pluralize(daysUntil, 'day')}`,
+  };
+};
+
+const getMileageState = (kmUntil: number, soonKm: number): DueState => {
+  if (kmUntil < 0) {
+    return {
+      status: 'overdue',
+      triggeredBy: 'mileage',
+      kmUntil,
+      message: `Overdue by ${Math.abs(kmUntil).toLocaleString()} km`,
+    };
+  }
+  if (kmUntil === 0) {
+    return { status: 'due_today', triggeredBy: 'mileage', kmUntil, message: 'Due now' };
+  }
+  return {
+    status: kmUntil <= soonKm ? 'due_soon' : 'upcoming',
+    triggeredBy: 'mileage',
+    kmUntil,
+    message: `Due in ${kmUntil.toLocaleString()} km`,
+  };
+};
+
+/**
+ * Work out how due something is from a due date and/or a due odometer reading.
+ * Whichever trigger comes first wins; returns null when neither can be evaluated.
+ */
+export const getDueState = (
+  trigger: DueTrigger,
+  currentMileage?: number,
+  { soonDays = DEFAULT_SOON_DAYS, soonKm = DEFAULT_SOON_KM }: DueThresholds = {}
+): DueState | null => {
+  const daysUntil = trigger.dueDate ? getDaysUntil(trigger.dueDate) : undefined;
+  const kmUntil =
+    trigger.dueMileage !== undefined && currentMileage !== undefined
+      ? trigger.dueMileage - currentMileage
+      : undefined;
+
+  const dateState = daysUntil !== undefined ? getDateState(daysUntil, soonDays) : null;
+  const mileageState = kmUntil !== undefined ? getMileageState(kmUntil, soonKm) : null;
+
+  if (!dateState || !mileageState) {
+    return dateState || mileageState;
+  }
+
+  const state =
+    DUE_STATUS_PRIORITY[mileageState.status] < DUE_STATUS_PRIORITY[dateState.status] ? mileageState : dateState;
+  return { ...state, daysUntil, kmUntil };
+};
+
+type DueOrdering = Pick<DueState, 'status' | 'daysUntil' | 'kmUntil'>;
+
+/**
+ * Sort comparator putting the most urgent due states first
+ */
+export const compareDueStates = (a: DueOrdering, b: DueOrdering): number =>
+  DUE_STATUS_PRIORITY[a.status] - DUE_STATUS_PRIORITY[b.status] ||
+  (a.daysUntil ?? Infinity) - (b.daysUntil ?? Infinity) ||
+  (a.kmUntil ?? Infinity) - (b.kmUntil ?? Infinity);
+
+export const isOilChangeRecord = (record: MaintenanceRecord): boolean =>
+  record.category === 'Oil Change' || /oil change/i.test(record.description);
+
+const getProjectedDate = (car: Car, dueMileage?: number, kmPerDay?: number | null): string | undefined =>
+  dueMileage !== undefined && dueMileage > car.mileage
+    ? estimateDateForMileage(car.mileage, dueMileage, kmPerDay ?? null) ?? undefined
+    : undefined;
+
+const getLatestRecord = (records: MaintenanceRecord[]): MaintenanceRecord | undefined =>
+  records.reduce<MaintenanceRecord | undefined>(
+    (latest, record) => (!latest || record.maintenanceDate > latest.maintenanceDate ? record : latest),
+    undefined
+  );
+
+/**
+ * Oil change due item for a car. The due mileage is the last oil change mileage
+ * (or the mileage at the first oil change) plus the car's oil change interval,
+ * unless the last oil change record sets its own next due mileage.
+ * With the car's average km/day the date that mileage is reached is projected.
+ */
+export const getOilChangeDue = (
+  car: Car,
+  records: MaintenanceRecord[],
+  thresholds?: DueThresholds,
+  kmPerDay?: number | null
+): MaintenanceDueItem | null => {
+  const lastRecord = getLatestRecord(records.filter(isOilChangeRecord));
+  const baseMileage = lastRecord?.mileage ?? car.mileageAtFirstOilChange;
+
+  let dueMileage = lastRecord?.nextDueMileage;
+  if (dueMileage === undefined && baseMileage !== undefined && car.oilChangeInterval) {
+    dueMileage = baseMileage + car.oilChangeInterval;
+  }
+  const dueDate = lastRecord?.nextDueDate;
+
+  const state = getDueState({ dueDate, dueMileage }, car.mileage, thresholds);
+  if (!state) return null;
+
+  return {
+    id: `${car.id}-oil-change`,
+    car,
+    title: 'Oil Change',
+    category: 'Oil Change',
+    lastRecord,
+    dueDate,
+    dueMileage,
+    projectedDate: getProjectedDate(car, dueMileage, kmPerDay),
+    state,
+  };
+};
+
+/**
+ * All maintenance due items of a car, most urgent first: the oil change plus the
+ * latest record of every other kind of service that sets a next due date or mileage
+ */
+export const getMaintenanceDueItems = (
+  car: Car,
+  records: MaintenanceRecord[],
+  thresholds?: DueThresholds,
+  kmPerDay?: number | null
+): MaintenanceDueItem[] => {
+  const items: MaintenanceDueItem[] = [];
+
+  const oilChange = getOilChangeDue(car, records, thresholds, kmPerDay);
+  if (oilChange) items.push(oilChange);
+
+  const latestByKind = new Map<string, MaintenanceRecord>();
+  for (const record of records) {
+    if (isOilChangeRecord(record)) continue;
+    const kind = record.category && record.category !== 'Other'
+      ? record.category
+      : record.description.trim().toLowerCase();
+    const latest = latestByKind.get(kind);
+    if (!latest || record.maintenanceDate > latest.maintenanceDate) {
+      latestByKind.set(kind, record);
+    }
+  }
+
+  for (const record of latestByKind.values()) {
+    const state = getDueState(
+      { dueDate: record.nextDueDate, dueMileage: record.nextDueMileage },
+      car.mileage,
+      thresholds
+    );
+    if (!state) continue;
+
+    items.push({
+      id: `${car.id}-${record.id}`,
+      car,
+      title: record.category && record.category !== 'Other' ? record.category : record.description,
+      category: record.category,
+      lastRecord: record,
+      dueDate: record.nextDueDate,
+      dueMileage: record.nextDueMileage,
+      projectedDate: getProjectedDate(car, record.nextDueMileage, kmPerDay),
+      state,
+    });
+  }
+
+  return items.sort((a, b) => compareDueStates(a.state, b.state));
+};
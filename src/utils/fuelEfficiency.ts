@@ -0,0 +1,96 @@
+import { Car, FuelEntry, FuelUnit } from '../types';
+
+// Number of measured fills the rolling average is taken over
+const ROLLING_WINDOW = 3;
+
+export interface FillConsumption {
+  entryId: string;
+  distance: number; // km driven since the previous full fill
+  quantity: number; // Fuel or energy used over that distance
+  consumption: number; // Per 100 km
+  rollingAverage: number; // Per 100 km, over the last few measured fills
+}
+
+export interface FuelSummary {
+  unit: FuelUnit;
+  fillCount: number;
+  totalQuantity: number;
+  totalCost: number;
+  averageConsumption: number | null; // Per 100 km, over all measured fills
+  recentConsumption: number | null; // Per 100 km, rolling average of the latest fills
+  costPerKm: number | null;
+}
+
+export const getFuelUnit = (car: Pick<Car, 'subType'>): FuelUnit =>
+  car.subType === 'Electric' ? 'kWh' : 'L';
+
+export const formatConsumption = (value: number | null, unit: FuelUnit): string =>
+  value === null ? '-' : `${value.toFixed(1)} ${unit}/100 km`;
+
+const byOdometer = (a: FuelEntry, b: FuelEntry) => a.odometer - b.odometer || a.fillDate.localeCompare(b.fillDate);
+
+const per100Km = (quantity: number, distance: number) => (quantity / distance) * 100;
+
+/**
+ * Consumption for every full fill, using the full-tank method: the fuel put in
+ * at a full fill (plus any partial fills since the previous full fill) is what
+ * was used to drive the distance since that previous full fill. Fills before the
+ * first full fill cannot be measured and are skipped.
+ */
+export const calculateFillConsumptions = (entries: FuelEntry[]): FillConsumption[] => {
+  const sorted = [...entries].sort(byOdometer);
+  const results: Omit<FillConsumption, 'rollingAverage'>[] = [];
+
+  let lastFull: FuelEntry | null = null;
+  let quantitySinceFull = 0;
+
+  for (const entry of sorted) {
+    quantitySinceFull += entry.quantity;
+    if (!entry.fullTank) continue;
+
+    const distance = lastFull ? entry.odometer - lastFull.odometer : 0;
+    if (lastFull && distance > 0) {
+      results.push({
+        entryId: entry.id,
+        distance,
+        quantity: quantitySinceFull,
+        consumption: per100Km(quantitySinceFull, distance),
+      });
+    }
+
+    lastFull = entry;
+    quantitySinceFull = 0;
+  }
+
+  // Rolling averages are weighted by distance, so a short trip does not skew them
+  return results.map((result, index) => {
+    const window = results.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1);
+    const quantity = window.reduce((sum, item) => sum + item.quantity, 0);
+    const distance = window.reduce((sum, item) => sum + item.distance, 0);
+    return { ...result, rollingAverage: per100Km(quantity, distance) };
+  });
+};
+
+export const summarizeFuelLog = (entries: FuelEntry[], unit: FuelUnit): FuelSummary => {
+  const consumptions = calculateFillConsumptions(entries);
+  const measuredQuantity = consumptions.reduce((sum, item) => sum + item.quantity, 0);
+  const measuredDistance = consumptions.reduce((sum, item) => sum + item.distance, 0);
+
+  const odometers = entries.map(entry => entry.odometer);
+  const distance = entries.length >= 2 ? Math.max(...odometers) - Math.min(...odometers) : 0;
+  // The first fill only fills the tank up, its fuel is used after the last reading
+  const costAfterFirstFill = [...entries]
+    .sort(byOdometer)
+    .slice(1)
+    .reduce((sum, entry) => sum + entry.totalCost, 0);
+
+  return {
+    unit,
+    fillCount: entries.length,
+    totalQuantity: entries.reduce((sum, entry) => sum + entry.quantity, 0),
+    totalCost: entries.reduce((sum, entry) => sum + entry.totalCost, 0),
+    averageConsumption: measuredDistance > 0 ? per100Km(measuredQuantity, measuredDistance) : null,
+    recentConsumption: consumptions.length > 0 ? consumptions[consumptions.length - 1].rollingAverage : null,
+    costPerKm: distance > 0 ? costAfterFirstFill / distance : null,
+  };
+};
@@ -0,0 +1,117 @@
+import { MaintenanceLineItem, MaintenanceLineItemType } from '../types';
+
+/**
+ * Line item as edited in a form, with the numbers still as text
+ */
+export interface LineItemDraft {
+  id: string;
+  type: MaintenanceLineItemType;
+  description: string;
+  partNumber: string;
+  brand: string;
+  quantity: string;
+  unitPrice: string;
+  hours: string;
+  rate: string;
+}
+
+export interface LineItemTotals {
+  parts: number;
+  labour: number;
+  total: number;
+}
+
+const parseNumber = (text: string): number | undefined => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) ? undefined : value;
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const createLineItemDraft = (type: MaintenanceLineItemType): LineItemDraft => ({
+  id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  description: type === 'labour' ? 'Labour' : '',
+  partNumber: '',
+  brand: '',
+  quantity: type === 'part' ? '1' : '',
+  unitPrice: '',
+  hours: '',
+  rate: '',
+});
+
+export const toLineItemDrafts = (items: MaintenanceLineItem[] = []): LineItemDraft[] =>
+  items.map(item => ({
+    id: item.id,
+    type: item.type,
+    description: item.description,
+    partNumber: item.partNumber || '',
+    brand: item.brand || '',
+    quantity: item.quantity?.toString() ?? '',
+    unitPrice: item.unitPrice?.toString() ?? '',
+    hours: item.hours?.toString() ?? '',
+    rate: item.rate?.toString() ?? '',
+  }));
+
+/**
+ * Convert drafts into line items for saving. Empty rows are dropped and unset
+ * fields are left out, as Firestore rejects undefined values inside arrays.
+ */
+export const fromLineItemDrafts = (drafts: LineItemDraft[]): MaintenanceLineItem[] =>
+  drafts
+    .filter(draft => draft.description.trim() || draft.unitPrice || draft.hours)
+    .map(draft => {
+      const fields = draft.type === 'part'
+        ? {
+            partNumber: draft.partNumber.trim() || undefined,
+            brand: draft.brand.trim() || undefined,
+            quantity: parseNumber(draft.quantity),
+            unitPrice: parseNumber(draft.unitPrice),
+          }
+        : {
+            hours: parseNumber(draft.hours),
+            rate: parseNumber(draft.rate),
+          };
+
+      const item: MaintenanceLineItem = { id: draft.id, type: draft.type, description: draft.description.trim() };
+      Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined) {
+          (item as any)[key] = value;
+        }
+      });
+      return item;
+    });
+
+/**
+ * First problem found in the drafts, or null when they can be saved
+ */
+export const validateLineItemDrafts = (drafts: LineItemDraft[]): string | null => {
+  for (const [index, draft] of fromLineItemDrafts(drafts).entries()) {
+    const label = `Line ${index + 1}`;
+    if (!draft.description) return `${label} needs a description`;
+
+    const numbers = draft.type === 'part' ? [draft.quantity, draft.unitPrice] : [draft.hours, draft.rate];
+    if (numbers.some(value => value !== undefined && value < 0)) return `${label} has a negative amount`;
+  }
+
+  const unparsable = drafts.find(draft =>
+    [draft.quantity, draft.unitPrice, draft.hours, draft.rate].some(text => text.trim() && parseNumber(text) === undefined)
+  );
+  return unparsable ? 'Please enter valid numbers for the line items' : null;
+};
+
+export const getLineItemTotal = (item: MaintenanceLineItem): number =>
+  roundCents(item.type === 'part'
+    ? (item.quantity ?? 1) * (item.unitPrice ?? 0)
+    : (item.hours ?? 0) * (item.rate ?? 0));
+
+export const getLineItemTotals = (items: MaintenanceLineItem[] = []): LineItemTotals => {
+  const parts = roundCents(items
+    .filter(item => item.type === 'part')
+    .reduce((sum, item) => sum + getLineItemTotal(item), 0));
+  const labour = roundCents(items
+    .filter(item => item.type === 'labour')
+    .reduce((sum, item) => sum + getLineItemTotal(item), 0));
+
+  return { parts, labour, total: roundCents(parts + labour) };
+};
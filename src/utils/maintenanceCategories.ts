@@ -0,0 +1,36 @@
+import { MaintenanceCategory, MaintenanceRecord } from '../types';
+
+export const MAINTENANCE_CATEGORIES: { value: MaintenanceCategory; icon: string }[] = [
+  { value: 'Oil Change', icon: 'oil' },
+  { value: 'Brake Service', icon: 'car-brake-alert' },
+  { value: 'Tire Rotation', icon: 'tire' },
+  { value: 'Engine Repair', icon: 'engine' },
+  { value: 'Transmission', icon: 'car-shift-pattern' },
+  { value: 'Battery', icon: 'car-battery' },
+  { value: 'Inspection', icon: 'clipboard-check' },
+  { value: 'Other', icon: 'wrench' },
+];
+
+// Keywords used to categorise records saved before categories could be picked
+const CATEGORY_KEYWORDS: [MaintenanceCategory, RegExp][] = [
+  ['Oil Change', /\boil\b/i],
+  ['Brake Service', /\bbrake/i],
+  ['Tire Rotation', /\b(tire|tyre|wheel)/i],
+  ['Transmission', /\b(transmission|gearbox|clutch)/i],
+  ['Battery', /\bbattery/i],
+  ['Inspection', /\b(inspection|mot|tüv|apk)\b/i],
+  ['Engine Repair', /\b(engine|timing belt|spark plug)/i],
+];
+
+export const getCategoryIcon = (category: MaintenanceCategory): string =>
+  MAINTENANCE_CATEGORIES.find(item => item.value === category)?.icon || 'wrench';
+
+/**
+ * The category of a record, falling back to one guessed from its description
+ */
+export const getRecordCategory = (record: Pick<MaintenanceRecord, 'category' | 'description'>): MaintenanceCategory => {
+  if (record.category) return record.category;
+
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(record.description || ''));
+  return match ? match[0] : 'Other';
+};
@@ -0,0 +1,86 @@
+import { MaintenanceFilters, MaintenanceRecord, MaintenanceSortOption } from '../types';
+import { getRecordCategory } from './maintenanceCategories';
+
+export const MAINTENANCE_SORT_OPTIONS: { value: MaintenanceSortOption; label: string; icon: string }[] = [
+  { value: 'dateDesc', label: 'Newest', icon: 'sort-calendar-descending' },
+  { value: 'dateAsc', label: 'Oldest', icon: 'sort-calendar-ascending' },
+  { value: 'costDesc', label: 'Highest Cost', icon: 'sort-numeric-descending' },
+  { value: 'costAsc', label: 'Lowest Cost', icon: 'sort-numeric-ascending' },
+  { value: 'mileageDesc', label: 'Highest Mileage', icon: 'speedometer' },
+];
+
+const getDay = (record: MaintenanceRecord) => record.maintenanceDate.split('T')[0];
+
+/**
+ * Case-insensitive search over the free-text fields of a record, including its
+ * parts and labour lines. Every word of the search has to appear in at least
+ * one of the fields.
+ */
+export const matchesSearchText = (record: MaintenanceRecord, searchText: string): boolean => {
+  const terms = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const lineItemText = (record.lineItems || []).flatMap(item => [item.description, item.brand, item.partNumber]);
+  const haystack = [record.description, record.notes, record.performedBy, ...lineItemText]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  return terms.every(term => haystack.includes(term));
+};
+
+export const matchesMaintenanceFilters = (record: MaintenanceRecord, filters: MaintenanceFilters): boolean => {
+  if (filters.category && getRecordCategory(record) !== filters.category) return false;
+
+  const day = getDay(record);
+  if (filters.startDate && day < filters.startDate) return false;
+  if (filters.endDate && day > filters.endDate) return false;
+
+  // Records without a cost only match when no cost bounds are set
+  if (filters.minCost !== undefined && (record.cost ?? -1) < filters.minCost) return false;
+  if (filters.maxCost !== undefined && (record.cost === undefined || record.cost > filters.maxCost)) return false;
+
+  return !filters.searchText || matchesSearchText(record, filters.searchText);
+};
+
+export const sortMaintenanceRecords = (
+  records: MaintenanceRecord[],
+  sortBy: MaintenanceSortOption
+): MaintenanceRecord[] => {
+  const byDateDesc = (a: MaintenanceRecord, b: MaintenanceRecord) => getDay(b).localeCompare(getDay(a));
+
+  return [...records].sort((a, b) => {
+    switch (sortBy) {
+      case 'dateAsc':
+        return getDay(a).localeCompare(getDay(b));
+      case 'costDesc':
+        return (b.cost ?? -1) - (a.cost ?? -1) || byDateDesc(a, b);
+      case 'costAsc':
+        return (a.cost ?? Infinity) - (b.cost ?? Infinity) || byDateDesc(a, b);
+      case 'mileageDesc':
+        return (b.mileage ?? -1) - (a.mileage ?? -1) || byDateDesc(a, b);
+      default:
+        return byDateDesc(a, b);
+    }
+  });
+};
+
+export const applyMaintenanceFilters = (
+  records: MaintenanceRecord[],
+  filters: MaintenanceFilters,
+  sortBy: MaintenanceSortOption = 'dateDesc'
+): MaintenanceRecord[] =>
+  sortMaintenanceRecords(records.filter(record => matchesMaintenanceFilters(record, filters)), sortBy);
+
+/**
+ * Number of filter fields in use, not counting the search text
+ */
+export const countActiveFilters = (filters: MaintenanceFilters): number =>
+  [
+    filters.category,
+    filters.startDate || filters.endDate,
+    filters.minCost !== undefined || filters.maxCost !== undefined,
+  ].filter(Boolean).length;
+
+export const hasActiveFilters = (filters: MaintenanceFilters): boolean =>
+  countActiveFilters(filters) > 0 || !!filters.searchText?.trim();
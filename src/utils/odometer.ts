@@ -0,0 +1,111 @@
+import { OdometerReading } from '../types';
+
+// Only the recent history is used for the average, so it follows changes in driving habits
+const AVERAGE_WINDOW_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OdometerConflict {
+  reading: OdometerReading;
+  position: 'before' | 'after';
+}
+
+const toTime = (dateString: string): number => {
+  const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const formatDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Readings in chronological order, oldest first
+ */
+export const sortReadings = (readings: OdometerReading[]): OdometerReading[] =>
+  [...readings].sort((a, b) => toTime(a.readingDate) - toTime(b.readingDate) || a.reading - b.reading);
+
+/**
+ * Check a new reading against the log. The odometer only counts up, so a reading
+ * lower than one taken on or before its date (or higher than a later one) is
+ * most likely a typo. Returns the first reading it conflicts with, if any.
+ * `ignoreSourceId` skips the reading of the record being edited.
+ */
+export const findOdometerConflict = (
+  readings: OdometerReading[],
+  readingDate: string,
+  reading: number,
+  ignoreSourceId?: string
+): OdometerConflict | null => {
+  const date = toTime(readingDate);
+  const others = readings.filter(item => !ignoreSourceId || item.sourceId !== ignoreSourceId);
+
+  const before = others
+    .filter(item => toTime(item.readingDate) <= date && item.reading > reading)
+    .sort((a, b) => b.reading - a.reading)[0];
+  if (before) return { reading: before, position: 'before' };
+
+  const after = others
+    .filter(item => toTime(item.readingDate) > date && item.reading < reading)
+    .sort((a, b) => a.reading - b.reading)[0];
+  if (after) return { reading: after, position: 'after' };
+
+  return null;
+};
+
+export const describeOdometerConflict = ({ reading, position }: OdometerConflict): string => {
+  const date = new Date(toTime(reading.readingDate)).toLocaleDateString('en-GB');
+  return position === 'before'
+    ? `This is lower than the ${reading.reading.toLocaleString()} km already recorded on ${date}.`
+    : `This is higher than the ${reading.reading.toLocaleString()} km recorded later, on ${date}.`;
+};
+
+/**
+ * Average distance driven per day over the last year of readings, or null
+ * when there are not enough readings spread over at least a day
+ */
+export const getAverageKmPerDay = (readings: OdometerReading[]): number | null => {
+  const sorted = sortReadings(readings);
+  if (sorted.length < 2) return null;
+
+  const latest = sorted[sorted.length - 1];
+  const windowStart = toTime(latest.readingDate) - AVERAGE_WINDOW_DAYS * DAY_MS;
+  const recent = sorted.filter(item => toTime(item.readingDate) >= windowStart);
+  const first = recent.length >= 2 ? recent[0] : sorted[0];
+
+  const days = (toTime(latest.readingDate) - toTime(first.readingDate)) / DAY_MS;
+  if (days < 1 || latest.reading <= first.reading) return null;
+
+  return (latest.reading - first.reading) / days;
+};
+
+/**
+ * Estimated odometer reading on a date, extrapolated from the latest reading
+ */
+export const projectMileage = (readings: OdometerReading[], date: string, kmPerDay: number): number | null => {
+  const sorted = sortReadings(readings);
+  const latest = sorted[sorted.length - 1];
+  if (!latest) return null;
+
+  const days = Math.max(0, (toTime(date) - toTime(latest.readingDate)) / DAY_MS);
+  return Math.round(latest.reading + days * kmPerDay);
+};
+
+/**
+ * Estimated date (YYYY-MM-DD) the odometer reaches `targetMileage`,
+ * or null when there is no usable average
+ */
+export const estimateDateForMileage = (
+  currentMileage: number,
+  targetMileage: number,
+  kmPerDay: number | null
+): string | null => {
+  if (!kmPerDay || kmPerDay <= 0) return null;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = Math.max(0, Math.ceil((targetMileage - currentMileage) / kmPerDay));
+  return formatDate(new Date(today.getTime() + days * DAY_MS));
+};
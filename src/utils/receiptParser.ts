@@ -0,0 +1,138 @@
+import { MaintenanceFormData } from '../types';
+
+export type ReceiptFields = Partial<Pick<MaintenanceFormData, 'maintenanceDate' | 'cost' | 'performedBy' | 'mileage'>>;
+
+const DATE_KEYWORDS = /(datum|date|rechnungsdatum|invoice date|leistungsdatum)/i;
+const TOTAL_KEYWORDS = /(gesamtbetrag|endbetrag|rechnungsbetrag|zu zahlen|amount due|grand total|total|gesamt|summe|betrag)/i;
+// Whole words only, so that e.g. "Internet" or "Adjust" don't count as net or USt
+const NOT_TOTAL_KEYWORDS = /\b(zwischensumme|subtotal|sub total|netto\w*|net|mwst|ust|vat|tax|rabatt|discount)\b/i;
+const MILEAGE_KEYWORDS = /(km-stand|km stand|kilometerstand|laufleistung|odometer|mileage|tachostand)/i;
+const WORKSHOP_KEYWORDS = /(gmbh|autohaus|werkstatt|garage|kfz|auto|motors|service|reifen|tyres?|tires?|ltd|inc)/i;
+const HEADER_NOISE = /(rechnung|invoice|receipt|quittung|beleg|kunde|customer|seite|page|tel|fax|www\.|@)/i;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (date.getFullYear() !== fullYear || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  if (date.getTime() > Date.now()) return null;
+  return `${fullYear}-${pad(month)}-${pad(day)}`;
+};
+
+const findDates = (line: string): string[] => {
+  const dates: string[] = [];
+
+  for (const match of line.matchAll(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g)) {
+    const date = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (date) dates.push(date);
+  }
+
+  // Day first, as printed on European invoices, unless that cannot be a valid date
+  for (const match of line.matchAll(/\b(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})\b/g)) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const date = toIsoDate(year, second, first) || toIsoDate(year, first, second);
+    if (date) dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * Amounts with two decimals in either notation: 1.234,56 / 1,234.56 / 89,90
+ */
+const findAmounts = (line: string): number[] =>
+  Array.from(line.matchAll(/(\d{1,3}(?:[.,' ]\d{3})+|\d+)[.,](\d{2})(?!\d)/g)).map(match =>
+    Number(`${match[1].replace(/[.,' ]/g, '')}.${match[2]}`)
+  );
+
+const findMileage = (line: string): number | null => {
+  const match = line.match(/(\d{1,3}(?:[.,' ]\d{3})+|\d{3,7})\s*(?:km\b)?/i);
+  if (!match) return null;
+  const value = Number(match[1].replace(/[.,' ]/g, ''));
+  return value >= 100 ? value : null;
+};
+
+const extractDate = (lines: string[]): string | undefined => {
+  const labelled = lines.filter(line => DATE_KEYWORDS.test(line)).flatMap(findDates)[0];
+  return labelled || lines.flatMap(findDates)[0];
+};
+
+/**
+ * A total keyword followed by a tax term ("Total incl. VAT") labels the
+ * total; a tax term first ("Net total", "MwSt-Betrag") or right after the
+ * keyword ("Total tax") labels a partial amount.
+ */
+const isTotalLine = (line: string): boolean => {
+  const total = TOTAL_KEYWORDS.exec(line);
+  if (!total) return false;
+
+  const excluded = NOT_TOTAL_KEYWORDS.exec(line);
+  if (!excluded) return true;
+
+  const between = line.slice(total.index + total[0].length, excluded.index);
+  return excluded.index > total.index && /[a-z]/i.test(between);
+};
+
+const extractTotal = (lines: string[]): number | undefined => {
+  const totals = lines
+    .filter(isTotalLine)
+    .map(line => findAmounts(line).pop())
+    .filter((amount): amount is number => amount !== undefined);
+
+  // The grand total is normally the last labelled amount; fall back to the largest euro amount
+  if (totals.length > 0) return totals[totals.length - 1];
+
+  const euroAmounts = lines.filter(line => /€|eur\b/i.test(line)).flatMap(findAmounts);
+  return euroAmounts.length > 0 ? Math.max(...euroAmounts) : undefined;
+};
+
+const extractMileage = (lines: string[]): number | undefined => {
+  for (const line of lines) {
+    if (!MILEAGE_KEYWORDS.test(line)) continue;
+    const mileage = findMileage(line.replace(MILEAGE_KEYWORDS, ''));
+    if (mileage !== null) return mileage;
+  }
+
+  for (const line of lines) {
+    const match = line.match(/(\d{1,3}(?:[.,' ]\d{3})+|\d{4,7})\s*km\b/i);
+    if (match) return Number(match[1].replace(/[.,' ]/g, ''));
+  }
+
+  return undefined;
+};
+
+/**
+ * The workshop is usually named in the letterhead at the top of the receipt
+ */
+const extractWorkshop = (lines: string[]): string | undefined => {
+  const header = lines
+    .slice(0, 6)
+    .filter(line => /[a-z]{3,}/i.test(line) && !HEADER_NOISE.test(line) && findDates(line).length === 0);
+
+  return header.find(line => WORKSHOP_KEYWORDS.test(line)) || header[0];
+};
+
+/**
+ * Pull the fields of a maintenance record out of the recognized text of a
+ * receipt. Fields that cannot be found are left out.
+ */
+export const parseReceiptText = (text: string): ReceiptFields => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const fields: ReceiptFields = {
+    maintenanceDate: extractDate(lines),
+    cost: extractTotal(lines),
+    performedBy: extractWorkshop(lines),
+    mileage: extractMileage(lines),
+  };
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as ReceiptFields;
+};
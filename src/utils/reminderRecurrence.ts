@@ -0,0 +1,101 @@
+import { RecurrenceUnit, Reminder, ReminderRecurrence } from '../types';
+
+// Mileage-based reminders also fall due this many months after completion at the latest
+const MILEAGE_RECURRENCE_FALLBACK_MONTHS = 12;
+
+const UNIT_LABELS: Record<RecurrenceUnit, [string, string]> = {
+  days: ['day', 'days'],
+  weeks: ['week', 'weeks'],
+  months: ['month', 'months'],
+  years: ['year', 'years'],
+  km: ['km', 'km'],
+};
+
+const parseDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Add a calendar interval to a YYYY-MM-DD date. Month and year steps are
+ * clamped to the end of the month, so Jan 31 + 1 month is Feb 28/29.
+ */
+export const addInterval = (dateString: string, unit: Exclude<RecurrenceUnit, 'km'>, interval: number): string => {
+  const date = parseDate(dateString);
+
+  switch (unit) {
+    case 'days':
+      date.setDate(date.getDate() + interval);
+      break;
+    case 'weeks':
+      date.setDate(date.getDate() + interval * 7);
+      break;
+    case 'months':
+    case 'years': {
+      const months = unit === 'years' ? interval * 12 : interval;
+      const day = date.getDate();
+      date.setDate(1);
+      date.setMonth(date.getMonth() + months);
+      const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      date.setDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+
+  return formatDate(date);
+};
+
+export const formatRecurrence = (recurrence?: ReminderRecurrence): string => {
+  if (!recurrence) return 'Does not repeat';
+  const [singular, plural] = UNIT_LABELS[recurrence.unit];
+  if (recurrence.unit === 'km') {
+    return `Every ${recurrence.interval.toLocaleString()} ${plural}`;
+  }
+  return recurrence.interval === 1 ? `Every ${singular}` : `Every ${recurrence.interval} ${plural}`;
+};
+
+/**
+ * Work out the next occurrence of a recurring reminder after it was completed.
+ *
+ * Calendar recurrences stay anchored to the original schedule (a reminder due on
+ * the 1st stays on the 1st) and skip any occurrences already in the past.
+ * Mileage recurrences are due `interval` km after the car's current mileage.
+ */
+export const getNextOccurrence = (
+  reminder: Reminder,
+  completedOn: string,
+  currentMileage?: number
+): Omit<Reminder, 'id' | 'createdAt' | 'updatedAt'> | null => {
+  const { recurrence } = reminder;
+  if (!recurrence || recurrence.interval <= 0) return null;
+
+  const { id, createdAt, updatedAt, car, ...rest } = reminder;
+  let reminderDate: string;
+  let dueMileage = reminder.dueMileage;
+
+  if (recurrence.unit === 'km') {
+    const baseMileage = currentMileage ?? reminder.dueMileage;
+    if (baseMileage === undefined) return null;
+    dueMileage = baseMileage + recurrence.interval;
+    reminderDate = addInterval(completedOn, 'months', MILEAGE_RECURRENCE_FALLBACK_MONTHS);
+  } else {
+    reminderDate = addInterval(reminder.reminderDate, recurrence.unit, recurrence.interval);
+    while (reminderDate <= completedOn) {
+      reminderDate = addInterval(reminderDate, recurrence.unit, recurrence.interval);
+    }
+  }
+
+  return {
+    ...rest,
+    reminderDate,
+    dueMileage,
+    status: 'pending',
+  };
+};
@@ -0,0 +1,154 @@
+import { Car, MaintenanceCategory, MaintenanceRecord } from '../types';
+import { getRecordCategory } from './maintenanceCategories';
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export type DateRangePreset = 'last12Months' | 'thisYear' | 'lastYear' | 'allTime' | 'custom';
+
+export interface SpendBucket {
+  key: string;
+  label: string;
+  total: number;
+}
+
+export interface YearOverYear {
+  year: number;
+  months: { key: string; label: string; current: number; previous: number }[];
+  currentTotal: number;
+  previousTotal: number;
+  changePercent: number | null; // null when there was no spend the year before
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const getDay = (record: MaintenanceRecord) => record.maintenanceDate.split('T')[0];
+
+const sumCosts = (records: MaintenanceRecord[]) => records.reduce((sum, record) => sum + (record.cost || 0), 0);
+
+export const getPresetRange = (preset: Exclude<DateRangePreset, 'custom'>, records: MaintenanceRecord[]): DateRange => {
+  const today = new Date();
+  const year = today.getFullYear();
+
+  switch (preset) {
+    case 'last12Months':
+      return { from: formatDate(new Date(year, today.getMonth() - 11, 1)), to: formatDate(today) };
+    case 'thisYear':
+      return { from: `${year}-01-01`, to: formatDate(today) };
+    case 'lastYear':
+      return { from: `${year - 1}-01-01`, to: `${year - 1}-12-31` };
+    case 'allTime': {
+      const days = records.map(getDay).sort();
+      return { from: days[0] || `${year}-01-01`, to: formatDate(today) };
+    }
+  }
+};
+
+export const filterByDateRange = (records: MaintenanceRecord[], range: DateRange): MaintenanceRecord[] =>
+  records.filter(record => {
+    const day = getDay(record);
+    return day >= range.from && day <= range.to;
+  });
+
+/**
+ * Spend per calendar month in the range, including months without any spend
+ */
+export const getMonthlySpend = (records: MaintenanceRecord[], range: DateRange): SpendBucket[] => {
+  const [fromYear, fromMonth] = range.from.split('-').map(Number);
+  const [toYear, toMonth] = range.to.split('-').map(Number);
+  const buckets: SpendBucket[] = [];
+
+  for (let year = fromYear, month = fromMonth; year < toYear || (year === toYear && month <= toMonth); ) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    buckets.push({ key, label: `${MONTH_LABELS[month - 1]} ${String(year).slice(2)}`, total: 0 });
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+  for (const record of filterByDateRange(records, range)) {
+    const bucket = byKey.get(getDay(record).slice(0, 7));
+    if (bucket) bucket.total += record.cost || 0;
+  }
+
+  return buckets;
+};
+
+export const getYearlySpend = (records: MaintenanceRecord[], range: DateRange): SpendBucket[] => {
+  const fromYear = Number(range.from.slice(0, 4));
+  const toYear = Number(range.to.slice(0, 4));
+  const filtered = filterByDateRange(records, range);
+  const buckets: SpendBucket[] = [];
+
+  for (let year = fromYear; year <= toYear; year++) {
+    const total = sumCosts(filtered.filter(record => getDay(record).startsWith(`${year}-`)));
+    buckets.push({ key: String(year), label: String(year), total });
+  }
+
+  return buckets;
+};
+
+export const getSpendByCar = (records: MaintenanceRecord[], cars: Car[]): SpendBucket[] =>
+  cars
+    .map(car => ({
+      key: car.id,
+      label: `${car.make} ${car.model}`,
+      total: sumCosts(records.filter(record => record.carId === car.id)),
+    }))
+    .filter(bucket => bucket.total > 0)
+    .sort((a, b) => b.total - a.total);
+
+export const getSpendByCategory = (records: MaintenanceRecord[]): (SpendBucket & { key: MaintenanceCategory })[] => {
+  const totals = new Map<MaintenanceCategory, number>();
+  for (const record of records) {
+    if (!record.cost) continue;
+    const category = getRecordCategory(record);
+    totals.set(category, (totals.get(category) || 0) + record.cost);
+  }
+
+  return Array.from(totals.entries())
+    .map(([category, total]) => ({ key: category, label: category, total }))
+    .sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Compare the spend of a year with the year before, month by month. For the
+ * current year only the months so far are compared, so the change is like for like.
+ */
+export const getYearOverYear = (records: MaintenanceRecord[], year: number): YearOverYear => {
+  const today = new Date();
+  const lastMonth = year === today.getFullYear() ? today.getMonth() + 1 : 12;
+
+  const months = Array.from({ length: lastMonth }, (_, index) => {
+    const month = String(index + 1).padStart(2, '0');
+    return {
+      key: month,
+      label: MONTH_LABELS[index],
+      current: sumCosts(records.filter(record => getDay(record).startsWith(`${year}-${month}`))),
+      previous: sumCosts(records.filter(record => getDay(record).startsWith(`${year - 1}-${month}`))),
+    };
+  });
+
+  const currentTotal = months.reduce((sum, month) => sum + month.current, 0);
+  const previousTotal = months.reduce((sum, month) => sum + month.previous, 0);
+
+  return {
+    year,
+    months,
+    currentTotal,
+    previousTotal,
+    changePercent: previousTotal > 0 ? ((currentTotal - previousTotal) / previousTotal) * 100 : null,
+  };
+};
@@ -0,0 +1,50 @@
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Usernames double as document ids in the usernames collection, so keep them to a safe character set
+const USERNAME_PATTERN = /^[a-z0-9._-]+$/;
+
+// Also rules out the ids Firestore reserves: `.`, `..` and names wrapped in `__`
+const USERNAME_EDGE_PATTERN = /^[a-z0-9](.*[a-z0-9])?$/;
+
+const trimSeparators = (value: string): string => value.replace(/^[._-]+|[._-]+$/g, '');
+
+export const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+/**
+ * Returns a readable problem with the username, or null if it can be used
+ */
+export const validateUsername = (username: string): string | null => {
+  const normalized = normalizeUsername(username);
+
+  if (!normalized) return 'Username is required';
+  if (normalized.length < USERNAME_MIN_LENGTH) {
+    return `Username must be at least ${USERNAME_MIN_LENGTH} characters`;
+  }
+  if (normalized.length > USERNAME_MAX_LENGTH) {
+    return `Username must be at most ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(normalized)) {
+    return 'Username can only contain letters, numbers, dots, dashes and underscores';
+  }
+  if (!USERNAME_EDGE_PATTERN.test(normalized)) {
+    return 'Username must start and end with a letter or number';
+  }
+  return null;
+};
+
+/**
+ * Derive a valid username from a display name or email, for accounts that are
+ * created without picking one (e.g. the first Google or Apple sign-in)
+ */
+export const suggestUsername = (source: string, suffix = ''): string => {
+  const base = trimSeparators(
+    normalizeUsername(source.split('@')[0])
+      .replace(/\s+/g, '.')
+      .replace(/[^a-z0-9._-]/g, '')
+      .replace(/[._-]{2,}/g, separators => separators[0])
+  );
+  const padded = base.length >= USERNAME_MIN_LENGTH ? base : `driver${base}`;
+  // Cutting it short must not leave a separator at the end
+  return trimSeparators(padded.slice(0, USERNAME_MAX_LENGTH - suffix.length)) + suffix;
+};